@@ -9,6 +9,11 @@ import {
   VisibleSprite,
   MediaStreamClip,
   DEFAULT_AUDIO_CONF,
+  ITransitionOpts,
+  applyAudioGain,
+  checkTransition,
+  createTransitionRenderer,
+  getTransitionState,
 } from '@webav/av-cliper';
 import { renderCtrls } from './sprites/render-ctrl';
 import { ESpriteManagerEvt, SpriteManager } from './sprites/sprite-manager';
@@ -181,6 +186,8 @@ export class AVCanvas {
   #captureAudioDest = this.#audioCtx.createMediaStreamDestination();
 
   #playingAudioCache: Set<AudioBufferSourceNode> = new Set();
+  // 上一帧需要绘制的 Sprite
+  #drawingSprites = new Set<VisibleSprite>();
   #render() {
     const cvsCtx = this.#cvsCtx;
     let ts = this.#renderTime;
@@ -193,7 +200,54 @@ export class AVCanvas {
     this.#updateRenderTime(ts);
 
     const ctxDestAudioData: Float32Array[][] = [];
-    for (const s of this.#spriteManager.getSprites()) {
+    const visibleSprites = this.#spriteManager.getSprites();
+    const activeTrans = this.#transitions
+      .filter(({ from, to }) => from.visible && to.visible)
+      .map((trans) => ({
+        ...trans,
+        state: getTransitionState(ts, trans.from, trans.to, trans.opts),
+      }))
+      .filter((it) => it.state != null);
+    // 当前时刻需要绘制的素材优先获得解码器，隐藏、移除的素材同样需要取消标记
+    const drawingSprites = new Set([
+      ...visibleSprites,
+      ...activeTrans.flatMap((it) => [it.from, it.to]),
+    ]);
+    for (const s of this.#drawingSprites) {
+      if (!drawingSprites.has(s)) s.getClip().setVisible?.(false);
+    }
+    for (const s of drawingSprites) s.getClip().setVisible?.(true);
+    this.#drawingSprites = drawingSprites;
+
+    for (const s of this.#spriteManager.getSprites({ time: false })) {
+      // 处于转场中的两个 Sprite 一起绘制，与 Combinator 的合成结果一致
+      const transIdx = activeTrans.findIndex(
+        (it) => it.from === s || it.to === s,
+      );
+      if (transIdx !== -1) {
+        const { from, to, opts, state } = activeTrans[transIdx];
+        activeTrans.splice(transIdx, 1);
+        this.#transRenderer ??= createTransitionRenderer(
+          this.#cvsEl.width,
+          this.#cvsEl.height,
+        );
+        const { fromCtx, toCtx, clear, composite } = this.#transRenderer;
+        clear();
+        fromCtx.save();
+        const fromRs = from.render(fromCtx, state!.fromTime);
+        fromCtx.restore();
+        toCtx.save();
+        const toRs = to.render(toCtx, state!.toTime);
+        toCtx.restore();
+        composite(cvsCtx, state!.progress, opts);
+        ctxDestAudioData.push(
+          applyAudioGain(fromRs.audio, state!.fromGain),
+          applyAudioGain(toRs.audio, state!.toGain),
+        );
+        continue;
+      }
+      if (!visibleSprites.includes(s)) continue;
+
       cvsCtx.save();
       const { audio } = s.render(cvsCtx, ts - s.time.offset);
       cvsCtx.restore();
@@ -332,9 +386,46 @@ export class AVCanvas {
    */
   removeSprite: SpriteManager['removeSprite'] = (vs) => {
     this.#sprMapAudioNode.get(vs)?.disconnect();
+    this.#transitions = this.#transitions.filter(
+      (it) => it.from !== vs && it.to !== vs,
+    );
     this.#spriteManager.removeSprite(vs);
   };
 
+  #transitions: Array<{
+    from: VisibleSprite;
+    to: VisibleSprite;
+    opts: ITransitionOpts;
+  }> = [];
+  #transRenderer: ReturnType<typeof createTransitionRenderer> | null = null;
+  /**
+   * 在两个已添加的 {@link VisibleSprite} 之间添加转场效果，预览与 {@link createCombinator} 导出的效果一致
+   *
+   * 转场区间以 to 的开始时间为中心，超出素材时间范围的部分停留在首、尾帧，音频同步交叉淡化
+   * @param from 前一个 Sprite
+   * @param to 后一个 Sprite，开始时间需晚于 from
+   * @param opts 转场配置
+   * @example
+   * avCvs.addTransition(spr1, spr2, { name: 'wipe', duration: 1e6, direction: 'up' });
+   */
+  addTransition(from: VisibleSprite, to: VisibleSprite, opts: ITransitionOpts) {
+    const sprites = this.#spriteManager.getSprites({ time: false });
+    if (!sprites.includes(from) || !sprites.includes(to)) {
+      throw Error('Transition sprites must be added by addSprite first');
+    }
+    checkTransition(from, to, opts);
+    this.#transitions.push({ from, to, opts });
+  }
+
+  /**
+   * 删除两个 Sprite 之间的转场效果
+   */
+  removeTransition(from: VisibleSprite, to: VisibleSprite) {
+    this.#transitions = this.#transitions.filter(
+      (it) => it.from !== from || it.to !== to,
+    );
+  }
+
   /**
    * 销毁实例
    */
@@ -349,6 +440,7 @@ export class AVCanvas {
     this.#cvsEl.parentElement?.remove();
     this.#clears.forEach((fn) => fn());
     this.#playingAudioCache.clear();
+    this.#transRenderer?.destroy();
     this.#spriteManager.destroy();
   }
 
@@ -399,11 +491,20 @@ export class AVCanvas {
     const sprites = this.#spriteManager.getSprites({ time: false });
     if (sprites.length === 0) throw Error('No sprite added');
 
+    const sprMap = new Map<VisibleSprite, OffscreenSprite>();
     for (const vs of sprites) {
       const os = new OffscreenSprite(vs.getClip());
       os.time = { ...vs.time };
       vs.copyStateTo(os);
       await com.addSprite(os);
+      sprMap.set(vs, os);
+    }
+    for (const { from, to, opts } of this.#transitions) {
+      const fromOS = sprMap.get(from);
+      const toOS = sprMap.get(to);
+      // 不可见的 Sprite 不参与合成
+      if (fromOS == null || toOS == null) continue;
+      com.addTransition(fromOS, toOS, opts);
     }
     return com;
   }
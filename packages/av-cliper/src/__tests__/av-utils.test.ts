@@ -1,6 +1,11 @@
 import { test, expect } from 'vitest';
 // import './mock';
-import { concatFloat32Array, concatPCMFragments, mixinPCM } from '../av-utils';
+import {
+  concatFloat32Array,
+  concatPCMFragments,
+  createPCMTimeStretcher,
+  mixinPCM,
+} from '../av-utils';
 
 test('concatArrayBuffer', () => {
   expect(
@@ -46,3 +51,21 @@ test('concatFragmentPCM', () => {
     new Float32Array([...chan1, ...chan1]),
   ]);
 });
+
+test('createPCMTimeStretcher', () => {
+  const stretcher = createPCMTimeStretcher(2);
+  // 1s 440Hz 正弦波
+  const wave = new Float32Array(48000).map((_, i) =>
+    Math.sin((2 * Math.PI * 440 * i) / 48000),
+  );
+  stretcher.push([wave, wave]);
+  const rs = stretcher.pull(12000, 2);
+  expect(rs.length).toBe(2);
+  expect(rs[0].length).toBe(12000);
+  // 跳过起始的淡入部分，振幅应与原始音频接近
+  const peak = Math.max(...rs[0].subarray(2048).map(Math.abs));
+  expect(peak).toBeGreaterThan(0.9);
+  expect(peak).toBeLessThan(1.1);
+  // 原始数据已消耗完，后续以静音补齐
+  expect(stretcher.pull(48000, 2)[0].at(-1)).toBe(0);
+});
@@ -1,11 +1,15 @@
 import { test, expect, vi } from 'vitest';
 import { OffscreenSprite } from '../sprite/offscreen-sprite';
-import { AudioClip, IClip, ImgClip, MP4Clip } from '../clips';
+import { AudioClip, IClip, ImgClip, MP4Clip, WebMClip } from '../clips';
 import { Combinator } from '../combinator';
+import { autoReadStream, sleep } from '../av-utils';
+import { SampleTransform } from '../mp4-utils/sample-transform';
+import { fastConcatMP4 } from '../mp4-utils';
 
 const m4a_44kHz_2chan = `//${location.host}/audio/44.1kHz-2chan.m4a`;
 const mp3_16kHz_1chan = `//${location.host}/audio/16kHz-1chan.mp3`;
 const png_bunny = `//${location.host}/img/bunny.png`;
+const mp4_bunny_1 = `//${location.host}/video/bunny_1.mp4`;
 
 test('Combinator ouput m4a', async () => {
   const resp1 = await fetch(m4a_44kHz_2chan);
@@ -25,6 +29,7 @@ test('Combinator ouput m4a', async () => {
     duration: 1088000,
     width: 0,
     height: 0,
+    rotation: 0,
     audioSampleRate: 48000,
     audioChanCount: 2,
   });
@@ -71,10 +76,443 @@ test('Combinator ouput exclude audio track', async () => {
   const mp4Clip = new MP4Clip(com.output());
   await mp4Clip.ready;
   expect(mp4Clip.meta).toEqual({
-    duration: 1023000,
+    duration: 1033333,
     width: 900,
     height: 500,
+    rotation: 0,
     audioSampleRate: 0,
     audioChanCount: 0,
   });
 });
+
+test('Combinator ouput with fps and keyFrameInterval', async () => {
+  const resp1 = await fetch(png_bunny);
+  const spr1 = new OffscreenSprite(new ImgClip(resp1.body!));
+
+  const com = new Combinator({
+    width: 900,
+    height: 500,
+    audio: false,
+    fps: 25,
+    keyFrameInterval: '0.2s',
+  });
+  spr1.time = { offset: 0, duration: 1e6 };
+  await com.addSprite(spr1);
+
+  const mp4Clip = new MP4Clip(com.output());
+  await mp4Clip.ready;
+  // 0 ~ 1s 共 26 帧，每帧 40ms
+  expect(mp4Clip.meta.duration).toBe(1040000);
+  // 每 5 帧一个关键帧
+  expect((await mp4Clip.thumbnails(100)).length).toBe(6);
+  mp4Clip.destroy();
+});
+
+test('Combinator ouput webm', async () => {
+  const resp1 = await fetch(png_bunny);
+  const spr1 = new OffscreenSprite(new ImgClip(resp1.body!));
+  const resp2 = await fetch(m4a_44kHz_2chan);
+  const spr2 = new OffscreenSprite(new AudioClip(resp2.body!));
+
+  const com = new Combinator({ width: 900, height: 500, container: 'webm' });
+  spr1.time = { offset: 0, duration: 1e6 };
+  spr2.time = { offset: 0, duration: 1e6 };
+  await com.addSprite(spr1);
+  await com.addSprite(spr2);
+
+  const clip = new WebMClip(com.output());
+  await clip.ready;
+  const { meta } = clip;
+  expect(meta.width).toBe(900);
+  expect(meta.height).toBe(500);
+  expect(meta.audioSampleRate).toBe(48000);
+  expect(Math.abs(meta.duration - 1033333)).toBeLessThan(50e3);
+  clip.destroy();
+});
+
+test('Combinator ouput wav', async () => {
+  const resp1 = await fetch(m4a_44kHz_2chan);
+  const spr1 = new OffscreenSprite(new AudioClip(resp1.body!));
+  spr1.time = { offset: 0, duration: 1e6 };
+
+  const com = new Combinator({ container: 'wav' });
+  await com.addSprite(spr1);
+
+  const buf = await new Response(com.output()).arrayBuffer();
+  expect(new TextDecoder().decode(buf.slice(8, 12))).toBe('WAVE');
+  const clip = new AudioClip(new Response(buf).body!);
+  await clip.ready;
+  expect(Math.abs(clip.meta.duration - 1033333)).toBeLessThan(1e3);
+});
+
+test('Combinator audio-only container with video track', () => {
+  expect(
+    () => new Combinator({ width: 100, height: 100, container: 'ogg' }),
+  ).toThrowError('ogg container does not support video track');
+});
+
+test('Combinator invalid fps', () => {
+  expect(() => new Combinator({ fps: 0 })).toThrowError();
+});
+
+test('Combinator pause and resume output', async () => {
+  const resp1 = await fetch(png_bunny);
+  const spr1 = new OffscreenSprite(new ImgClip(resp1.body!));
+  spr1.time = { offset: 0, duration: 1e6 };
+
+  const com = new Combinator({ width: 900, height: 500, audio: false });
+  await com.addSprite(spr1);
+  expect(() => com.pause()).toThrowError('Combinator is not outputting');
+
+  const onPaused = vi.fn();
+  const onResumed = vi.fn();
+  com.on('paused', onPaused);
+  com.on('resumed', onResumed);
+  const stream = com.output();
+  com.pause();
+  com.pause();
+  expect(onPaused).toBeCalledTimes(1);
+  com.resume();
+  expect(onResumed).toBeCalledTimes(1);
+
+  const mp4Clip = new MP4Clip(stream);
+  await mp4Clip.ready;
+  expect(mp4Clip.meta.duration).toBe(1033333);
+  mp4Clip.destroy();
+});
+
+test('Combinator makes no progress while paused', async () => {
+  const resp1 = await fetch(png_bunny);
+  const clip = new ImgClip(resp1.body!);
+  const spr1 = new OffscreenSprite(clip);
+  spr1.time = { offset: 0, duration: 3e6 };
+
+  const com = new Combinator({ width: 900, height: 500, audio: false });
+  await com.addSprite(spr1);
+
+  // 合成到 1s 时暂停
+  let tickCnt = 0;
+  let pausedOnce = false;
+  const tick = clip.tick.bind(clip);
+  const paused = new Promise<void>((resolve) => {
+    clip.tick = async (time) => {
+      tickCnt += 1;
+      if (time >= 1e6 && !pausedOnce) {
+        pausedOnce = true;
+        com.pause();
+        resolve();
+      }
+      return tick(time);
+    };
+  });
+
+  const progress: number[] = [];
+  com.on('OutputProgress', (prog) => {
+    progress.push(prog);
+  });
+  let chunkCnt = 0;
+  const done = new Promise<void>((resolve) => {
+    autoReadStream(com.output(), {
+      onChunk: async () => {
+        chunkCnt += 1;
+      },
+      onDone: resolve,
+    });
+  });
+
+  await paused;
+  // 等待暂停前已提交的帧编码、写出
+  await sleep(1000);
+  const pausedTickCnt = tickCnt;
+  const pausedChunkCnt = chunkCnt;
+  const pausedEvtCnt = progress.length;
+  await sleep(1000);
+  expect(tickCnt).toBe(pausedTickCnt);
+  expect(chunkCnt).toBe(pausedChunkCnt);
+  // 暂停期间仍会定时上报进度，但进度值不变
+  const pausedProgress = progress.slice(pausedEvtCnt - 1);
+  expect(pausedProgress.length).toBeGreaterThan(1);
+  expect(new Set(pausedProgress).size).toBe(1);
+  expect(pausedProgress[0]).toBeLessThan(1);
+
+  com.resume();
+  await done;
+  expect(tickCnt).toBeGreaterThan(pausedTickCnt);
+  expect(chunkCnt).toBeGreaterThan(pausedChunkCnt);
+  expect(progress.at(-1)).toBe(1);
+});
+
+test('Combinator abort output', async () => {
+  const resp1 = await fetch(png_bunny);
+  const spr1 = new OffscreenSprite(new ImgClip(resp1.body!));
+  spr1.time = { offset: 0, duration: 10e6 };
+
+  const com = new Combinator({ width: 900, height: 500, audio: false });
+  await com.addSprite(spr1);
+  const onAborted = vi.fn();
+  com.on('aborted', onAborted);
+
+  const ctrl = new AbortController();
+  const reader = com.output({ signal: ctrl.signal }).getReader();
+  ctrl.abort('cancel by user');
+  expect(onAborted).toBeCalledWith('cancel by user');
+  await expect(reader.read()).rejects.toThrowError('Combinator output aborted');
+
+  // 已取消的 signal
+  expect(() => com.output({ signal: ctrl.signal })).toThrowError(
+    'Combinator output aborted',
+  );
+});
+
+test('Combinator output progress detail and report', async () => {
+  const resp1 = await fetch(png_bunny);
+  const spr1 = new OffscreenSprite(new ImgClip(resp1.body!));
+  spr1.time = { offset: 0, duration: 1e6 };
+
+  const com = new Combinator({ width: 900, height: 500, audio: false });
+  await com.addSprite(spr1);
+  const onProgress = vi.fn();
+  const onEnded = vi.fn();
+  com.on('OutputProgress', onProgress);
+  com.on('OutputEnded', onEnded);
+
+  const buf = await new Response(com.output()).arrayBuffer();
+  const [prog, detail] = onProgress.mock.lastCall!;
+  expect(prog).toBe(1);
+  expect(detail.progress).toBe(1);
+  expect(detail.framesRendered).toBe(31);
+  // 编码器已 flush，所有帧均已输出
+  expect(detail.framesEncoded).toBe(31);
+  expect(detail.activeSprites).toBe(1);
+  expect(detail.bytesWritten).toBeGreaterThan(0);
+  expect(detail.bytesWritten).toBeLessThanOrEqual(buf.byteLength);
+
+  expect(onEnded).toBeCalledTimes(1);
+  const report = onEnded.mock.lastCall![0];
+  expect(report.framesRendered).toBe(31);
+  expect(report.duration).toBe(1033333);
+  expect(report.realtimeFactor).toBeGreaterThan(0);
+});
+
+test('Combinator concat untransformed MP4Clip', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  const { width, height, duration } = await clip.ready;
+  const spr1 = new OffscreenSprite(clip);
+  const spr2 = new OffscreenSprite(await clip.clone());
+  spr2.time.offset = duration;
+
+  const com = new Combinator({ width, height });
+  await com.addSprite(spr1);
+  await com.addSprite(spr2);
+
+  const outClip = new MP4Clip(com.output());
+  await outClip.ready;
+  expect([outClip.meta.width, outClip.meta.height]).toEqual([width, height]);
+  expect(Math.abs(outClip.meta.duration - duration * 2)).toBeLessThan(0.1e6);
+  const { video } = await outClip.tick(duration + 0.5e6);
+  expect(video).toBeInstanceOf(VideoFrame);
+  video?.close();
+  outClip.destroy();
+});
+
+test('Combinator splitSegments', async () => {
+  const spr1 = new OffscreenSprite(new ImgClip((await fetch(png_bunny)).body!));
+  spr1.time = { offset: 0, duration: 4e6 };
+
+  const com = new Combinator({ width: 900, height: 500, keyFrameInterval: 16 });
+  await com.addSprite(spr1);
+  // 关键帧间隔 16 帧，分界还需对齐 AAC 帧（64ms），每 3 个 GoP（1.6s）可拆分
+  expect(com.splitSegments(3)).toEqual([
+    { start: 0, end: 1.6e6, last: false, passThrough: false },
+    { start: 1.6e6, end: 3.2e6, last: false, passThrough: false },
+    { start: 3.2e6, end: 4e6, last: true, passThrough: false },
+  ]);
+  expect(() => com.splitSegments(0)).toThrowError('Invalid segment count: 0');
+
+  // 无音频时仅需对齐关键帧
+  const videoCom = new Combinator({
+    width: 900,
+    height: 500,
+    keyFrameInterval: 16,
+    audio: false,
+  });
+  await videoCom.addSprite(spr1);
+  expect(videoCom.splitSegments(3).map((it) => it.start)).toEqual([
+    0, 1066667, 2666667,
+  ]);
+
+  const wavCom = new Combinator({ container: 'wav' });
+  await wavCom.addSprite(spr1);
+  expect(() => wavCom.splitSegments(2)).toThrowError(
+    'wav container does not support segmented output',
+  );
+});
+
+async function readSamples(stream: ReadableStream<Uint8Array>) {
+  const samples: Record<string, { cts: number; duration: number }[]> = {};
+  await new Promise<void>((resolve) => {
+    autoReadStream(stream.pipeThrough(new SampleTransform()), {
+      onDone: resolve,
+      onChunk: async ({ chunkType, data }) => {
+        if (chunkType === 'ready') return;
+        samples[data.type] = (samples[data.type] ?? []).concat(
+          data.samples.map((s) => ({
+            cts: (s.cts * 1e6) / s.timescale,
+            duration: (s.duration * 1e6) / s.timescale,
+          })),
+        );
+      },
+    });
+  });
+  return samples;
+}
+
+test('Combinator segments joined by fastConcatMP4 match sequential output', async () => {
+  const opts = { width: 900, height: 500, keyFrameInterval: 16 };
+  const imgSpr = new OffscreenSprite(
+    new ImgClip((await fetch(png_bunny)).body!),
+  );
+  imgSpr.time = { offset: 0, duration: 4e6 };
+  const audioSpr = new OffscreenSprite(
+    new AudioClip((await fetch(m4a_44kHz_2chan)).body!, { loop: true }),
+  );
+  audioSpr.time = { offset: 0, duration: 4e6 };
+  const createCom = async () => {
+    const com = new Combinator(opts);
+    await com.addSprite(imgSpr);
+    await com.addSprite(audioSpr);
+    return com;
+  };
+
+  const expected = await readSamples((await createCom()).output());
+
+  const segments = (await createCom()).splitSegments(3);
+  expect(segments.length).toBe(3);
+  const bufs: ArrayBuffer[] = [];
+  for (const segment of segments) {
+    const com = await createCom();
+    bufs.push(await new Response(com.output({ segment })).arrayBuffer());
+  }
+  const actual = await readSamples(
+    await fastConcatMP4(bufs.map((buf) => new Response(buf).body!)),
+  );
+
+  expect(actual.video.map((it) => it.cts)).toEqual(
+    expected.video.map((it) => it.cts),
+  );
+  // 分段处的音频既不重叠也不缺失，样本数、时间与顺序输出一致
+  expect(actual.audio.length).toBe(expected.audio.length);
+  actual.audio.forEach((it, i) => {
+    expect(Math.abs(it.cts - expected.audio[i].cts)).toBeLessThanOrEqual(1);
+    if (i === 0) return;
+    const prevEnd = actual.audio[i - 1].cts + actual.audio[i - 1].duration;
+    expect(Math.abs(it.cts - prevEnd)).toBeLessThan(1e6 / 48000);
+  });
+});
+
+// 纯色画面（width 为 0 时无画面）、恒定采样值的素材，用于检查转场效果
+class ConstClip implements IClip {
+  #lastTime = 0;
+  meta: { width: number; height: number; duration: number };
+  ready: IClip['ready'];
+  constructor(
+    readonly color: string,
+    readonly sample: number,
+    opts: { width: number; height: number; duration: number },
+  ) {
+    this.meta = { ...opts };
+    this.ready = Promise.resolve(this.meta);
+  }
+  tick = async (time: number) => {
+    if (time >= this.meta.duration) return { state: 'done' as const };
+    // 返回上次 tick 至今的音频
+    const len = Math.round(((time - this.#lastTime) * 48000) / 1e6);
+    this.#lastTime = time;
+    const audio = [0, 1].map(() => new Float32Array(len).fill(this.sample));
+    const { width, height } = this.meta;
+    if (width === 0) return { state: 'success' as const, audio };
+    const cvs = new OffscreenCanvas(width, height);
+    const ctx = cvs.getContext('2d')!;
+    ctx.fillStyle = this.color;
+    ctx.fillRect(0, 0, width, height);
+    return {
+      state: 'success' as const,
+      audio,
+      video: new VideoFrame(cvs, { timestamp: time }),
+    };
+  };
+  clone = async () => new ConstClip(this.color, this.sample, this.meta) as this;
+  split = async (_: number): Promise<[this, this]> => {
+    throw Error('Not implemented');
+  };
+  destroy = () => {};
+}
+
+async function createTransitionCombinator(
+  opts: ConstructorParameters<typeof Combinator>[0],
+  clipSize: { width: number; height: number },
+) {
+  const from = new OffscreenSprite(
+    new ConstClip('#ff0000', 0.5, { ...clipSize, duration: 2e6 }),
+  );
+  const to = new OffscreenSprite(
+    new ConstClip('#0000ff', -0.5, { ...clipSize, duration: 2e6 }),
+  );
+  to.time.offset = 2e6;
+  const com = new Combinator(opts);
+  await com.addSprite(from);
+  await com.addSprite(to);
+  // 转场区间 [1.5s, 2.5s)
+  com.addTransition(from, to, { name: 'crossfade', duration: 1e6 });
+  return com;
+}
+
+test('Combinator crossfade transition frames', async () => {
+  const com = await createTransitionCombinator(
+    { width: 320, height: 180, audio: false },
+    { width: 320, height: 180 },
+  );
+  const clip = new MP4Clip(com.output());
+  await clip.ready;
+  const ctx = new OffscreenCanvas(320, 180).getContext('2d')!;
+  const getColor = async (time: number) => {
+    const { video } = await clip.tick(time);
+    ctx.drawImage(video!, 0, 0);
+    video?.close();
+    return [...ctx.getImageData(160, 90, 1, 1).data.slice(0, 3)];
+  };
+  const expectColor = (rgb: number[], expected: number[]) => {
+    rgb.forEach((v, i) => expect(Math.abs(v - expected[i])).toBeLessThan(30));
+  };
+  expectColor(await getColor(1e6), [255, 0, 0]);
+  // 转场进度 0.5，from 停留在最后一帧，to 停留在第一帧
+  expectColor(await getColor(2e6), [128, 0, 128]);
+  expectColor(await getColor(3e6), [0, 0, 255]);
+  clip.destroy();
+});
+
+test('Combinator crossfade transition audio gain', async () => {
+  const com = await createTransitionCombinator(
+    { container: 'wav' },
+    { width: 0, height: 0 },
+  );
+  const buf = await new Response(com.output()).arrayBuffer();
+  // 跳过 44 字节的文件头，16 位双声道交错
+  const pcm = new Int16Array(buf, 44);
+  const sampleAt = (time: number) =>
+    pcm[Math.round((time * 48000) / 1e6) * 2] / 0x7fff;
+
+  expect(sampleAt(1e6)).toBeCloseTo(0.5, 2);
+  // from 在 [1.5s, 2s) 内淡出，to 在 [2s, 2.5s) 内淡入
+  expect(Math.abs(sampleAt(1.75e6) - 0.25)).toBeLessThan(0.05);
+  expect(Math.abs(sampleAt(2e6))).toBeLessThan(0.05);
+  expect(Math.abs(sampleAt(2.25e6) + 0.25)).toBeLessThan(0.05);
+  expect(sampleAt(3e6)).toBeCloseTo(-0.5, 2);
+  // 音量曲线连续，两个素材切换时不会突变
+  let maxDelta = 0;
+  const end = Math.round(3.5 * 48000) * 2;
+  for (let i = Math.round(0.5 * 48000) * 2; i < end; i += 2) {
+    maxDelta = Math.max(maxDelta, Math.abs(pcm[i] - pcm[i - 2]) / 0x7fff);
+  }
+  expect(maxDelta).toBeLessThan(0.05);
+});
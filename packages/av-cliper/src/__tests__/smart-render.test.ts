@@ -0,0 +1,69 @@
+import { expect, test } from 'vitest';
+import { planSmartRender } from '../smart-render';
+
+const gops = [
+  { start: 0, end: 2e6 },
+  { start: 2e6, end: 4e6 },
+  { start: 4e6, end: 5e6 },
+];
+
+test('planSmartRender concat clips', () => {
+  const spans = planSmartRender(
+    [
+      { time: { offset: 0, duration: 5e6 }, visual: true, gops },
+      { time: { offset: 5e6, duration: 5e6 }, visual: true, gops },
+    ],
+    { maxTime: 10e6 },
+  );
+  expect(spans.map(({ spriteIdx, start, end }) => [spriteIdx, start, end]))
+    .toMatchInlineSnapshot(`
+      [
+        [
+          0,
+          0,
+          5000000,
+        ],
+        [
+          1,
+          5000000,
+          10000000,
+        ],
+      ]
+    `);
+  expect(spans[1].gops[0]).toEqual({ start: 5e6, end: 7e6 });
+});
+
+test('planSmartRender skip spans covered by upper sprite', () => {
+  const spans = planSmartRender(
+    [
+      { time: { offset: 0, duration: 5e6 }, visual: true, gops },
+      // 水印
+      { time: { offset: 2.5e6, duration: 1e6 }, visual: true, gops: null },
+      // 纯音频素材不影响画面
+      { time: { offset: 0, duration: 5e6 }, visual: false, gops: null },
+    ],
+    { maxTime: 5e6 },
+  );
+  expect(spans.map(({ start, end }) => [start, end])).toEqual([
+    [0, 2e6],
+    [4e6, 5e6],
+  ]);
+});
+
+test('planSmartRender respect sprite duration and blocked ranges', () => {
+  const spans = planSmartRender(
+    [{ time: { offset: 1e6, duration: 4.5e6 }, visual: true, gops }],
+    { maxTime: 10e6, blocked: [{ start: 0.5e6, end: 1.5e6 }] },
+  );
+  // 第一个 GoP 与转场区间重叠，最后一个 GoP 超出素材时长
+  expect(spans.map(({ start, end }) => [start, end])).toEqual([[3e6, 5e6]]);
+});
+
+test('planSmartRender without copyable sprite', () => {
+  expect(
+    planSmartRender(
+      [{ time: { offset: 0, duration: 5e6 }, visual: true, gops: null }],
+      { maxTime: 5e6 },
+    ),
+  ).toEqual([]);
+});
@@ -298,6 +298,151 @@ export function ringSliceFloat32Array(
   return rs;
 }
 
+/**
+ * 创建 PCM 变速器（WSOLA 算法），改变音频播放速度的同时保持音调不变
+ *
+ * 流式处理，通过 push 写入原始 PCM，pull 读取指定帧数的变速后 PCM
+ *
+ * @param chanCount 声道数
+ * @param frameSize 分析窗口大小，默认 1024（48kHz 下约 21ms）
+ *
+ * @example
+ * const stretcher = createPCMTimeStretcher(2);
+ * stretcher.push(pcm); // 2s 原始音频
+ * stretcher.pull(48000, 2); // => 2 倍速播放后的 1s 音频
+ */
+export function createPCMTimeStretcher(chanCount: number, frameSize = 1024) {
+  const frameLen = frameSize;
+  const synHop = frameLen / 2;
+  // 搜索相似波形的范围
+  const tolerance = frameLen / 4;
+  // 计算相关性的采样长度
+  const corrLen = frameLen / 4;
+  // 50% 重叠的汉宁窗，叠加后增益恒为 1
+  const win = new Float32Array(frameLen).map(
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLen),
+  );
+
+  const newChans = (len: number) =>
+    Array(chanCount)
+      .fill(0)
+      .map(() => new Float32Array(len));
+
+  let input = newChans(0);
+  // input[0] 对应的绝对位置
+  let inputStart = 0;
+  // 按速率推进的理论分析位置
+  let nominalPos = 0;
+  // 上一帧实际选中的分析位置
+  let prevPos = -1;
+  const overlapBuf = newChans(frameLen);
+  const outputQueue: Float32Array[][] = [];
+  let outputCnt = 0;
+
+  const inputEnd = () => inputStart + (input[0]?.length ?? 0);
+
+  // 与上一帧的自然延续波形最相似的偏移量
+  function searchBestOffset(pos: number, natural: number) {
+    let bestOffset = 0;
+    let bestCorr = -Infinity;
+    const minOffset = -Math.min(tolerance, pos - inputStart);
+    for (let offset = minOffset; offset <= tolerance; offset++) {
+      let corr = 0;
+      const candIdx = pos + offset - inputStart;
+      const natIdx = natural - inputStart;
+      for (let i = 0; i < corrLen; i++) {
+        let cand = 0;
+        let nat = 0;
+        for (let c = 0; c < chanCount; c++) {
+          cand += input[c][candIdx + i];
+          nat += input[c][natIdx + i];
+        }
+        corr += cand * nat;
+      }
+      if (corr > bestCorr) {
+        bestCorr = corr;
+        bestOffset = offset;
+      }
+    }
+    return bestOffset;
+  }
+
+  function step(rate: number): boolean {
+    let pos = Math.round(nominalPos);
+    if (prevPos >= 0) {
+      const natural = prevPos + synHop;
+      if (inputEnd() < Math.max(pos + tolerance + frameLen, natural + corrLen))
+        return false;
+      pos += searchBestOffset(pos, natural);
+    } else if (inputEnd() < pos + frameLen) {
+      return false;
+    }
+
+    const frameOut = newChans(synHop);
+    for (let c = 0; c < chanCount; c++) {
+      const buf = overlapBuf[c];
+      const src = input[c];
+      const srcOffset = pos - inputStart;
+      for (let i = 0; i < frameLen; i++) buf[i] += src[srcOffset + i] * win[i];
+      frameOut[c].set(buf.subarray(0, synHop));
+      buf.copyWithin(0, synHop);
+      buf.fill(0, frameLen - synHop);
+    }
+    outputQueue.push(frameOut);
+    outputCnt += synHop;
+
+    prevPos = pos;
+    nominalPos += synHop * rate;
+
+    // 丢弃不再需要的数据
+    const dropCnt =
+      Math.floor(Math.min(prevPos, nominalPos - tolerance)) - inputStart;
+    if (dropCnt > 0) {
+      input = input.map((chan) => chan.slice(dropCnt));
+      inputStart += dropCnt;
+    }
+    return true;
+  }
+
+  return {
+    /**
+     * 写入原始 PCM 数据
+     */
+    push(pcm: Float32Array[]) {
+      if (pcm.length === 0 || pcm[0].length === 0) return;
+      input = input.map((chan, idx) =>
+        concatFloat32Array([chan, pcm[idx] ?? pcm[0]]),
+      );
+    },
+    /**
+     * 读取变速后的 PCM，数据不足时以静音补齐，保证返回的帧数恒为 frameCnt
+     * @param frameCnt 期望获取的帧数
+     * @param rate 播放速率
+     */
+    pull(frameCnt: number, rate: number): Float32Array[] {
+      while (outputCnt < frameCnt && step(rate)) {}
+
+      const rs = newChans(frameCnt);
+      let offset = 0;
+      while (offset < frameCnt && outputQueue.length > 0) {
+        const chunk = outputQueue[0];
+        const len = Math.min(chunk[0].length, frameCnt - offset);
+        for (let c = 0; c < chanCount; c++) {
+          rs[c].set(chunk[c].subarray(0, len), offset);
+        }
+        offset += len;
+        if (len === chunk[0].length) {
+          outputQueue.shift();
+        } else {
+          outputQueue[0] = chunk.map((chan) => chan.subarray(len));
+        }
+      }
+      outputCnt -= offset;
+      return rs;
+    },
+  };
+}
+
 /**
  * 自动读取流并处理每个数据块。
  *
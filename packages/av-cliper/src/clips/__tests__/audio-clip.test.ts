@@ -104,3 +104,46 @@ test('split by time', async () => {
   expect(Math.round(preClip11.meta.duration / 1e6)).toBe(30);
   expect(Math.round(postClip12.meta.duration / 1e6)).toBe(30);
 });
+
+test('AudioClip waveform', async () => {
+  const clip = new AudioClip((await fetch(mp3_16kHz_1chan)).body!);
+  await clip.ready;
+  const data = await clip.waveform({
+    samplesPerPixel: 4800,
+    start: 1e6,
+    end: 2e6,
+  });
+  // 1s 对应 10 个波形点
+  expect(data.length).toBe(10);
+  expect(data.channels.length).toBe(2);
+  const [min, max, rms] = data.channels[0];
+  expect(min).toBeLessThanOrEqual(rms);
+  expect(max).toBeGreaterThanOrEqual(-rms);
+});
+
+test('AudioClip fade in/out', async () => {
+  const { sampleRate } = DEFAULT_AUDIO_CONF;
+  // 2s 音量为 1 的 PCM 数据
+  const pcm = [
+    new Float32Array(sampleRate * 2).fill(1),
+    new Float32Array(sampleRate * 2).fill(1),
+  ];
+  const clip = new AudioClip(pcm, { fadeIn: 1e6, fadeOut: 1e6 });
+  await clip.ready;
+  await clip.tick(0);
+  const {
+    audio: [chan0],
+  } = await clip.tick(1e6);
+  expect(chan0[0]).toBe(0);
+  expect(chan0[sampleRate / 2]).toBeCloseTo(0.5);
+  // 原始数据不受影响
+  expect(clip.getPCMData()[0][0]).toBe(1);
+
+  const [preClip, postClip] = await clip.split(1.5e6);
+  await preClip.tick(0);
+  expect((await preClip.tick(1.5e6)).audio[0][sampleRate * 1.25]).toBeCloseTo(
+    0.75,
+  );
+  await postClip.tick(0);
+  expect((await postClip.tick(0.5e6)).audio[0][0]).toBeCloseTo(0.5);
+});
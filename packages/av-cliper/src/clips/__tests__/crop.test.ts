@@ -0,0 +1,50 @@
+import { expect, test } from 'vitest';
+import { createFrameCropper, splitCrop } from '../crop';
+
+test('createFrameCropper size', () => {
+  expect(createFrameCropper().getSize(1280, 720)).toEqual({
+    width: 1280,
+    height: 720,
+  });
+  expect(
+    createFrameCropper({ x: 10, y: 10, w: 640, h: 360 }).getSize(1280, 720),
+  ).toEqual({ width: 640, height: 360 });
+  // 关键帧按时间排序，输出尺寸为第一个关键帧的尺寸
+  expect(
+    createFrameCropper([
+      { time: 1e6, x: 0, y: 0, w: 200, h: 200 },
+      { time: 0, x: 0, y: 0, w: 100, h: 100 },
+    ]).getSize(1280, 720),
+  ).toEqual({ width: 100, height: 100 });
+});
+
+test('createFrameCropper invalid rect', () => {
+  expect(() => createFrameCropper({ x: 0, y: 0, w: 0, h: 10 })).toThrowError();
+  expect(() => createFrameCropper([])).toThrowError();
+});
+
+test('splitCrop', () => {
+  const rect = { x: 0, y: 0, w: 100, h: 100 };
+  expect(splitCrop(rect, 1e6)).toEqual([rect, rect]);
+  expect(splitCrop(undefined, 1e6)).toEqual([undefined, undefined]);
+  expect(
+    splitCrop(
+      [
+        { time: 0, x: 0, y: 0, w: 100, h: 100 },
+        { time: 2e6, x: 200, y: 100, w: 200, h: 200 },
+        { time: 3e6, x: 0, y: 0, w: 200, h: 200 },
+      ],
+      1e6,
+    ),
+  ).toEqual([
+    [
+      { time: 0, x: 0, y: 0, w: 100, h: 100 },
+      { time: 1e6, x: 100, y: 50, w: 150, h: 150 },
+    ],
+    [
+      { time: 0, x: 100, y: 50, w: 150, h: 150 },
+      { time: 1e6, x: 200, y: 100, w: 200, h: 200 },
+      { time: 2e6, x: 0, y: 0, w: 200, h: 200 },
+    ],
+  ]);
+});
@@ -0,0 +1,133 @@
+import { expect, test, vi } from 'vitest';
+import { createDecoderPool, TDecoderPriority } from '../decoder-pool';
+
+function createHolder(priority: TDecoderPriority = 'render') {
+  const holder = { priority, suspendCnt: 0, suspend: () => {} };
+  holder.suspend = () => {
+    holder.suspendCnt += 1;
+  };
+  return holder;
+}
+
+test('suspend least recently used idle decoder when limit reached', async () => {
+  const pool = createDecoderPool({ maxActive: 2 });
+  const [h1, h2, h3] = [createHolder(), createHolder(), createHolder()];
+  await pool.acquire(h1);
+  await pool.acquire(h2);
+  pool.release(h2);
+  pool.release(h1);
+  expect(pool.getStats()).toEqual({ active: 2, waiting: 0 });
+
+  await pool.acquire(h3);
+  // h2 最久未使用
+  expect(h2.suspendCnt).toBe(1);
+  expect(h1.suspendCnt).toBe(0);
+  expect(pool.getStats().active).toBe(2);
+  pool.release(h3);
+});
+
+test('prefer suspending background decoders', async () => {
+  const pool = createDecoderPool({ maxActive: 2 });
+  const bg = createHolder('background');
+  const render = createHolder();
+  await pool.acquire(bg);
+  pool.release(bg);
+  await pool.acquire(render);
+  pool.release(render);
+
+  await pool.acquire(createHolder());
+  expect(bg.suspendCnt).toBe(1);
+  expect(render.suspendCnt).toBe(0);
+});
+
+test('background task can not suspend render decoder', async () => {
+  const pool = createDecoderPool({ maxActive: 1 });
+  const render = createHolder();
+  await pool.acquire(render);
+  pool.release(render);
+
+  const transient = { priority: 'background' as const };
+  let acquired = false;
+  pool.acquire(transient).then(() => {
+    acquired = true;
+  });
+  await Promise.resolve();
+  expect(acquired).toBe(false);
+  expect(render.suspendCnt).toBe(0);
+  expect(pool.getStats().waiting).toBe(1);
+
+  // render 解码器被销毁后获得名额
+  pool.remove(render);
+  await new Promise((resolve) => setTimeout(resolve));
+  expect(acquired).toBe(true);
+  pool.release(transient);
+  expect(pool.getStats()).toEqual({ active: 0, waiting: 0 });
+});
+
+test('wait until busy decoder released', async () => {
+  const pool = createDecoderPool({ maxActive: 1 });
+  const h1 = createHolder();
+  const h2 = createHolder();
+  await pool.acquire(h1);
+
+  const order: string[] = [];
+  pool.acquire(h2).then(() => order.push('h2'));
+  await Promise.resolve();
+  expect(order).toEqual([]);
+
+  pool.release(h1);
+  await new Promise((resolve) => setTimeout(resolve));
+  expect(order).toEqual(['h2']);
+  expect(h1.suspendCnt).toBe(1);
+  pool.release(h2);
+});
+
+test('suspend idle decoder after idleTimeout', async () => {
+  vi.useFakeTimers();
+  const pool = createDecoderPool({ idleTimeout: 1000 });
+  const h = createHolder();
+  await pool.acquire(h);
+  pool.release(h);
+  vi.advanceTimersByTime(500);
+  expect(h.suspendCnt).toBe(0);
+
+  // 再次使用会重新计时
+  await pool.acquire(h);
+  pool.release(h);
+  vi.advanceTimersByTime(500);
+  expect(h.suspendCnt).toBe(0);
+  vi.advanceTimersByTime(500);
+  expect(h.suspendCnt).toBe(1);
+  expect(pool.getStats().active).toBe(0);
+  vi.useRealTimers();
+});
+
+test('visible decoders are kept when more than maxActive clips are active', async () => {
+  const pool = createDecoderPool({ maxActive: 2 });
+  const [visible, ...others] = [
+    createHolder(),
+    createHolder(),
+    createHolder(),
+    createHolder(),
+  ];
+  pool.setPriority(visible, 'visible');
+  // 4 个素材每帧都 tick，仅 visible 需要绘制
+  for (let frame = 0; frame < 5; frame++) {
+    for (const h of [visible, ...others]) {
+      await pool.acquire(h);
+      pool.release(h);
+    }
+  }
+  expect(visible.suspendCnt).toBe(0);
+  expect(others.every((h) => h.suspendCnt > 0)).toBe(true);
+  expect(pool.getStats().active).toBe(2);
+
+  // 离开绘制时间后，可被其他素材挂起
+  pool.setPriority(visible, 'render');
+  pool.setPriority(others[0], 'visible');
+  await pool.acquire(others[0]);
+  pool.release(others[0]);
+  await pool.acquire(others[1]);
+  pool.release(others[1]);
+  expect(visible.suspendCnt).toBe(1);
+});
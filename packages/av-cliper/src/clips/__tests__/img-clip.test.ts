@@ -32,3 +32,21 @@ test('clone ImgClip', async () => {
   const { state } = await cloneClip.tick(10e6);
   expect(state).toBe('success');
 });
+
+test('crop ImgClip', async () => {
+  const clip = new ImgClip((await fetch(static_jpg)).body!, {
+    crop: { x: 100, y: 50, w: 200, h: 100 },
+  });
+  expect(await clip.ready).toEqual({
+    width: 200,
+    height: 100,
+    duration: Infinity,
+  });
+  const { video } = await clip.tick(0);
+  expect(video).toBeInstanceOf(ImageBitmap);
+  expect([(video as ImageBitmap).width, (video as ImageBitmap).height]).toEqual(
+    [200, 100],
+  );
+  video.close();
+  expect((await clip.clone()).meta.width).toBe(200);
+});
@@ -1,6 +1,8 @@
 import { expect, test } from 'vitest';
 import { MP4Clip } from '../mp4-clip';
+import { videoDecoderPool } from '../decoder-pool';
 import { file, write } from 'opfs-tools';
+import { extractFileConfig, parseMP4Moov } from '../../mp4-utils/mp4box-utils';
 
 const mp4_123 = `//${location.host}/video/123.mp4`;
 
@@ -66,6 +68,16 @@ test('thumbnails aborted', async () => {
   clip.destroy();
 });
 
+test('thumbnails release decoder when no keyframe in range', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny)).body!);
+  await clip.ready;
+  const { active } = videoDecoderPool.getStats();
+  // 0 时刻之后的关键帧间隔大于 0.1s
+  expect(await clip.thumbnails(100, { start: 0.1e6, end: 0.2e6 })).toEqual([]);
+  expect(videoDecoderPool.getStats()).toEqual({ active, waiting: 0 });
+  clip.destroy();
+});
+
 const mp4_bunny_1 = `//${location.host}/video/bunny_1.mp4`;
 
 test('clone mp4clip', async () => {
@@ -105,6 +117,30 @@ test('split track', async () => {
   expect(Math.round(trackClips[1].meta.duration / 1e6)).toBe(21);
 });
 
+test('MP4Clip tracks', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  await clip.ready;
+  expect(clip.tracks.map((t) => [t.id, t.type, t.selected])).toEqual([
+    [1, 'video', true],
+    [2, 'audio', true],
+  ]);
+  expect(clip.tracks[1]).toMatchObject({
+    language: 'eng',
+    sampleRate: 22050,
+    channelCount: 2,
+  });
+});
+
+test('select audio tracks by id', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, {
+    audio: { trackIds: [] },
+  });
+  await clip.ready;
+  expect(clip.meta.audioChanCount).toBe(0);
+  expect(clip.tracks[1].selected).toBe(false);
+  expect((await clip.splitTrack()).length).toBe(1);
+});
+
 test('splitTrack when only has video track', async () => {
   const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, { audio: false });
   await clip.ready;
@@ -153,3 +189,239 @@ test('create instance by opfs file', async () => {
     f.remove();
   }
 });
+
+test('MP4Clip playbackRate', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, {
+    playbackRate: 2,
+  });
+  await clip.ready;
+  expect(Math.round(clip.meta.duration / 1e6)).toBe(11);
+  const { video } = await clip.tick(1e6);
+  // 素材时间 1s 对应原始时间 2s
+  expect(video?.timestamp).toBe(1e6);
+  video?.close();
+
+  const [preClip, postClip] = await clip.split(5e6);
+  expect(Math.round(preClip.meta.duration / 1e6)).toBe(5);
+  expect(Math.round(postClip.meta.duration / 1e6)).toBe(6);
+  clip.destroy();
+});
+
+test('MP4Clip playbackRate curve', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, {
+    playbackRate: [
+      { start: 0, rate: 1 },
+      { start: 10e6, rate: 0.5 },
+    ],
+  });
+  const origClip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  await Promise.all([clip.ready, origClip.ready]);
+  // 0~10s 原速，剩余部分半速播放
+  expect(Math.round(clip.meta.duration)).toBe(
+    Math.round(10e6 + (origClip.meta.duration - 10e6) * 2),
+  );
+  clip.destroy();
+  origClip.destroy();
+});
+
+test('MP4Clip reverse', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, {
+    reverse: true,
+  });
+  await clip.ready;
+  expect(Math.round(clip.meta.duration / 1e6)).toBe(21);
+  const { video: vf0 } = await clip.tick(0);
+  expect(vf0?.timestamp).toBe(0);
+  vf0?.close();
+  const { video: vf1 } = await clip.tick(1e6);
+  expect(vf1?.timestamp).toBeLessThanOrEqual(1e6);
+  vf1?.close();
+
+  const [preClip, postClip] = await clip.split(10e6);
+  expect(Math.round(preClip.meta.duration / 1e6)).toBe(10);
+  expect(Math.round(postClip.meta.duration / 1e6)).toBe(11);
+  clip.destroy();
+});
+
+test('decode vp9 in mp4', async () => {
+  const clip = new MP4Clip(
+    (await fetch(`//${location.host}/video/bear-vp9.mp4`)).body!,
+  );
+  await clip.ready;
+  expect(clip.meta.width).toBe(320);
+  const { video } = await clip.tick(0);
+  expect(video).toBeInstanceOf(VideoFrame);
+  video?.close();
+  clip.destroy();
+});
+
+test('MP4Clip waveform', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  await clip.ready;
+  const data = await clip.waveform({ samplesPerPixel: 4800, end: 2e6 });
+  expect(data.length).toBe(20);
+  expect(data.channels.length).toBe(2);
+  // 有声音的片段
+  expect(data.channels[0].some((v) => v !== 0)).toBe(true);
+});
+
+test('thumbnailSprites', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny)).body!);
+  await clip.ready;
+  const { sheets, cues, vtt } = await clip.thumbnailSprites(100, {
+    columns: 2,
+    rows: 2,
+    type: 'image/webp',
+  });
+  // 9 个关键帧
+  expect(cues.length).toBe(9);
+  expect(sheets.length).toBe(3);
+  expect(sheets[0].type).toBe('image/webp');
+  expect((await createImageBitmap(sheets[0])).width).toBe(200);
+  expect(vtt.startsWith('WEBVTT')).toBe(true);
+  expect(vtt).toContain('sprite-2.webp#xywh=0,0,100,');
+  clip.destroy();
+});
+
+test('MP4Clip rotation', async () => {
+  const buf = new Uint8Array(await (await fetch(mp4_bunny_1)).arrayBuffer());
+  // 将视频轨道 tkhd（version 0）的显示矩阵改为顺时针旋转 90°
+  const tkhdOffset = new TextDecoder().decode(buf).indexOf('tkhd') - 4;
+  const view = new DataView(buf.buffer);
+  [0, 0x10000, 0, -0x10000, 0].forEach((v, idx) => {
+    view.setInt32(tkhdOffset + 48 + idx * 4, v);
+  });
+
+  const clip = new MP4Clip(new Blob([buf]).stream());
+  await clip.ready;
+  expect(clip.meta).toMatchObject({ width: 360, height: 640, rotation: 90 });
+  expect(clip.tracks[0].rotation).toBe(90);
+  const { video } = await clip.tick(0);
+  expect([video?.displayWidth, video?.displayHeight]).toEqual([360, 640]);
+  video?.close();
+  clip.destroy();
+});
+
+test('MP4Clip detectScenes', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  const cuts = await clip.detectScenes({ step: 0.5e6 });
+  for (const c of cuts) {
+    expect(c.time).toBeGreaterThan(0);
+    expect(c.score).toBeGreaterThanOrEqual(0.3);
+  }
+
+  const ctrl = new AbortController();
+  const promise = clip.detectScenes({ signal: ctrl.signal });
+  ctrl.abort();
+  await expect(promise).rejects.toThrowError('detect scenes aborted');
+  clip.destroy();
+});
+
+test('MP4Clip crop', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, {
+    crop: [
+      { time: 0, x: 0, y: 0, w: 320, h: 180 },
+      { time: 2e6, x: 320, y: 180, w: 320, h: 180 },
+    ],
+  });
+  await clip.ready;
+  expect([clip.meta.width, clip.meta.height]).toEqual([320, 180]);
+  const { video } = await clip.tick(1e6);
+  expect([video?.displayWidth, video?.displayHeight]).toEqual([320, 180]);
+  video?.close();
+  const [, postClip] = await clip.split(1e6);
+  expect(postClip.meta.width).toBe(320);
+  clip.destroy();
+});
+
+test('MP4Clip toJSON and fromJSON', async () => {
+  const f = file('/test-serialize-mp4clip.mp4');
+  try {
+    await write(f, (await fetch(mp4_bunny_1)).body!);
+    const clip = new MP4Clip(f, { audio: { volume: 0.5 } });
+    const [, postClip] = await clip.split(5e6);
+    const json = JSON.parse(JSON.stringify(postClip));
+    expect(json.filePath).toBe('/test-serialize-mp4clip.mp4');
+
+    const restored = await MP4Clip.fromJSON(json);
+    expect(restored.meta).toEqual(postClip.meta);
+    expect(restored.tracks).toEqual(postClip.tracks);
+    const { video, audio } = await restored.tick(1e6);
+    expect(video).toBeInstanceOf(VideoFrame);
+    expect(audio.length).toBe(2);
+    video?.close();
+    [clip, postClip, restored].forEach((c) => c.destroy());
+  } finally {
+    await f.remove();
+  }
+});
+
+test('MP4Clip created from stream can not be serialized', async () => {
+  const clip = new MP4Clip((await fetch(mp4_123)).body!);
+  await clip.ready;
+  expect(() => clip.toJSON()).toThrowError();
+  clip.destroy();
+});
+
+test('MP4Clip smartCut', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  await clip.ready;
+  const stream = clip.smartCut({ start: 1.5e6, end: 6.2e6 });
+  const cutClip = new MP4Clip(stream);
+  await cutClip.ready;
+  expect(Math.abs(cutClip.meta.duration - 4.7e6)).toBeLessThan(0.1e6);
+  expect([cutClip.meta.width, cutClip.meta.height]).toEqual([
+    clip.meta.width,
+    clip.meta.height,
+  ]);
+  // tkhd 为源轨道的显示尺寸，而非编码尺寸
+  const size = (c: MP4Clip) =>
+    c.tracks.filter((t) => t.type === 'video').map((t) => [t.width, t.height]);
+  expect(size(cutClip)).toEqual(size(clip));
+  const { video } = await cutClip.tick(0);
+  expect(video).toBeInstanceOf(VideoFrame);
+  video?.close();
+  [clip, cutClip].forEach((c) => c.destroy());
+});
+
+// 读取 MP4 文件中音频轨道的 AudioSpecificConfig
+async function getAudioSpecificConfig(buf: ArrayBuffer) {
+  const { file, info } = await parseMP4Moov(
+    { read: async (size, { at }) => buf.slice(at, at + size) },
+    { fragmented: true },
+  );
+  const esds = extractFileConfig(file, info).audioTrackConf?.description;
+  return esds?.esd.descs[0]?.descs[0]?.data;
+}
+
+test('MP4Clip smartCut keeps the source audio config', async () => {
+  const srcBuf = await (await fetch(mp4_bunny_1)).arrayBuffer();
+  const clip = new MP4Clip(new Blob([srcBuf]).stream());
+  await clip.ready;
+  const outBuf = await new Response(
+    clip.smartCut({ start: 1.5e6, end: 6.2e6 }),
+  ).arrayBuffer();
+  const srcASC = await getAudioSpecificConfig(srcBuf);
+  expect(srcASC).toBeInstanceOf(Uint8Array);
+  expect(await getAudioSpecificConfig(outBuf)).toEqual(srcASC);
+  clip.destroy();
+});
+
+test('MP4Clip smartCut does not support playbackRate', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!, {
+    playbackRate: 2,
+  });
+  await clip.ready;
+  expect(() => clip.smartCut()).toThrowError();
+  clip.destroy();
+});
+
+test('MP4Clip getPassThroughInfo uses the track display size', async () => {
+  const clip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  await clip.ready;
+  const info = clip.getPassThroughInfo();
+  const vTrack = clip.tracks.find((t) => t.type === 'video' && t.selected);
+  expect(info).not.toBeNull();
+  expect([info?.width, info?.height]).toEqual([vTrack?.width, vTrack?.height]);
+  clip.destroy();
+});
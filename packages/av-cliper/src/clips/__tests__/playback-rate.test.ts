@@ -0,0 +1,66 @@
+import { expect, test } from 'vitest';
+import { createTimeMapper, splitPlaybackRate } from '../playback-rate';
+
+test('createTimeMapper by fixed rate', () => {
+  const mapper = createTimeMapper(2);
+  expect(mapper.isIdentity).toBe(false);
+  expect(mapper.toSource(1e6)).toBe(2e6);
+  expect(mapper.toClip(2e6)).toBe(1e6);
+  expect(createTimeMapper().isIdentity).toBe(true);
+});
+
+test('createTimeMapper by rate curve', () => {
+  const mapper = createTimeMapper([
+    { start: 2e6, rate: 0.5 },
+    { start: 0, rate: 1 },
+  ]);
+  expect(mapper.maxRate).toBe(1);
+  expect(mapper.toSource(1e6)).toBe(1e6);
+  expect(mapper.toSource(4e6)).toBe(3e6);
+  expect(mapper.toClip(3e6)).toBe(4e6);
+  expect(mapper.rateAt(1e6)).toBe(1);
+  expect(mapper.rateAt(3e6)).toBe(0.5);
+});
+
+test('createTimeMapper invalid rate', () => {
+  expect(() => createTimeMapper(0)).toThrowError();
+  expect(() => createTimeMapper([{ start: 0, rate: -1 }])).toThrowError();
+});
+
+test('splitPlaybackRate', () => {
+  expect(splitPlaybackRate(2, 1e6)).toEqual([2, 2]);
+  expect(
+    splitPlaybackRate(
+      [
+        { start: 0, rate: 1 },
+        { start: 2e6, rate: 0.5 },
+        { start: 4e6, rate: 2 },
+      ],
+      3e6,
+    ),
+  ).toEqual([
+    [
+      { start: 0, rate: 1 },
+      { start: 2e6, rate: 0.5 },
+    ],
+    [
+      { start: 0, rate: 0.5 },
+      { start: 1e6, rate: 2 },
+    ],
+  ]);
+  expect(
+    splitPlaybackRate(
+      [
+        { start: 0, rate: 1 },
+        { start: 2e6, rate: 0.5 },
+      ],
+      1e6,
+    ),
+  ).toEqual([
+    1,
+    [
+      { start: 0, rate: 1 },
+      { start: 1e6, rate: 0.5 },
+    ],
+  ]);
+});
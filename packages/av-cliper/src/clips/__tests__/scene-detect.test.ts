@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import {
+  calcFrameFeature,
+  calcSceneScore,
+  createSceneDetector,
+} from '../scene-detect';
+
+// 生成纯色图像的 RGBA 数据
+function solidFrame(v: number, pixelCnt = 16) {
+  return calcFrameFeature(new Uint8ClampedArray(pixelCnt * 4).fill(v));
+}
+
+describe('scene detect', () => {
+  test('calcFrameFeature', () => {
+    const { luma, hist } = calcFrameFeature(
+      new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255]),
+    );
+    expect([...luma]).toEqual([255, 0]);
+    expect(hist[0]).toBe(0.5);
+    expect(hist[15]).toBe(0.5);
+  });
+
+  test('calcSceneScore', () => {
+    expect(calcSceneScore(solidFrame(100), solidFrame(100))).toBe(0);
+    expect(calcSceneScore(solidFrame(0), solidFrame(255))).toBe(1);
+    const score = calcSceneScore(solidFrame(100), solidFrame(110));
+    expect(score).toBeGreaterThan(0);
+    expect(score).toBeLessThan(0.3);
+  });
+
+  test('createSceneDetector', () => {
+    const detector = createSceneDetector({
+      threshold: 0.3,
+      minDuration: 1e6,
+      start: 0,
+    });
+    const frames: Array<[number, number]> = [
+      [0, 0],
+      [0.5e6, 255],
+      [2e6, 255],
+      [2.5e6, 0],
+      [3e6, 10],
+      [4e6, 255],
+    ];
+    const cuts = frames
+      .map(([time, v]) => detector.push(time, solidFrame(v)))
+      .filter((c) => c != null);
+    // 0.5s 的切换距起点过近，3s 的差异低于阈值
+    expect(cuts).toEqual([
+      { time: 2.5e6, score: 1 },
+      { time: 4e6, score: expect.closeTo(0.98, 1) },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect, test } from 'vitest';
+import {
+  calcDecodeDelay,
+  createAACSpecificConfig,
+  planSmartCut,
+} from '../smart-cut';
+
+// 每个 GoP 3 帧，帧间隔 1s，cts 为显示时间
+function createSamples(gopCnt: number) {
+  return Array.from({ length: gopCnt * 3 }, (_, i) => ({
+    cts: i * 1e6,
+    is_idr: i % 3 === 0,
+  }));
+}
+
+test('planSmartCut', () => {
+  const segments = planSmartCut(createSamples(4), 1e6, 9e6);
+  expect(segments.map((s) => [s.type, s.cts])).toEqual([
+    ['reencode', [1e6, 2e6]],
+    ['copy', [3e6, 4e6, 5e6]],
+    ['copy', [6e6, 7e6, 8e6]],
+  ]);
+
+  // 区间位于单个 GoP 内
+  expect(
+    planSmartCut(createSamples(2), 3.5e6, 4.5e6).map((s) => [s.type, s.cts]),
+  ).toEqual([['reencode', [4e6]]]);
+});
+
+test('planSmartCut reencode GoP contains deleted samples', () => {
+  const samples = createSamples(2).map((s, i) => ({
+    ...s,
+    deleted: i < 2,
+  }));
+  expect(planSmartCut(samples, 0, 6e6).map((s) => s.type)).toEqual([
+    'reencode',
+    'copy',
+  ]);
+});
+
+test('calcDecodeDelay', () => {
+  // 不含 B 帧，解码时间等于显示时间
+  expect(calcDecodeDelay(planSmartCut(createSamples(2), 0, 6e6))).toBe(0);
+
+  // 解码顺序 I P B B，排序后的显示时间作为解码时间，需前移 1 帧才能不晚于显示时间
+  const samples = [
+    { cts: 0, is_idr: true },
+    { cts: 3e6, is_idr: false },
+    { cts: 1e6, is_idr: false },
+    { cts: 2e6, is_idr: false },
+  ];
+  expect(calcDecodeDelay(planSmartCut(samples, 0, 4e6))).toBe(1e6);
+  // 重编码的 GoP 不包含 B 帧
+  expect(calcDecodeDelay(planSmartCut(samples, 1e6, 4e6))).toBe(0);
+});
+
+test('createAACSpecificConfig', () => {
+  // AAC-LC 44100Hz stereo
+  expect(createAACSpecificConfig(44100, 2)).toEqual(
+    new Uint8Array([0x12, 0x10]),
+  );
+  expect(() => createAACSpecificConfig(12345, 2)).toThrowError();
+});
@@ -0,0 +1,46 @@
+import { expect, test } from 'vitest';
+import { genThumbnailVTT, layoutThumbnailSprites } from '../thumbnail-sprite';
+
+test('layoutThumbnailSprites', () => {
+  const cues = layoutThumbnailSprites([0, 1e6, 2e6, 3e6, 4e6], 4.5e6, {
+    columns: 2,
+    rows: 2,
+    width: 100,
+    height: 50,
+  });
+  expect(cues.map((c) => [c.sheetIndex, c.x, c.y])).toEqual([
+    [0, 0, 0],
+    [0, 100, 0],
+    [0, 0, 50],
+    [0, 100, 50],
+    [1, 0, 0],
+  ]);
+  expect(cues.map((c) => [c.start, c.end])).toEqual([
+    [0, 1e6],
+    [1e6, 2e6],
+    [2e6, 3e6],
+    [3e6, 4e6],
+    [4e6, 4.5e6],
+  ]);
+});
+
+test('genThumbnailVTT', () => {
+  const cues = layoutThumbnailSprites([0, 61.5e6], 3723.0045e6, {
+    columns: 1,
+    rows: 1,
+    width: 160,
+    height: 90,
+  });
+  expect(genThumbnailVTT(cues, (idx) => `sprite-${idx}.jpg`)).toBe(
+    [
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:01:01.500',
+      'sprite-0.jpg#xywh=0,0,160,90',
+      '',
+      '00:01:01.500 --> 01:02:03.005',
+      'sprite-1.jpg#xywh=0,0,160,90',
+      '',
+    ].join('\n'),
+  );
+});
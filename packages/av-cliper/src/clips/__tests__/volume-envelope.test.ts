@@ -0,0 +1,103 @@
+import { expect, test } from 'vitest';
+import { createVolumeEnvelope, splitVolumeEnvelope } from '../volume-envelope';
+
+test('createVolumeEnvelope by keyframes', () => {
+  const env = createVolumeEnvelope(
+    {
+      volume: [
+        { time: 1e6, volume: 1 },
+        { time: 3e6, volume: 0 },
+        { time: 4e6, volume: 1 },
+        { time: 6e6, volume: 0.25, curve: 'exponential' },
+      ],
+    },
+    10e6,
+  );
+  expect(env.isIdentity).toBe(false);
+  expect(env.gainAt(0)).toBe(1);
+  expect(env.gainAt(2e6)).toBe(0.5);
+  expect(env.gainAt(3.5e6)).toBe(0.5);
+  expect(env.gainAt(5e6)).toBeCloseTo(0.5);
+  expect(env.gainAt(8e6)).toBe(0.25);
+  expect(createVolumeEnvelope({ volume: 1 }, 10e6).isIdentity).toBe(true);
+});
+
+test('createVolumeEnvelope with fades', () => {
+  const env = createVolumeEnvelope(
+    { volume: 0.5, fadeIn: 2e6, fadeOut: 4e6 },
+    10e6,
+  );
+  expect(env.gainAt(0)).toBe(0);
+  expect(env.gainAt(1e6)).toBe(0.25);
+  expect(env.gainAt(5e6)).toBe(0.5);
+  expect(env.gainAt(8e6)).toBe(0.25);
+  expect(env.gainAt(10e6)).toBe(0);
+});
+
+test('createVolumeEnvelope invalid volume', () => {
+  expect(() => createVolumeEnvelope({ volume: -1 }, 1e6)).toThrowError();
+});
+
+test('apply volume envelope', () => {
+  const env = createVolumeEnvelope({ fadeIn: 1e6 }, 2e6);
+  const pcm = [new Float32Array(4).fill(1), new Float32Array(4).fill(1)];
+  const rs = env.apply(pcm, 0.5e6);
+  expect(rs[0][0]).toBeCloseTo(0.5);
+  expect(rs[0][1]).toBeGreaterThan(rs[0][0]);
+  expect(rs[1]).toEqual(rs[0]);
+  // 不修改原始数据
+  expect(pcm[0][0]).toBe(1);
+  // 循环时每次循环重新应用包络
+  expect(env.apply(pcm, 2.5e6, 2e6)[0][0]).toBeCloseTo(0.5);
+});
+
+test('splitVolumeEnvelope by keyframes', () => {
+  const [pre, post] = splitVolumeEnvelope(
+    {
+      volume: [
+        { time: 0, volume: 1 },
+        { time: 4e6, volume: 0 },
+      ],
+      fadeIn: 1e6,
+      fadeOut: 1e6,
+    },
+    2e6,
+    10e6,
+  );
+  expect(pre).toEqual({
+    volume: [
+      { time: 0, volume: 1 },
+      { time: 2e6, volume: 0.5 },
+    ],
+    fadeIn: 1e6,
+    fadeOut: undefined,
+  });
+  expect(post).toEqual({
+    volume: [
+      { time: 0, volume: 0.5 },
+      { time: 2e6, volume: 0 },
+      { time: 8e6, volume: 0 },
+    ],
+    fadeIn: undefined,
+    fadeOut: 1e6,
+  });
+});
+
+test('splitVolumeEnvelope across fades', () => {
+  const opts = { volume: 0.5, fadeIn: 4e6, fadeOut: 4e6 };
+  const env = createVolumeEnvelope(opts, 6e6);
+  const [pre, post] = splitVolumeEnvelope(opts, 3e6, 6e6);
+  const preEnv = createVolumeEnvelope(pre, 3e6);
+  const postEnv = createVolumeEnvelope(post, 3e6);
+  for (const t of [0, 1e6, 2.5e6, 3e6]) {
+    expect(preEnv.gainAt(t)).toBeCloseTo(env.gainAt(t));
+  }
+  for (const t of [0, 0.5e6, 1e6, 2e6, 3e6]) {
+    expect(postEnv.gainAt(t)).toBeCloseTo(env.gainAt(t + 3e6));
+  }
+  // 固定音量且淡入淡出未跨越切分点时保持原样
+  expect(splitVolumeEnvelope({ volume: 0.5, fadeIn: 1e6 }, 3e6, 6e6)).toEqual([
+    { volume: 0.5, fadeIn: 1e6, fadeOut: undefined },
+    { volume: 0.5, fadeIn: undefined },
+  ]);
+});
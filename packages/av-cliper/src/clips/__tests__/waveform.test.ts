@@ -0,0 +1,54 @@
+import { expect, test } from 'vitest';
+import {
+  calcWaveformLength,
+  createWaveformBuilder,
+  decodeWaveform,
+  encodeWaveform,
+} from '../waveform';
+
+test('createWaveformBuilder', () => {
+  const builder = createWaveformBuilder(2, 2, 3);
+  // 分段输入，单声道复用第一声道
+  builder.push([new Float32Array([0.5, -0.5, 1])]);
+  builder.push([new Float32Array([0]), new Float32Array([0.5])]);
+  builder.push([new Float32Array([-1, 1, 1]), new Float32Array([0, 0, 0])]);
+  const { length, channels } = builder.finish();
+  expect(length).toBe(3);
+  expect(channels[0]).toEqual(
+    new Float32Array([-0.5, 0.5, 0.5, 0, 1, Math.sqrt(0.5), -1, 1, 1]),
+  );
+  expect(channels[1].subarray(3, 6)).toEqual(
+    new Float32Array([0.5, 1, Math.sqrt(0.625)]),
+  );
+});
+
+test('createWaveformBuilder flush remaining frames', () => {
+  const builder = createWaveformBuilder(1, 4, 3);
+  builder.push([new Float32Array([0.2, 0.2, 0.2, 0.2, -0.4])]);
+  const { channels } = builder.finish();
+  // 剩余不足一个波形点的数据，最后一个波形点未接收到数据
+  expect(channels[0].subarray(3)).toEqual(
+    new Float32Array([-0.4, -0.4, 0.4, 0, 0, 0]),
+  );
+  expect(() => createWaveformBuilder(1, 0, 1)).toThrowError();
+});
+
+test('calcWaveformLength', () => {
+  expect(calcWaveformLength(0, 1e6, 48000, 1024)).toBe(47);
+  expect(calcWaveformLength(1e6, 0, 48000, 1024)).toBe(0);
+});
+
+test('encodeWaveform and decodeWaveform', () => {
+  const data = {
+    sampleRate: 48000,
+    samplesPerPixel: 512,
+    start: 1.5e6,
+    length: 2,
+    channels: [
+      new Float32Array([-0.5, 0.5, 0.25, 0, 0, 0]),
+      new Float32Array([-1, 1, 0.5, -0.25, 0.25, 0.125]),
+    ],
+  };
+  expect(decodeWaveform(encodeWaveform(data))).toEqual(data);
+  expect(() => decodeWaveform(new ArrayBuffer(8))).toThrowError();
+});
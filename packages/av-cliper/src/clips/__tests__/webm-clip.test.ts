@@ -0,0 +1,140 @@
+import { expect, test } from 'vitest';
+import { WebMClip } from '../webm-clip';
+
+// 3s，416x240，25fps，每秒一个关键帧，Opus 48kHz 双声道
+const webm_vp9 = `//${location.host}/video/vp9-opus.webm`;
+
+test('WebMClip meta', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  const { meta } = clip;
+  expect(meta.width).toBe(416);
+  expect(meta.height).toBe(240);
+  expect(meta.audioSampleRate).toBe(48000);
+  expect(meta.audioChanCount).toBe(2);
+  expect(Math.round(meta.duration / 1e6)).toBe(3);
+  expect(clip.tracks.map((t) => t.type)).toEqual(['video', 'audio']);
+  clip.destroy();
+});
+
+test('WebMClip tick', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  let frameCnt = 0;
+  let audioLen = 0;
+  let time = 0;
+  while (true) {
+    const { state, video, audio } = await clip.tick(time);
+    if (video != null) {
+      frameCnt += 1;
+      expect(video.codedWidth).toBe(416);
+      video.close();
+    }
+    audioLen += audio[0]?.length ?? 0;
+    if (state === 'done') break;
+    time += 40e3;
+  }
+  clip.destroy();
+
+  expect(frameCnt).toBe(75);
+  expect(Math.round(audioLen / 48000)).toBe(3);
+});
+
+test('preview WebMClip frame by time', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  // 非关键帧需从所在 GoP 的关键帧开始解码
+  expect((await clip.tick(1.5e6)).video?.timestamp).toBe(1.48e6);
+  expect((await clip.tick(0.5e6)).video?.timestamp).toBe(0.48e6);
+  clip.destroy();
+});
+
+test('WebMClip tickInterceptor', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  let called = 0;
+  clip.tickInterceptor = async (_, tickRet) => {
+    called += 1;
+    return tickRet;
+  };
+  (await clip.tick(0)).video?.close();
+  expect(called).toBe(1);
+  clip.destroy();
+});
+
+test('clone WebMClip', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  const tickInterceptor: WebMClip['tickInterceptor'] = async (_, __) => __;
+  clip.tickInterceptor = tickInterceptor;
+
+  const cloned = await clip.clone();
+  expect(cloned).toBeInstanceOf(WebMClip);
+  expect(cloned.meta).toEqual(clip.meta);
+  expect(cloned.tickInterceptor).toEqual(tickInterceptor);
+  expect((await cloned.tick(1.5e6)).video?.timestamp).toBe(1.48e6);
+
+  cloned.destroy();
+  clip.destroy();
+});
+
+test('split WebMClip by time', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  const [preClip, postClip] = await clip.split(1.52e6);
+  expect(preClip).toBeInstanceOf(WebMClip);
+  expect(postClip).toBeInstanceOf(WebMClip);
+  expect(Math.round(preClip.meta.duration / 1e5)).toBe(15);
+  expect(Math.round(postClip.meta.duration / 1e5)).toBe(15);
+  expect(preClip.meta.audioChanCount).toBe(2);
+  expect(postClip.meta.audioChanCount).toBe(2);
+  // 切分点位于 GoP 中间，后半段从切分点的帧开始，依赖的关键帧仍可解码
+  const { video } = await postClip.tick(0);
+  expect(video?.timestamp).toBe(0);
+  video?.close();
+
+  preClip.destroy();
+  postClip.destroy();
+});
+
+test('WebMClip thumbnails', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  // 默认仅使用关键帧
+  const thumbnails = await clip.thumbnails();
+  expect(thumbnails.map((it) => it.ts)).toEqual([0, 1e6, 2e6]);
+  expect((await createImageBitmap(thumbnails[0].img)).width).toBe(100);
+
+  const thumbnails150 = await clip.thumbnails(150, {
+    start: 0,
+    end: 2e6,
+    step: 0.5e6,
+  });
+  expect(thumbnails150.length).toBe(5);
+  expect((await createImageBitmap(thumbnails150[0].img)).width).toBe(150);
+  clip.destroy();
+});
+
+test('WebMClip splitTrack', async () => {
+  const clip = new WebMClip((await fetch(webm_vp9)).body!);
+  await clip.ready;
+  const trackClips = await clip.splitTrack();
+  expect(trackClips.length).toBe(2);
+  expect(trackClips.every((c) => c instanceof WebMClip)).toBe(true);
+  // video clip
+  expect(trackClips[0].meta.width).toBe(416);
+  expect(trackClips[0].meta.audioChanCount).toBe(0);
+  expect(Math.round(trackClips[0].meta.duration / 1e6)).toBe(3);
+  // audio clip
+  expect(trackClips[1].meta.width).toBe(0);
+  expect(trackClips[1].meta.audioChanCount).toBe(2);
+  expect(Math.round(trackClips[1].meta.duration / 1e6)).toBe(3);
+
+  const [pre, post] = await trackClips[0].split(1e6);
+  expect(Math.round(pre.meta.duration / 1e6)).toBe(1);
+  expect(Math.round(post.meta.duration / 1e6)).toBe(2);
+  trackClips.forEach((c) => c.destroy());
+});
+
+test('WebMClip does not accept illegal argument', () => {
+  expect(() => new WebMClip({} as ReadableStream)).toThrow('Illegal argument');
+});
@@ -5,10 +5,20 @@ import {
 } from '../av-utils';
 import { Log } from '../log';
 import { DEFAULT_AUDIO_CONF, IClip } from './iclip';
+import {
+  IVolumeEnvelopeOpts,
+  createVolumeEnvelope,
+  splitVolumeEnvelope,
+} from './volume-envelope';
+import {
+  IWaveformData,
+  IWaveformOpts,
+  calcWaveformLength,
+  createWaveformBuilder,
+} from './waveform';
 
-interface IAudioClipOpts {
+interface IAudioClipOpts extends IVolumeEnvelopeOpts {
   loop?: boolean;
-  volume?: number;
 }
 
 /**
@@ -18,6 +28,11 @@ interface IAudioClipOpts {
  * new AudioClip((await fetch('<mp3 url>')).body, {
  *   loop: true,
  * }),
+ * // 淡入淡出，循环播放时每次循环都会应用
+ * new AudioClip((await fetch('<mp3 url>')).body, {
+ *   fadeIn: 1e6,
+ *   fadeOut: 2e6,
+ * }),
  */
 export class AudioClip implements IClip {
   static ctx: AudioContext | null = null;
@@ -55,10 +70,13 @@ export class AudioClip implements IClip {
 
   #opts;
 
+  // 音量关键帧、淡入淡出在 tick 时应用
+  #volumeEnvelope = createVolumeEnvelope({}, 0);
+
   /**
    *
    * @param dataSource 音频文件流
-   * @param opts 音频配置，控制音量、是否循环
+   * @param opts 音频配置，控制音量（固定音量、音量关键帧、淡入淡出）、是否循环
    */
   constructor(
     dataSource: ReadableStream<Uint8Array> | Float32Array[],
@@ -95,13 +113,17 @@ export class AudioClip implements IClip {
 
     Log.info('Audio clip decoded complete:', performance.now() - tStart);
 
-    const volume = this.#opts.volume;
-    if (volume !== 1) {
+    const { volume, fadeIn, fadeOut } = this.#opts;
+    if (typeof volume === 'number' && volume !== 1) {
       for (const chan of pcm)
         for (let i = 0; i < chan.length; i += 1) chan[i] *= volume;
     }
 
     this.#meta.duration = (pcm[0].length / DEFAULT_AUDIO_CONF.sampleRate) * 1e6;
+    this.#volumeEnvelope = createVolumeEnvelope(
+      { volume: typeof volume === 'number' ? 1 : volume, fadeIn, fadeOut },
+      this.#meta.duration,
+    );
 
     this.#chan0Buf = pcm[0];
     // 单声道 转 立体声
@@ -152,6 +174,7 @@ export class AudioClip implements IClip {
     const frameCnt = Math.ceil(
       (deltaTime / 1e6) * DEFAULT_AUDIO_CONF.sampleRate,
     );
+    const startIdx = this.#frameOffset;
     const endIdx = this.#frameOffset + frameCnt;
     const audio = this.#opts.loop
       ? [
@@ -164,7 +187,38 @@ export class AudioClip implements IClip {
         ];
     this.#frameOffset = endIdx;
 
-    return { audio, state: 'success' };
+    if (this.#volumeEnvelope.isIdentity) return { audio, state: 'success' };
+    return {
+      audio: this.#volumeEnvelope.apply(
+        audio,
+        (startIdx / DEFAULT_AUDIO_CONF.sampleRate) * 1e6,
+        this.#opts.loop ? this.#meta.duration : Infinity,
+      ),
+      state: 'success',
+    };
+  }
+
+  /**
+   * 生成音频波形，循环播放时 end 默认为单次播放的时长
+   *
+   * @example
+   * const data = await clip.waveform({ samplesPerPixel: 1024 });
+   */
+  async waveform(opts: IWaveformOpts): Promise<IWaveformData> {
+    await this.ready;
+    const { samplesPerPixel, start = 0, end = this.#meta.duration } = opts;
+    const { sampleRate } = DEFAULT_AUDIO_CONF;
+    const builder = createWaveformBuilder(
+      2,
+      samplesPerPixel,
+      calcWaveformLength(start, end, sampleRate, samplesPerPixel),
+    );
+    const startIdx = Math.round((start / 1e6) * sampleRate);
+    const endIdx = Math.round((end / 1e6) * sampleRate);
+    builder.push(
+      this.getPCMData().map((chan) => chan.subarray(startIdx, endIdx)),
+    );
+    return { sampleRate, samplesPerPixel, start, ...builder.finish() };
   }
 
   /**
@@ -174,24 +228,38 @@ export class AudioClip implements IClip {
   async split(time: number) {
     await this.ready;
     const frameCnt = Math.ceil((time / 1e6) * DEFAULT_AUDIO_CONF.sampleRate);
+    const [preOpts, postOpts] = splitVolumeEnvelope(
+      this.#getDerivedOpts(),
+      time,
+      this.#meta.duration,
+    );
     const preSlice = new AudioClip(
       this.getPCMData().map((chan) => chan.slice(0, frameCnt)),
-      this.#opts,
+      preOpts,
     );
     const postSlice = new AudioClip(
       this.getPCMData().map((chan) => chan.slice(frameCnt)),
-      this.#opts,
+      postOpts,
     );
     return [preSlice, postSlice] as [this, this];
   }
 
   async clone() {
     await this.ready;
-    const clip = new AudioClip(this.getPCMData(), this.#opts) as this;
+    const clip = new AudioClip(
+      this.getPCMData(),
+      this.#getDerivedOpts(),
+    ) as this;
     await clip.ready;
     return clip;
   }
 
+  // 固定音量已应用到 PCM 数据，派生的实例不能重复应用
+  #getDerivedOpts(): IAudioClipOpts {
+    const { volume } = this.#opts;
+    return { ...this.#opts, volume: typeof volume === 'number' ? 1 : volume };
+  }
+
   /**
    * 销毁实例，释放资源
    */
@@ -0,0 +1,122 @@
+/**
+ * 裁剪区域，单位 源图像像素（MP4Clip 为旋转后的图像）
+ */
+export interface ICropRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * 裁剪区域关键帧，关键帧之间线性过渡
+ */
+export interface ICropKeyframe extends ICropRect {
+  /**
+   * 素材时间，单位 微秒
+   */
+  time: number;
+}
+
+/**
+ * 固定裁剪区域，或裁剪区域关键帧（用于平移、缩放等画面重构效果）；
+ * 使用关键帧时输出尺寸为第一个关键帧的尺寸，其他尺寸的区域会缩放到该尺寸
+ */
+export type TCrop = ICropRect | ICropKeyframe[];
+
+function normalizeCropKeyframes(crop: TCrop): ICropKeyframe[] {
+  const kfs = Array.isArray(crop)
+    ? [...crop].sort((a, b) => a.time - b.time)
+    : [{ ...crop, time: 0 }];
+  if (kfs.length === 0) throw Error('Crop keyframes must not be empty');
+  for (const { x, y, w, h } of kfs) {
+    if (![x, y, w, h].every(isFinite) || !(w > 0 && h > 0)) {
+      throw Error(`Invalid crop rect: ${JSON.stringify({ x, y, w, h })}`);
+    }
+  }
+  return kfs;
+}
+
+function cropRectAt(kfs: ICropKeyframe[], time: number): ICropRect {
+  const idx = kfs.findIndex((k) => k.time >= time);
+  if (idx === 0) return kfs[0];
+  if (idx === -1) return kfs[kfs.length - 1];
+  const from = kfs[idx - 1];
+  const to = kfs[idx];
+  const p = (time - from.time) / (to.time - from.time);
+  const lerp = (k: keyof ICropRect) => from[k] + (to[k] - from[k]) * p;
+  return { x: lerp('x'), y: lerp('y'), w: lerp('w'), h: lerp('h') };
+}
+
+/**
+ * 创建图像裁剪函数，输出新的图像并关闭原始图像
+ * @param crop 裁剪区域，为空则原样返回
+ */
+export function createFrameCropper(crop?: TCrop) {
+  const kfs = crop == null ? null : normalizeCropKeyframes(crop);
+  const width = Math.round(kfs?.[0].w ?? 0);
+  const height = Math.round(kfs?.[0].h ?? 0);
+
+  let cvs: OffscreenCanvas | null = null;
+  function draw(img: VideoFrame | ImageBitmap, time: number) {
+    const { x, y, w, h } = cropRectAt(kfs!, time);
+    cvs ??= new OffscreenCanvas(width, height);
+    const ctx = cvs.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(img, x, y, w, h, 0, 0, width, height);
+    return cvs;
+  }
+
+  function cropFrame(vf: VideoFrame, time: number): VideoFrame;
+  function cropFrame(img: ImageBitmap, time: number): ImageBitmap;
+  function cropFrame(
+    img: VideoFrame | ImageBitmap,
+    time: number,
+  ): VideoFrame | ImageBitmap;
+  function cropFrame(img: VideoFrame | ImageBitmap, time: number) {
+    if (kfs == null) return img;
+    const canvas = draw(img, time);
+    const rs =
+      img instanceof VideoFrame
+        ? new VideoFrame(canvas, {
+            timestamp: img.timestamp,
+            duration: img.duration ?? undefined,
+          })
+        : canvas.transferToImageBitmap();
+    img.close();
+    return rs;
+  }
+
+  return {
+    /**
+     * 裁剪后的尺寸，未裁剪时返回源尺寸
+     */
+    getSize(srcWidth: number, srcHeight: number) {
+      return kfs == null
+        ? { width: srcWidth, height: srcHeight }
+        : { width, height };
+    },
+    cropFrame,
+  };
+}
+
+/**
+ * 在素材时间 time 处切分裁剪区域关键帧，后半段的时间从 0 开始
+ */
+export function splitCrop(
+  crop: TCrop | undefined,
+  time: number,
+): [TCrop | undefined, TCrop | undefined] {
+  if (crop == null || !Array.isArray(crop)) return [crop, crop];
+  const kfs = normalizeCropKeyframes(crop);
+  const boundary = { ...cropRectAt(kfs, time), time };
+  return [
+    [...kfs.filter((k) => k.time < time), boundary],
+    [
+      { ...boundary, time: 0 },
+      ...kfs
+        .filter((k) => k.time > time)
+        .map((k) => ({ ...k, time: k.time - time })),
+    ],
+  ];
+}
@@ -0,0 +1,182 @@
+/**
+ * 解码器优先级，'visible' 为当前时刻需要绘制的素材（AVCanvas 中可见、Combinator 正在合成）的 tick 解码器，
+ * 'render' 为其他素材的 tick 解码器，'background' 为生成缩略图、检测镜头切换等后台任务
+ */
+export type TDecoderPriority = 'visible' | 'render' | 'background';
+
+const PRIORITY_LEVEL: Record<TDecoderPriority, number> = {
+  background: 0,
+  render: 1,
+  visible: 2,
+};
+
+/**
+ * 解码器持有者；提供 suspend 表示长期持有，空闲时可被挂起（关闭解码器，下次使用时从关键帧重新创建），
+ * 否则为临时持有，release 后即释放名额
+ */
+export interface IDecoderPoolHolder {
+  priority: TDecoderPriority;
+  suspend?: () => void;
+}
+
+export interface IDecoderPoolOpts {
+  /**
+   * 同时存在的解码器数量上限，默认 8
+   */
+  maxActive: number;
+  /**
+   * 解码器空闲超过该时长（毫秒）后被挂起，默认 5000
+   */
+  idleTimeout: number;
+}
+
+interface HolderState {
+  active: boolean;
+  // 正在使用解码器的任务数
+  busy: number;
+  lastUsed: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * 创建解码器池，限制同时存在的解码器数量；
+ * 名额不足时挂起优先级不高于申请者、最久未使用的空闲解码器，没有可挂起的解码器则等待
+ *
+ * 同时可见的素材数量超过 maxActive 时，可见素材的解码器会相互挂起，需按时间轴调整 maxActive
+ */
+export function createDecoderPool(opts: Partial<IDecoderPoolOpts> = {}) {
+  const conf: IDecoderPoolOpts = { maxActive: 8, idleTimeout: 5000, ...opts };
+  const holders = new Map<IDecoderPoolHolder, HolderState>();
+  const waiters: Array<{ level: number; resolve: () => void }> = [];
+
+  const getActiveCount = () =>
+    [...holders.values()].filter((s) => s.active).length;
+
+  function suspend(holder: IDecoderPoolHolder, state: HolderState) {
+    if (state.idleTimer != null) clearTimeout(state.idleTimer);
+    state.idleTimer = null;
+    state.active = false;
+    holder.suspend?.();
+  }
+
+  function findVictim(level: number) {
+    let victim: [IDecoderPoolHolder, HolderState] | null = null;
+    for (const [h, s] of holders) {
+      if (!s.active || s.busy > 0 || h.suspend == null) continue;
+      if (PRIORITY_LEVEL[h.priority] > level) continue;
+      if (
+        victim == null ||
+        PRIORITY_LEVEL[h.priority] < PRIORITY_LEVEL[victim[0].priority] ||
+        (h.priority === victim[0].priority && s.lastUsed < victim[1].lastUsed)
+      ) {
+        victim = [h, s];
+      }
+    }
+    return victim;
+  }
+
+  // 唤醒优先级最高的等待者，由其重新检查名额
+  function notify() {
+    if (waiters.length === 0) return;
+    let idx = 0;
+    for (let i = 1; i < waiters.length; i++) {
+      if (waiters[i].level > waiters[idx].level) idx = i;
+    }
+    waiters.splice(idx, 1)[0].resolve();
+  }
+
+  return {
+    /**
+     * 修改配置，对已创建的解码器同样生效
+     */
+    configure(newOpts: Partial<IDecoderPoolOpts>) {
+      Object.assign(conf, newOpts);
+      if (!(conf.maxActive >= 1)) {
+        throw Error('maxActive must be greater than 0');
+      }
+    },
+    /**
+     * 使用解码器前调用，获得名额后 resolve
+     */
+    async acquire(holder: IDecoderPoolHolder) {
+      let state = holders.get(holder);
+      if (state == null) {
+        state = { active: false, busy: 0, lastUsed: 0, idleTimer: null };
+        holders.set(holder, state);
+      }
+      state.busy += 1;
+      state.lastUsed = performance.now();
+      if (state.idleTimer != null) clearTimeout(state.idleTimer);
+      state.idleTimer = null;
+
+      const level = PRIORITY_LEVEL[holder.priority];
+      while (!state.active && getActiveCount() >= conf.maxActive) {
+        const victim = findVictim(level);
+        if (victim != null) {
+          suspend(...victim);
+          continue;
+        }
+        await new Promise<void>((resolve) => waiters.push({ level, resolve }));
+        // 等待期间已被移除
+        if (holders.get(holder) !== state) return;
+      }
+      state.active = true;
+    },
+    /**
+     * 修改持有者的优先级，降低后其空闲的解码器可被等待中的任务挂起
+     */
+    setPriority(holder: IDecoderPoolHolder, priority: TDecoderPriority) {
+      const lowered =
+        PRIORITY_LEVEL[priority] < PRIORITY_LEVEL[holder.priority];
+      holder.priority = priority;
+      if (lowered && holders.has(holder)) notify();
+    },
+    /**
+     * 使用解码器后调用
+     */
+    release(holder: IDecoderPoolHolder) {
+      const state = holders.get(holder);
+      if (state == null) return;
+      state.busy = Math.max(0, state.busy - 1);
+      state.lastUsed = performance.now();
+      if (state.busy > 0) return;
+
+      if (holder.suspend == null) {
+        holders.delete(holder);
+      } else {
+        state.idleTimer = setTimeout(() => {
+          if (state.busy === 0 && state.active) {
+            suspend(holder, state);
+            notify();
+          }
+        }, conf.idleTimeout);
+      }
+      notify();
+    },
+    /**
+     * 解码器被销毁时调用
+     */
+    remove(holder: IDecoderPoolHolder) {
+      const state = holders.get(holder);
+      if (state == null) return;
+      if (state.idleTimer != null) clearTimeout(state.idleTimer);
+      holders.delete(holder);
+      notify();
+    },
+    /**
+     * 当前存在的解码器数量，及等待名额的任务数
+     */
+    getStats() {
+      return { active: getActiveCount(), waiting: waiters.length };
+    },
+  };
+}
+
+/**
+ * 全局共享的 VideoDecoder 池，所有 MP4Clip（包括 WebMClip）的视频解码器均受其调度
+ *
+ * @example
+ * // 时间轴上素材较多时，限制同时存在的解码器数量
+ * videoDecoderPool.configure({ maxActive: 4, idleTimeout: 3000 });
+ */
+export const videoDecoderPool = createDecoderPool();
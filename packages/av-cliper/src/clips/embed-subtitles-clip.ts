@@ -29,7 +29,7 @@ declare global {
   }
 }
 
-interface SubtitleStruct {
+export interface SubtitleStruct {
   start: number;
   end: number;
   text: string;
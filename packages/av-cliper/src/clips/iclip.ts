@@ -51,6 +51,12 @@ export interface IClip {
    */
   split: (time: number) => Promise<[this, this]>;
 
+  /**
+   * 可选，{@link AVCanvas}、{@link Combinator} 在素材进入、离开当前绘制时间时调用，
+   * 素材可据此调度解码等资源，如 {@link MP4Clip} 优先为需要绘制的素材分配解码器
+   */
+  setVisible?: (visible: boolean) => void;
+
   /**
    * 销毁实例，释放资源
    */
@@ -1,9 +1,17 @@
 import { decodeImg } from '../av-utils';
 import { Log } from '../log';
 import { IClip } from './iclip';
+import { TCrop, createFrameCropper, splitCrop } from './crop';
 
 type AnimateImgType = 'avif' | 'webp' | 'png' | 'gif';
 
+interface IImgClipOpts {
+  /**
+   * 裁剪区域（图片像素），meta 的宽高为裁剪后的尺寸；传入数组表示裁剪区域关键帧
+   */
+  crop?: TCrop;
+}
+
 /**
  * 图像素材，支持动图
  *
@@ -13,6 +21,12 @@ type AnimateImgType = 'avif' | 'webp' | 'png' | 'gif';
  * new ImgClip((await fetch('<img url>')).body);
  *
  * @example
+ * // 仅显示图片左上角 200x200 的区域
+ * new ImgClip((await fetch('<img url>')).body, {
+ *   crop: { x: 0, y: 0, w: 200, h: 200 },
+ * });
+ *
+ * @example
  * new ImgClip(
  *   await renderTxt2ImgBitmap(
  *     '水印',
@@ -46,6 +60,10 @@ export class ImgClip implements IClip {
 
   #frames: VideoFrame[] = [];
 
+  #opts: IImgClipOpts;
+
+  #cropper = createFrameCropper();
+
   /**
    * 静态图片可使用流、ImageBitmap 初始化
    *
@@ -57,12 +75,16 @@ export class ImgClip implements IClip {
       | ImageBitmap
       | VideoFrame[]
       | { type: `image/${AnimateImgType}`; stream: ReadableStream },
+    opts: IImgClipOpts = {},
   ) {
+    this.#opts = { ...opts };
+    this.#cropper = createFrameCropper(opts.crop);
     const initWithImgBitmap = (imgBitmap: ImageBitmap) => {
       this.#img = imgBitmap;
-      this.#meta.width = imgBitmap.width;
-      this.#meta.height = imgBitmap.height;
-      this.#meta.duration = Infinity;
+      this.#meta = {
+        ...this.#cropper.getSize(imgBitmap.width, imgBitmap.height),
+        duration: Infinity,
+      };
       return { ...this.#meta };
     };
 
@@ -81,8 +103,7 @@ export class ImgClip implements IClip {
       const frame = this.#frames[0];
       if (frame == null) throw Error('The frame count must be greater than 0');
       this.#meta = {
-        width: frame.displayWidth,
-        height: frame.displayHeight,
+        ...this.#cropper.getSize(frame.displayWidth, frame.displayHeight),
         duration: this.#frames.reduce(
           (acc, cur) => acc + (cur.duration ?? 0),
           0,
@@ -113,8 +134,7 @@ export class ImgClip implements IClip {
 
     this.#meta = {
       duration: this.#frames.reduce((acc, cur) => acc + (cur.duration ?? 0), 0),
-      width: firstVf.codedWidth,
-      height: firstVf.codedHeight,
+      ...this.#cropper.getSize(firstVf.codedWidth, firstVf.codedHeight),
     };
     Log.info('ImgClip ready:', this.#meta);
   }
@@ -125,27 +145,34 @@ export class ImgClip implements IClip {
   }> {
     if (this.#img != null) {
       return {
-        video: await createImageBitmap(this.#img),
+        video: this.#cropper.cropFrame(
+          await createImageBitmap(this.#img),
+          time,
+        ),
         state: 'success',
       };
     }
     const tt = time % this.#meta.duration;
     return {
-      video: (
-        this.#frames.find(
-          (f) => tt >= f.timestamp && tt <= f.timestamp + (f.duration ?? 0),
-        ) ?? this.#frames[0]
-      ).clone(),
+      video: this.#cropper.cropFrame(
+        (
+          this.#frames.find(
+            (f) => tt >= f.timestamp && tt <= f.timestamp + (f.duration ?? 0),
+          ) ?? this.#frames[0]
+        ).clone(),
+        time,
+      ),
       state: 'success',
     };
   }
 
   async split(time: number) {
     await this.ready;
+    const [preCrop, postCrop] = splitCrop(this.#opts.crop, time);
     if (this.#img != null) {
       return [
-        new ImgClip(await createImageBitmap(this.#img)),
-        new ImgClip(await createImageBitmap(this.#img)),
+        new ImgClip(await createImageBitmap(this.#img), { crop: preCrop }),
+        new ImgClip(await createImageBitmap(this.#img), { crop: postCrop }),
       ] as [this, this];
     }
     let hitIdx = -1;
@@ -165,7 +192,10 @@ export class ImgClip implements IClip {
           timestamp: vf.timestamp - time,
         }),
     );
-    return [new ImgClip(preSlice), new ImgClip(postSlice)] as [this, this];
+    return [
+      new ImgClip(preSlice, { crop: preCrop }),
+      new ImgClip(postSlice, { crop: postCrop }),
+    ] as [this, this];
   }
 
   async clone() {
@@ -174,7 +204,7 @@ export class ImgClip implements IClip {
       this.#img == null
         ? this.#frames.map((vf) => vf.clone())
         : await createImageBitmap(this.#img);
-    return new ImgClip(data) as this;
+    return new ImgClip(data, this.#opts) as this;
   }
 
   destroy(): void {
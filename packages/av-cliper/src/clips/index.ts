@@ -2,6 +2,25 @@
 
 export * from './iclip';
 export * from './mp4-clip';
+export * from './webm-clip';
+export type { IPlaybackRateSegment, TPlaybackRate } from './playback-rate';
+export type {
+  IVolumeKeyframe,
+  IVolumeEnvelopeOpts,
+  TVolume,
+} from './volume-envelope';
+export { encodeWaveform, decodeWaveform } from './waveform';
+export type { IWaveformOpts, IWaveformData } from './waveform';
+export type { IDetectScenesOpts, ISceneCut } from './scene-detect';
+export type { ICropRect, ICropKeyframe, TCrop } from './crop';
+export type { ISmartCutOpts } from './smart-cut';
+export { videoDecoderPool } from './decoder-pool';
+export type { IDecoderPoolOpts, TDecoderPriority } from './decoder-pool';
+export type {
+  IThumbnailSpriteOpts,
+  IThumbnailSpriteCue,
+  IThumbnailSprites,
+} from './thumbnail-sprite';
 export * from './img-clip';
 export * from './audio-clip';
 export * from './media-stream-clip';
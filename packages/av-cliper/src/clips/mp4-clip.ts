@@ -1,14 +1,65 @@
-import { MP4Info, MP4Sample } from '@webav/mp4box.js';
+import mp4box, { MP4File, MP4Info, MP4Sample } from '@webav/mp4box.js';
 import {
   audioResample,
   autoReadStream,
+  concatPCMFragments,
+  createPCMTimeStretcher,
   extractPCM4AudioData,
+  mixinPCM,
   sleep,
 } from '../av-utils';
 import { Log } from '../log';
-import { extractFileConfig } from '../mp4-utils/mp4box-utils';
+import { IRangeFile } from '../data-loader/range-file';
+import {
+  extractFileConfig,
+  isTextTrackCodec,
+  parseMatrixRotation,
+  parseMP4Moov,
+  parseTextSample,
+  unsafeReleaseMP4BoxFile,
+} from '../mp4-utils/mp4box-utils';
 import { SampleTransform } from '../mp4-utils/sample-transform';
+import { createESDSBox, file2stream } from '../mp4-utils';
+import { parseParamSets, rewriteNALUs } from '../mp4-utils/nalu';
 import { DEFAULT_AUDIO_CONF, IClip } from './iclip';
+import { SubtitleStruct } from './embed-subtitles-clip';
+import {
+  TPlaybackRate,
+  createTimeMapper,
+  splitPlaybackRate,
+} from './playback-rate';
+import {
+  IThumbnailSpriteOpts,
+  IThumbnailSprites,
+  packThumbnailSprites,
+} from './thumbnail-sprite';
+import {
+  IDetectScenesOpts,
+  ISceneCut,
+  SCENE_ANALYSIS_WIDTH,
+  calcFrameFeature,
+  createSceneDetector,
+} from './scene-detect';
+import { TCrop, createFrameCropper, splitCrop } from './crop';
+import { TDecoderPriority, videoDecoderPool } from './decoder-pool';
+import {
+  ISmartCutOpts,
+  calcDecodeDelay,
+  createAACSpecificConfig,
+  createRotationMatrix,
+  planSmartCut,
+} from './smart-cut';
+import {
+  IVolumeEnvelopeOpts,
+  createVolumeEnvelope,
+  splitVolumeEnvelope,
+} from './volume-envelope';
+import {
+  IWaveformData,
+  IWaveformOpts,
+  calcWaveformLength,
+  createWaveformBuilder,
+} from './waveform';
 import { file, tmpfile, write } from 'opfs-tools';
 
 let CLIP_ID = 0;
@@ -18,31 +69,118 @@ function isOTFile(obj: any): obj is OPFSToolFile {
   return obj.kind === 'file' && obj.createReader instanceof Function;
 }
 
+function isRangeFile(obj: any): obj is IRangeFile {
+  return obj.kind === 'range-file' && obj.createReader instanceof Function;
+}
+
+// 本地 OPFS 文件，或按需读取的远程文件
+type MP4ClipFile = OPFSToolFile | IRangeFile;
+
 // 用于内部创建 MP4Clip 实例
 type MPClipCloneArgs = Awaited<ReturnType<typeof parseMP4Stream>> & {
-  localFile: OPFSToolFile;
+  localFile: MP4ClipFile;
 };
 
 interface MP4DecoderConf {
   video: VideoDecoderConfig | null;
   audio: AudioDecoderConfig | null;
+  // 各音轨的解码配置，key 为 track id；缺省时使用 audio
+  audioTracks?: Record<number, AudioDecoderConfig>;
+}
+
+// 各字幕轨道的字幕，key 为 track id，时间基于原始时间
+type TextTrackCues = Record<number, SubtitleStruct[]>;
+
+/**
+ * MP4Clip 包含的轨道信息
+ */
+export interface IMP4ClipTrack {
+  id: number;
+  type: 'video' | 'audio' | 'subtitle';
+  codec: string;
+  // ISO 639-2/T 语言代码，如 'eng'、'und'
+  language: string;
+  // 是否被解码（音频为参与混音，字幕为可通过 subtitles 提取）
+  selected: boolean;
+  width?: number;
+  height?: number;
+  // 视频轨道的旋转角度（顺时针），0、90、180、270
+  rotation?: number;
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+/**
+ * {@link MP4Clip.toJSON} 序列化的数据，可用 {@link MP4Clip.fromJSON} 恢复实例
+ */
+export interface IMP4ClipJSON {
+  version: typeof MP4CLIP_JSON_VERSION;
+  // OPFS 文件路径
+  filePath: string;
+  opts: MP4ClipOpts;
+  // description 使用 base64 编码
+  decoderConf: {
+    video: TEncodedDecoderConf<VideoDecoderConfig> | null;
+    audio: TEncodedDecoderConf<AudioDecoderConfig> | null;
+    audioTracks?: Record<number, TEncodedDecoderConf<AudioDecoderConfig>>;
+  };
+  tracks: Omit<IMP4ClipTrack, 'selected'>[];
+  textTrackCues: TextTrackCues;
+  // 各轨道的 sample entry 类型，如 avc1、mp4a
+  sampleTypes: Record<number, string>;
+  // 样本表，每个样本为 [track_id, cts, dts, duration, offset, size, flags]
+  videoSamples: number[][];
+  audioSamples: number[][];
 }
 
 interface MP4ClipOpts {
-  audio?: boolean | { volume: number };
+  /**
+   * 音频配置，trackIds 指定解码的音频轨道（{@link MP4Clip.tracks}），
+   * 多条轨道会混音输出，默认仅解码第一条音频轨道；
+   * volume 为固定音量或音量关键帧（基于素材时间），fadeIn、fadeOut 为淡入淡出时长
+   *
+   * @example
+   * { audio: { volume: 1, trackIds: [2, 3] } }
+   * { audio: { volume: [{ time: 0, volume: 1 }, { time: 5e6, volume: 0.2 }], fadeOut: 2e6 } }
+   */
+  audio?: boolean | (IVolumeEnvelopeOpts & { trackIds?: number[] });
+  /**
+   * 播放速率，默认 1；传入数组表示分段速率曲线，音频变速不变调
+   *
+   * @example
+   * // 2 倍速
+   * { playbackRate: 2 }
+   * // 原始时间 0~3s 原速，3s 之后 0.5 倍速
+   * { playbackRate: [{ start: 0, rate: 1 }, { start: 3e6, rate: 0.5 }] }
+   */
+  playbackRate?: TPlaybackRate;
+  /**
+   * 倒放，默认 false；开启后 playbackRate 的分段时间基于倒放后的时间轴
+   */
+  reverse?: boolean;
+  /**
+   * 裁剪区域（旋转后的图像像素），meta 的宽高为裁剪后的尺寸；传入数组表示裁剪区域关键帧（基于素材时间）
+   *
+   * @example
+   * { crop: { x: 100, y: 0, w: 720, h: 720 } }
+   */
+  crop?: TCrop;
   /**
    * 不安全，随时可能废弃
    */
   __unsafe_hardwareAcceleration__?: HardwarePreference;
 }
 
-type ExtMP4Sample = Omit<MP4Sample, 'data'> & {
+type ExtMP4Sample = Omit<MP4Sample, 'data' | 'description'> & {
   is_idr: boolean;
   deleted?: boolean;
   data: null | Uint8Array;
+  // 仅使用 sample entry 类型（如 avc1、vp09、opus）区分编码格式，
+  // 非 MP4 来源（如 WebM）、反序列化的样本没有完整的 box 数据
+  description: { type: string };
 };
 
-type LocalFileReader = Awaited<ReturnType<OPFSToolFile['createReader']>>;
+type LocalFileReader = Awaited<ReturnType<MP4ClipFile['createReader']>>;
 
 type ThumbnailOpts = {
   start: number;
@@ -74,8 +212,11 @@ export class MP4Clip implements IClip {
   #meta = {
     // 微秒
     duration: 0,
+    // 已应用旋转后的宽高
     width: 0,
     height: 0,
+    // 视频轨道的旋转角度（顺时针），tick、thumbnails 输出的图像已旋转
+    rotation: 0,
     audioSampleRate: 0,
     audioChanCount: 0,
   };
@@ -84,7 +225,7 @@ export class MP4Clip implements IClip {
     return { ...this.#meta };
   }
 
-  #localFile: OPFSToolFile;
+  #localFile: MP4ClipFile;
 
   #volume = 1;
 
@@ -92,59 +233,133 @@ export class MP4Clip implements IClip {
 
   #audioSamples: ExtMP4Sample[] = [];
 
-  #videoFrameFinder: VideoFrameFinder | null = null;
-  #audioFrameFinder: AudioFrameFinder | null = null;
+  #videoFrameFinder: VideoFrameFinder | ReverseVideoFrameFinder | null = null;
+  #audioFrameFinders: Array<AudioFrameFinder | ReverseAudioFrameFinder> = [];
 
-  #decoderConf: {
-    video: VideoDecoderConfig | null;
-    audio: AudioDecoderConfig | null;
-  } = {
+  #decoderConf: MP4DecoderConf = {
     video: null,
     audio: null,
   };
 
+  #tracks: Omit<IMP4ClipTrack, 'selected'>[] = [];
+
+  #audioTrackIds: number[] = [];
+
+  /**
+   * 当前视频轨道 tkhd 中的显示尺寸；编码尺寸可能包含对齐填充（如 1088）
+   */
+  #getDisplaySize() {
+    const conf = this.#decoderConf.video;
+    const track = this.#tracks.find(
+      (t) => t.id === this.#videoSamples[0]?.track_id,
+    );
+    return {
+      width: track?.width ?? conf?.codedWidth ?? 0,
+      height: track?.height ?? conf?.codedHeight ?? 0,
+    };
+  }
+
+  #textTrackCues: TextTrackCues = {};
+
+  /**
+   * 文件包含的视频、音频、字幕轨道，需在 ready 之后访问
+   */
+  get tracks(): IMP4ClipTrack[] {
+    return this.#tracks.map((t) => ({
+      ...t,
+      selected:
+        t.type === 'video'
+          ? this.#videoSamples[0]?.track_id === t.id
+          : t.type === 'audio'
+            ? this.#audioTrackIds.includes(t.id)
+            : this.#textTrackCues[t.id] != null,
+    }));
+  }
+
   #opts: MP4ClipOpts = { audio: true };
 
+  // 素材时间与原始时间的映射
+  #timeMapper = createTimeMapper();
+
+  // 原始素材时长，倒放时用于反转时间轴
+  #sourceDuration = 0;
+
+  #audioStretcher = createPCMTimeStretcher(DEFAULT_AUDIO_CONF.channelCount);
+  #audioStretchTs = -1;
+
+  #volumeEnvelope = createVolumeEnvelope({}, 0);
+
+  /**
+   * @param source MP4 文件流、OPFS 文件，或 {@link createRangeFile} 创建的远程文件（仅读取 moov，按需加载样本数据）
+   * @param opts MP4ClipOpts
+   */
   constructor(
-    source: OPFSToolFile | ReadableStream<Uint8Array> | MPClipCloneArgs,
+    source:
+      | OPFSToolFile
+      | IRangeFile
+      | ReadableStream<Uint8Array>
+      | MPClipCloneArgs,
     opts: MP4ClipOpts = { audio: true },
   ) {
     if (
       !(source instanceof ReadableStream) &&
       !isOTFile(source) &&
+      !isRangeFile(source) &&
       !Array.isArray(source.videoSamples)
     ) {
       throw Error('Illegal argument');
     }
 
     this.#opts = { ...opts };
-    this.#volume =
-      typeof opts.audio === 'object' && 'volume' in opts.audio
-        ? opts.audio.volume
-        : 1;
+    this.#timeMapper = createTimeMapper(opts.playbackRate);
+    this.#cropper = createFrameCropper(opts.crop);
+    const volume = typeof opts.audio === 'object' ? opts.audio.volume ?? 1 : 1;
+    // 固定音量在解码时应用，音量关键帧、淡入淡出在 tick 时应用
+    this.#volume = typeof volume === 'number' ? volume : 1;
 
     const initByStream = async (s: ReadableStream) => {
-      await write(this.#localFile, s);
-      return await this.#localFile.stream();
+      // 流数据写入下方创建的 tmpfile
+      const localFile = this.#localFile as OPFSToolFile;
+      await write(localFile, s);
+      return await localFile.stream();
     };
 
-    this.#localFile = isOTFile(source)
-      ? source
-      : 'localFile' in source
-        ? source.localFile // from clone
-        : tmpfile();
+    this.#localFile =
+      isOTFile(source) || isRangeFile(source)
+        ? source
+        : 'localFile' in source
+          ? source.localFile // from clone
+          : tmpfile();
 
     this.ready = (
       source instanceof ReadableStream
         ? initByStream(source).then((s) => parseMP4Stream(s, this.#opts))
         : isOTFile(source)
           ? source.stream().then((s) => parseMP4Stream(s, this.#opts))
-          : Promise.resolve(source)
-    ).then(async ({ videoSamples, audioSamples, decoderConf }) => {
+          : isRangeFile(source)
+            ? parseMP4RangeFile(source, this.#opts)
+            : Promise.resolve(source)
+    ).then(async (data) => {
+      const { videoSamples, audioSamples, decoderConf, tracks } = data;
       this.#videoSamples = videoSamples;
       this.#audioSamples = audioSamples;
       this.#decoderConf = decoderConf;
-      const { videoFrameFinder, audioFrameFinder } = genDecoder(
+      this.#tracks = tracks;
+      this.#textTrackCues = data.textTrackCues;
+      this.#audioTrackIds =
+        decoderConf.audio == null
+          ? []
+          : groupSamplesByTrack(audioSamples).map((g) => g[0].track_id);
+      const rotation =
+        tracks.find((t) => t.id === videoSamples[0]?.track_id)?.rotation ?? 0;
+      this.#meta = genMeta(decoderConf, videoSamples, audioSamples, rotation);
+      this.#rotateFrame = createFrameRotater(rotation);
+      if (this.#meta.width > 0) {
+        const { width, height } = this.#meta;
+        Object.assign(this.#meta, this.#cropper.getSize(width, height));
+      }
+      this.#sourceDuration = this.#meta.duration;
+      const { videoFrameFinder, audioFrameFinders } = genDecoder(
         {
           video:
             decoderConf.video == null
@@ -155,16 +370,30 @@ export class MP4Clip implements IClip {
                     this.#opts.__unsafe_hardwareAcceleration__,
                 },
           audio: decoderConf.audio,
+          audioTracks: decoderConf.audioTracks,
         },
         await this.#localFile.createReader(),
         videoSamples,
         audioSamples,
-        this.#opts.audio !== false ? this.#volume : null,
+        {
+          volume: this.#opts.audio !== false ? this.#volume : null,
+          playbackRate: this.#timeMapper.maxRate,
+          reverse: this.#opts.reverse === true,
+          duration: this.#sourceDuration,
+        },
       );
       this.#videoFrameFinder = videoFrameFinder;
-      this.#audioFrameFinder = audioFrameFinder;
-
-      this.#meta = genMeta(decoderConf, videoSamples, audioSamples);
+      if (this.#visible) videoFrameFinder?.setPriority('visible');
+      this.#audioFrameFinders = audioFrameFinders;
+
+      this.#meta.duration = this.#timeMapper.toClip(this.#meta.duration);
+      if (typeof this.#opts.audio === 'object') {
+        const { volume, fadeIn, fadeOut } = this.#opts.audio;
+        this.#volumeEnvelope = createVolumeEnvelope(
+          { volume: typeof volume === 'number' ? 1 : volume, fadeIn, fadeOut },
+          this.#meta.duration,
+        );
+      }
       this.#log.info('MP4Clip meta:', this.#meta);
       return { ...this.#meta };
     });
@@ -180,7 +409,19 @@ export class MP4Clip implements IClip {
   tickInterceptor: <T extends Awaited<ReturnType<MP4Clip['tick']>>>(
     time: number,
     tickRet: T,
-  ) => Promise<T> = async (_, tickRet) => tickRet;
+  ) => Promise<T> = defaultTickInterceptor;
+
+  #visible = false;
+  /**
+   * 标记素材在当前时刻是否需要绘制，需要绘制的素材优先获得解码器（见 {@link videoDecoderPool}）
+   *
+   * 由 AVCanvas、Combinator 在素材进入、离开当前时间时调用
+   */
+  setVisible(visible: boolean) {
+    if (this.#visible === visible) return;
+    this.#visible = visible;
+    this.#videoFrameFinder?.setPriority(visible ? 'visible' : 'render');
+  }
 
   /**
    * 获取素材指定时刻的图像帧、音频数据
@@ -198,9 +439,33 @@ export class MP4Clip implements IClip {
       });
     }
 
+    const reverse = this.#opts.reverse === true;
     const [audio, video] = await Promise.all([
-      this.#audioFrameFinder?.find(time) ?? [],
-      this.#videoFrameFinder?.find(time),
+      // 倒放时，ReverseAudioFrameFinder 接收的是反转后的时间
+      this.#tickAudio(time, this.#timeMapper.toSource(time)).then((pcm) => {
+        const len = pcm[0]?.length ?? 0;
+        if (this.#volumeEnvelope.isIdentity || len === 0) return pcm;
+        // 返回的音频数据截止于 time
+        const startTime = time - (len / DEFAULT_AUDIO_CONF.sampleRate) * 1e6;
+        return this.#volumeEnvelope.apply(pcm, startTime);
+      }),
+      this.#videoFrameFinder?.find(this.#toSourceTime(time)).then((frame) => {
+        const vf =
+          frame == null
+            ? null
+            : this.#cropper.cropFrame(this.#rotateFrame(frame), time);
+        if (vf == null || (this.#timeMapper.isIdentity && !reverse)) return vf;
+        const dur = vf.duration ?? 0;
+        // 将原始时间戳转换为素材时间，倒放时帧的结束时间即为新的起始时间
+        const rsVf = new VideoFrame(vf, {
+          timestamp: Math.round(
+            this.#toClipTime(reverse ? vf.timestamp + dur : vf.timestamp),
+          ),
+          duration: dur / this.#timeMapper.rateAt(time),
+        });
+        vf.close();
+        return rsVf;
+      }),
     ]);
 
     if (video == null) {
@@ -217,6 +482,47 @@ export class MP4Clip implements IClip {
     });
   }
 
+  // 按视频轨道的旋转角度旋转图像
+  #rotateFrame = createFrameRotater(0);
+
+  #cropper = createFrameCropper();
+
+  // 素材时间 转换为 原始时间
+  #toSourceTime = (time: number) => {
+    const t = this.#timeMapper.toSource(time);
+    return this.#opts.reverse ? this.#sourceDuration - t : t;
+  };
+
+  // 原始时间 转换为 素材时间
+  #toClipTime = (sourceTime: number) =>
+    this.#timeMapper.toClip(
+      this.#opts.reverse ? this.#sourceDuration - sourceTime : sourceTime,
+    );
+
+  #tickAudio = async (time: number, findTime: number) => {
+    const pcms = await Promise.all(
+      this.#audioFrameFinders.map((f) => f.find(findTime)),
+    );
+    const pcm = pcms.length > 1 ? mixAudioTracks(pcms) : pcms[0] ?? [];
+    if (this.#timeMapper.isIdentity) return pcm;
+
+    const lastTs = this.#audioStretchTs;
+    this.#audioStretchTs = time;
+    // 与 AudioFrameFinder 保持一致，时间回退或跳跃过大则重置
+    if (lastTs < 0 || time <= lastTs || time - lastTs > 0.1e6) {
+      this.#audioStretcher = createPCMTimeStretcher(
+        DEFAULT_AUDIO_CONF.channelCount,
+      );
+      return [];
+    }
+
+    this.#audioStretcher.push(pcm);
+    return this.#audioStretcher.pull(
+      Math.ceil((time - lastTs) * (DEFAULT_AUDIO_CONF.sampleRate / 1e6)),
+      this.#timeMapper.rateAt(time),
+    );
+  };
+
   #thumbAborter = new AbortController();
   /**
    * 生成缩略图，默认每个关键帧生成一个 100px 宽度的缩略图。
@@ -234,8 +540,7 @@ export class MP4Clip implements IClip {
     const aborterSignal = this.#thumbAborter.signal;
 
     await this.ready;
-    const abortMsg = 'generate thumbnails aborted';
-    if (aborterSignal.aborted) throw Error(abortMsg);
+    if (aborterSignal.aborted) throw Error(THUMBNAIL_ABORT_MSG);
 
     const { width, height } = this.#meta;
     const convtr = createVF2BlobConvtr(
@@ -244,71 +549,421 @@ export class MP4Clip implements IClip {
       { quality: 0.1, type: 'image/png' },
     );
 
-    return new Promise<Array<{ ts: number; img: Blob }>>(
-      async (resolve, reject) => {
-        let pngPromises: Array<{ ts: number; img: Promise<Blob> }> = [];
-        const vc = this.#decoderConf.video;
-        if (vc == null || this.#videoSamples.length === 0) {
-          resolver();
-          return;
-        }
-        aborterSignal.addEventListener('abort', () => {
-          reject(Error(abortMsg));
-        });
+    const pngPromises: Array<{ ts: number; img: Promise<Blob> }> = [];
+    await this.#eachThumbnailFrame(opts, aborterSignal, (vf, ts) => {
+      pngPromises.push({ ts, img: convtr(vf) });
+    });
+    return (
+      await Promise.all(
+        pngPromises.map(async (it) => ({ ts: it.ts, img: await it.img })),
+      )
+    ).sort((a, b) => a.ts - b.ts);
+  }
 
-        async function resolver() {
-          if (aborterSignal.aborted) return;
-          resolve(
-            await Promise.all(
-              pngPromises.map(async (it) => ({
-                ts: it.ts,
-                img: await it.img,
-              })),
-            ),
-          );
-        }
+  #spriteAborter = new AbortController();
+  /**
+   * 生成缩略图图集（雪碧图）及 WebVTT 索引，适用于长视频、播放器进度条预览；
+   * 取帧规则与 {@link MP4Clip.thumbnails} 一致
+   *
+   * @param imgWidth 缩略图宽度，默认 100
+   * @param opts 取帧参数及图集配置（网格大小、图片格式、质量）
+   *
+   * @example
+   * const { sheets, vtt } = await clip.thumbnailSprites(160, {
+   *   step: 1e6,
+   *   columns: 5,
+   *   rows: 5,
+   *   getSheetURL: (idx) => `https://cdn.example.com/sprite-${idx}.jpg`,
+   * });
+   */
+  async thumbnailSprites(
+    imgWidth = 100,
+    opts: Partial<ThumbnailOpts> & IThumbnailSpriteOpts = {},
+  ): Promise<IThumbnailSprites> {
+    this.#spriteAborter.abort();
+    this.#spriteAborter = new AbortController();
+    const aborterSignal = this.#spriteAborter.signal;
 
-        function pushPngPromise(vf: VideoFrame) {
-          pngPromises.push({
-            ts: vf.timestamp,
-            img: convtr(vf),
-          });
+    await this.ready;
+    if (aborterSignal.aborted) throw Error(THUMBNAIL_ABORT_MSG);
+
+    const { width, height } = this.#meta;
+    const resizeOpts = {
+      resizeWidth: imgWidth,
+      resizeHeight: Math.round(height * (imgWidth / width)),
+    };
+    // 缩略图尺寸较小，先转换为 ImageBitmap 并立即释放 VideoFrame
+    const bitmaps: Array<{ ts: number; img: Promise<ImageBitmap> }> = [];
+    await this.#eachThumbnailFrame(opts, aborterSignal, (vf, ts) => {
+      bitmaps.push({
+        ts,
+        img: createImageBitmap(vf, resizeOpts).finally(() => vf.close()),
+      });
+    });
+    const thumbs = (
+      await Promise.all(
+        bitmaps.map(async (it) => ({ ts: it.ts, img: await it.img })),
+      )
+    ).sort((a, b) => a.ts - b.ts);
+    return await packThumbnailSprites(
+      thumbs,
+      opts.end ?? this.#meta.duration,
+      opts,
+    );
+  }
+
+  // 按取帧参数依次输出视频帧及其素材时间，abort 后 reject
+  #eachThumbnailFrame(
+    opts: Partial<ThumbnailOpts> | undefined,
+    aborterSignal: AbortSignal,
+    onFrame: (vf: VideoFrame, ts: number) => void,
+    abortMsg = THUMBNAIL_ABORT_MSG,
+  ) {
+    return new Promise<void>(async (resolve, reject) => {
+      const vc = this.#decoderConf.video;
+      if (vc == null || this.#videoSamples.length === 0) {
+        resolve();
+        return;
+      }
+      aborterSignal.addEventListener('abort', () => {
+        reject(Error(abortMsg));
+      });
+
+      const reverse = this.#opts.reverse === true;
+      const toClipTime = this.#toClipTime;
+      const toSourceTime = this.#toSourceTime;
+      const rotateFrame = this.#rotateFrame;
+      const cropper = this.#cropper;
+      function emitFrame(vf: VideoFrame) {
+        const ts = reverse ? vf.timestamp + (vf.duration ?? 0) : vf.timestamp;
+        const clipTs = Math.round(toClipTime(ts));
+        onFrame(cropper.cropFrame(rotateFrame(vf), clipTs), clipTs);
+      }
+
+      const { start = 0, end = this.#meta.duration, step } = opts ?? {};
+      if (step) {
+        let cur = start;
+        // 创建一个新的 VideoFrameFinder 实例，避免与 tick 方法共用而导致冲突
+        const finderArgs = [
+          await this.#localFile.createReader(),
+          this.#videoSamples,
+          {
+            ...vc,
+            hardwareAcceleration: this.#opts.__unsafe_hardwareAcceleration__,
+          },
+          'background',
+        ] as const;
+        const videoFrameFinder = reverse
+          ? new ReverseVideoFrameFinder(...finderArgs)
+          : new VideoFrameFinder(...finderArgs);
+        while (cur <= end && !aborterSignal.aborted) {
+          const vf = await videoFrameFinder.find(toSourceTime(cur));
+          if (vf) emitFrame(vf);
+          cur += step;
         }
+        videoFrameFinder.destroy();
+        resolve();
+      } else {
+        thumbnailByKeyFrame(
+          this.#videoSamples,
+          this.#localFile,
+          vc,
+          aborterSignal,
+          {
+            start: Math.min(toSourceTime(start), toSourceTime(end)),
+            end: Math.max(toSourceTime(start), toSourceTime(end)),
+          },
+          emitFrame,
+        ).then(resolve, reject);
+      }
+    });
+  }
 
-        const { start = 0, end = this.#meta.duration, step } = opts ?? {};
-        if (step) {
-          let cur = start;
-          // 创建一个新的 VideoFrameFinder 实例，避免与 tick 方法共用而导致冲突
-          const videoFrameFinder = new VideoFrameFinder(
-            await this.#localFile.createReader(),
-            this.#videoSamples,
-            {
-              ...vc,
-              hardwareAcceleration: this.#opts.__unsafe_hardwareAcceleration__,
-            },
-          );
-          while (cur <= end && !aborterSignal.aborted) {
-            const vf = await videoFrameFinder.find(cur);
-            if (vf) pushPngPromise(vf);
-            cur += step;
-          }
-          videoFrameFinder.destroy();
-          resolver();
-        } else {
-          await thumbnailByKeyFrame(
-            this.#videoSamples,
-            this.#localFile,
-            vc,
-            aborterSignal,
-            { start, end },
-            (vf, done) => {
-              pushPngPromise(vf);
-              if (done) resolver();
-            },
-          );
+  /**
+   * 检测镜头切换（硬切），按 step 间隔低分辨率解码视频帧，比较相邻帧的亮度直方图及逐像素亮度差异
+   *
+   * 可用于自动生成章节缩略图、在切换点拆分素材
+   *
+   * @example
+   * const ctrl = new AbortController();
+   * const cuts = await clip.detectScenes({ threshold: 0.3, signal: ctrl.signal });
+   * // [{ time: 3200000, score: 0.62 }, ...]
+   */
+  async detectScenes(opts: IDetectScenesOpts = {}): Promise<ISceneCut[]> {
+    const { signal, threshold = 0.3, minDuration = 1e6 } = opts;
+    await this.ready;
+    if (signal?.aborted) throw Error(DETECT_SCENES_ABORT_MSG);
+
+    const { start = 0, end = this.#meta.duration, step = 0.1e6 } = opts;
+    if (!(step > 0)) throw Error('step must be greater than 0');
+    const { width, height } = this.#meta;
+    const cvs = new OffscreenCanvas(
+      SCENE_ANALYSIS_WIDTH,
+      Math.max(1, Math.round(height * (SCENE_ANALYSIS_WIDTH / width))),
+    );
+    const ctx = cvs.getContext('2d', { willReadFrequently: true })!;
+    const detector = createSceneDetector({ threshold, minDuration, start });
+
+    const cuts: ISceneCut[] = [];
+    await this.#eachThumbnailFrame(
+      { start, end, step },
+      signal ?? new AbortController().signal,
+      (vf, ts) => {
+        ctx.drawImage(vf, 0, 0, cvs.width, cvs.height);
+        vf.close();
+        const { data } = ctx.getImageData(0, 0, cvs.width, cvs.height);
+        const cut = detector.push(ts, calcFrameFeature(data));
+        if (cut != null) cuts.push(cut);
+      },
+      DETECT_SCENES_ABORT_MSG,
+    );
+    return cuts;
+  }
+
+  /**
+   * 生成音频波形，逐段解码音频并仅保留峰值，不会持有完整的 PCM 数据
+   *
+   * 结果基于素材时间，已应用音量、播放速率、倒放及多音轨混音
+   *
+   * @example
+   * // 每 1024 帧（约 21ms）一个波形点
+   * const data = await clip.waveform({ samplesPerPixel: 1024 });
+   * // 缓存
+   * const buf = encodeWaveform(data);
+   */
+  async waveform(opts: IWaveformOpts): Promise<IWaveformData> {
+    await this.ready;
+    const { samplesPerPixel, start = 0, end = this.#meta.duration } = opts;
+    const { sampleRate, channelCount } = DEFAULT_AUDIO_CONF;
+    const builder = createWaveformBuilder(
+      channelCount,
+      samplesPerPixel,
+      calcWaveformLength(start, end, sampleRate, samplesPerPixel),
+    );
+
+    if (this.#audioFrameFinders.length > 0 && end > start) {
+      // 创建仅包含音频的实例，避免与 tick 共用解码器，同时跳过视频解码
+      const audioClip = new MP4Clip(
+        {
+          localFile: this.#localFile,
+          videoSamples: [],
+          audioSamples: this.#audioSamples,
+          decoderConf: { ...this.#decoderConf, video: null },
+          tracks: this.#tracks,
+          textTrackCues: {},
+        },
+        this.#opts,
+      );
+      try {
+        await audioClip.ready;
+        // 首次 tick 用于定位，之后每次获取一个步长的音频数据
+        await audioClip.tick(start);
+        for (let time = start; time < end; ) {
+          time = Math.min(time + WAVEFORM_TICK_STEP, end);
+          const { audio, state } = await audioClip.tick(time);
+          if (state === 'done') break;
+          builder.push(audio);
         }
+      } finally {
+        // 解码出错时同样需要释放解码器
+        audioClip.destroy();
+      }
+    }
+
+    return { sampleRate, samplesPerPixel, start, ...builder.finish() };
+  }
+
+  /**
+   * 提取内嵌字幕轨道（tx3g、wvtt）的字幕，可直接用于创建 {@link EmbedSubtitlesClip}；
+   * 时间基于素材时间，已应用 split、playbackRate、reverse
+   * @param trackId 字幕轨道 id（{@link MP4Clip.tracks}），默认第一条字幕轨道
+   *
+   * @example
+   * const cues = await clip.subtitles();
+   * new EmbedSubtitlesClip(cues, { videoWidth: 1280, videoHeight: 720 });
+   */
+  async subtitles(trackId?: number): Promise<SubtitleStruct[]> {
+    await this.ready;
+    const id =
+      trackId ?? this.#tracks.find((t) => t.type === 'subtitle')?.id ?? -1;
+    const cues = this.#textTrackCues[id];
+    if (cues == null) {
+      if (trackId == null) return [];
+      throw Error(`Subtitle track not found: ${trackId}`);
+    }
+
+    const { duration } = this.#meta;
+    return cues
+      .map((c) => {
+        // 倒放时字幕的结束时间即为新的起始时间
+        const [start, end] = [
+          this.#toClipTime(c.start),
+          this.#toClipTime(c.end),
+        ].sort((a, b) => a - b);
+        return {
+          start: Math.round(Math.max(0, start)),
+          end: Math.round(Math.min(duration, end)),
+          text: c.text,
+        };
+      })
+      .filter((c) => c.end > c.start)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 帧精确的无损导出（smart cut），返回 MP4 文件流
+   *
+   * 完整包含在导出区间内的 GoP 直接复制原始数据，仅重编码入点、出点所在的 GoP（使用相同的编码格式、分辨率），
+   * 音频样本直接复制；不应用 playbackRate、reverse、crop 及音量，仅支持 H.264、H.265 视频与 AAC 音频
+   *
+   * @example
+   * const clip = new MP4Clip(file('/videos/1.mp4'));
+   * await clip.ready;
+   * const stream = clip.smartCut({ start: 3.2e6, end: 10.5e6 });
+   */
+  smartCut(opts: ISmartCutOpts = {}): ReadableStream<Uint8Array> {
+    const { video, audio } = this.#decoderConf;
+    if (video == null && audio == null) throw Error('MP4Clip is not ready');
+    const { playbackRate = 1, reverse, crop } = this.#opts;
+    if (
+      playbackRate !== 1 ||
+      reverse === true ||
+      crop != null ||
+      this.#volume !== 1 ||
+      !this.#volumeEnvelope.isIdentity
+    ) {
+      throw Error(
+        'Smart cut does not support playbackRate, reverse, crop or volume',
+      );
+    }
+    if (video != null && getNALUCodecType(video.codec) == null) {
+      throw Error(`Smart cut does not support video codec: ${video.codec}`);
+    }
+    for (const samples of groupSamplesByTrack(this.#audioSamples)) {
+      const { codec } = getAudioTrackConf(
+        this.#decoderConf,
+        samples[0].track_id,
+      )!;
+      if (!codec.startsWith('mp4a')) {
+        throw Error(`Smart cut does not support audio codec: ${codec}`);
+      }
+    }
+    const { start = 0, end = this.#meta.duration } = opts;
+    if (!(start >= 0 && end > start)) {
+      throw Error(`Invalid smart cut range: ${start} ~ ${end}`);
+    }
+
+    let aborted = false;
+    const outfile = mp4box.createFile();
+    const { stream, stop } = file2stream(outfile, 500, () => {
+      aborted = true;
+    });
+    const displaySize = this.#getDisplaySize();
+    smartCutMP4(
+      outfile,
+      {
+        localFile: this.#localFile,
+        videoSamples: this.#videoSamples,
+        audioSamples: this.#audioSamples,
+        decoderConf: this.#decoderConf,
+        ...displaySize,
+        rotation: this.#meta.rotation,
+        start,
+        end: Math.min(end, this.#meta.duration),
+        hardwareAcceleration: this.#opts.__unsafe_hardwareAcceleration__,
       },
+      () => aborted,
+    ).then(
+      () => stop(),
+      (err) => {
+        this.#log.error('smart cut error:', err);
+        stop(err);
+      },
+    );
+    return stream;
+  }
+
+  /**
+   * 获取可直接复制的视频编码数据信息，用于 {@link Combinator} 跳过未修改区间的解码、重编码（smart render）
+   *
+   * 仅支持 H.264；应用了 playbackRate、reverse、crop、tickInterceptor 或视频有旋转时返回 null；
+   * gops 仅包含以 IDR 帧开始、无 B 帧（解码顺序与显示顺序一致）且未被删除帧的 GoP
+   */
+  getPassThroughInfo(): {
+    codec: string;
+    description: Uint8Array;
+    width: number;
+    height: number;
+    /**
+     * 可复制的 GoP 的起止时间（不包含结束时间），单位 微秒
+     */
+    gops: Array<{ start: number; end: number }>;
+  } | null {
+    const conf = this.#decoderConf.video;
+    const { playbackRate = 1, reverse, crop } = this.#opts;
+    if (
+      conf?.description == null ||
+      getNALUCodecType(conf.codec) !== 'avc' ||
+      playbackRate !== 1 ||
+      reverse === true ||
+      crop != null ||
+      this.#meta.rotation !== 0 ||
+      this.tickInterceptor !== defaultTickInterceptor
+    ) {
+      return null;
+    }
+
+    const gops: ExtMP4Sample[][] = [];
+    for (const s of this.#videoSamples) {
+      if (s.is_idr || gops.length === 0) gops.push([s]);
+      else gops[gops.length - 1].push(s);
+    }
+    return {
+      codec: conf.codec,
+      description: bufferSource2U8(conf.description),
+      ...this.#getDisplaySize(),
+      gops: gops
+        .filter(
+          (gop) =>
+            gop[0].is_idr &&
+            gop.every(
+              (s, i) => !s.deleted && (i === 0 || s.cts > gop[i - 1].cts),
+            ),
+        )
+        .map((gop) => {
+          const last = gop[gop.length - 1];
+          return { start: gop[0].cts, end: last.cts + last.duration };
+        }),
+    };
+  }
+
+  /**
+   * 读取 [start, end) 区间内视频样本的编码数据，区间需与 {@link MP4Clip.getPassThroughInfo} 返回的 GoP 对齐
+   * @param start 起始时间，微秒
+   * @param end 结束时间（不包含），微秒
+   */
+  async readPassThroughSamples(
+    start: number,
+    end: number,
+  ): Promise<
+    Array<{ data: Uint8Array; cts: number; duration: number; isKey: boolean }>
+  > {
+    await this.ready;
+    const samples = this.#videoSamples.filter(
+      (s) => !s.deleted && s.cts >= start && s.cts < end,
     );
+    const reader = await this.#localFile.createReader();
+    try {
+      const data = await readSampleData(samples, reader);
+      return samples.map((s, i) => ({
+        data: data[i],
+        cts: s.cts,
+        duration: s.duration,
+        isKey: s.is_sync,
+      }));
+    } finally {
+      await reader.close();
+    }
   }
 
   async split(time: number) {
@@ -317,31 +972,71 @@ export class MP4Clip implements IClip {
     if (time <= 0 || time >= this.#meta.duration)
       throw Error('"time" out of bounds');
 
+    // 样本按原始时间切分
+    const sourceTime = this.#toSourceTime(time);
     const [preVideoSlice, postVideoSlice] = splitVideoSampleByTime(
       this.#videoSamples,
-      time,
+      sourceTime,
     );
-    const [preAudioSlice, postAudioSlice] = splitAudioSampleByTime(
+    const [preAudioSlice, postAudioSlice] = splitAudioTracksByTime(
       this.#audioSamples,
-      time,
+      sourceTime,
+    );
+    const [preRate, postRate] = splitPlaybackRate(
+      this.#opts.playbackRate ?? 1,
+      this.#timeMapper.toSource(time),
     );
+    const audioOpts = this.#opts.audio;
+    const [preAudio, postAudio] =
+      typeof audioOpts === 'object'
+        ? splitVolumeEnvelope(audioOpts, time, this.#meta.duration)
+        : [audioOpts, audioOpts];
+    const [preCrop, postCrop] = splitCrop(this.#opts.crop, time);
+    const [preCues, postCues] = splitTextTrackCuesByTime(
+      this.#textTrackCues,
+      sourceTime,
+    );
+    const sourceSlices = [
+      {
+        videoSamples: preVideoSlice ?? [],
+        audioSamples: preAudioSlice,
+        textTrackCues: preCues,
+      },
+      {
+        videoSamples: postVideoSlice ?? [],
+        audioSamples: postAudioSlice,
+        textTrackCues: postCues,
+      },
+    ];
+    // 倒放时，原始素材的后半段先播放
+    if (this.#opts.reverse) sourceSlices.reverse();
     const preClip = new MP4Clip(
       {
         localFile: this.#localFile,
-        videoSamples: preVideoSlice ?? [],
-        audioSamples: preAudioSlice ?? [],
+        ...sourceSlices[0],
         decoderConf: this.#decoderConf,
+        tracks: this.#tracks,
+      },
+      {
+        ...this.#opts,
+        playbackRate: preRate,
+        audio: preAudio,
+        crop: preCrop,
       },
-      this.#opts,
     );
     const postClip = new MP4Clip(
       {
         localFile: this.#localFile,
-        videoSamples: postVideoSlice ?? [],
-        audioSamples: postAudioSlice ?? [],
+        ...sourceSlices[1],
         decoderConf: this.#decoderConf,
+        tracks: this.#tracks,
+      },
+      {
+        ...this.#opts,
+        playbackRate: postRate,
+        audio: postAudio,
+        crop: postCrop,
       },
-      this.#opts,
     );
     await Promise.all([preClip.ready, postClip.ready]);
 
@@ -356,6 +1051,8 @@ export class MP4Clip implements IClip {
         videoSamples: [...this.#videoSamples],
         audioSamples: [...this.#audioSamples],
         decoderConf: this.#decoderConf,
+        tracks: this.#tracks,
+        textTrackCues: this.#textTrackCues,
       },
       this.#opts,
     );
@@ -365,7 +1062,142 @@ export class MP4Clip implements IClip {
   }
 
   /**
-   * 拆分 MP4Clip 为仅包含视频轨道和音频轨道的 MP4Clip
+   * 序列化素材状态（文件路径、样本表、解码配置、配置项），用于持久化剪辑工程；
+   * 仅支持使用 OPFS 文件创建的实例（包括其 split、clone 的实例），样本数据不会被序列化
+   *
+   * @example
+   * const clip = new MP4Clip(file('/videos/1.mp4'));
+   * const [, postClip] = await clip.split(10e6);
+   * localStorage.setItem('clip', JSON.stringify(postClip));
+   * // 页面刷新后，无需重新解析文件
+   * const restored = await MP4Clip.fromJSON(JSON.parse(localStorage.getItem('clip')));
+   */
+  toJSON(): IMP4ClipJSON {
+    if (this.#decoderConf.video == null && this.#decoderConf.audio == null) {
+      throw Error('MP4Clip is not ready');
+    }
+    const localFile = this.#localFile;
+    // 临时文件会被 opfs-tools 自动清理，页面刷新后无法恢复
+    if (!isOTFile(localFile) || localFile.path.startsWith(OPFS_TMP_DIR)) {
+      throw Error('Only MP4Clip created from an OPFS file can be serialized');
+    }
+
+    const sampleTypes: Record<number, string> = {};
+    const encodeSamples = (samples: ExtMP4Sample[]) =>
+      samples.map((smp) => {
+        sampleTypes[smp.track_id] = smp.description.type;
+        return [
+          smp.track_id,
+          smp.cts,
+          smp.dts,
+          smp.duration,
+          smp.offset,
+          smp.size,
+          (smp.is_sync ? SAMPLE_FLAG_SYNC : 0) |
+            (smp.is_idr ? SAMPLE_FLAG_IDR : 0) |
+            (smp.deleted ? SAMPLE_FLAG_DELETED : 0),
+        ];
+      });
+    const { video, audio, audioTracks } = this.#decoderConf;
+    return {
+      version: MP4CLIP_JSON_VERSION,
+      filePath: localFile.path,
+      opts: this.#opts,
+      decoderConf: {
+        video: video == null ? null : encodeDecoderConf(video),
+        audio: audio == null ? null : encodeDecoderConf(audio),
+        ...(audioTracks == null
+          ? {}
+          : {
+              audioTracks: Object.fromEntries(
+                Object.entries(audioTracks).map(([id, conf]) => [
+                  id,
+                  encodeDecoderConf(conf),
+                ]),
+              ),
+            }),
+      },
+      tracks: this.#tracks,
+      textTrackCues: this.#textTrackCues,
+      sampleTypes,
+      videoSamples: encodeSamples(this.#videoSamples),
+      audioSamples: encodeSamples(this.#audioSamples),
+    };
+  }
+
+  /**
+   * 从 {@link MP4Clip.toJSON} 序列化的数据恢复实例，直接读取 OPFS 文件，无需重新解析
+   */
+  static async fromJSON(json: IMP4ClipJSON): Promise<MP4Clip> {
+    if (json.version !== MP4CLIP_JSON_VERSION) {
+      throw Error(`Unsupported MP4Clip JSON version: ${json.version}`);
+    }
+    const localFile = file(json.filePath);
+    if (!(await localFile.exists())) {
+      throw Error(`MP4Clip file not found: ${json.filePath}`);
+    }
+
+    const decodeSamples = (samples: number[][]) =>
+      samples.map(
+        ([
+          track_id,
+          cts,
+          dts,
+          duration,
+          offset,
+          size,
+          flags,
+        ]): ExtMP4Sample => ({
+          track_id,
+          description: { type: json.sampleTypes[track_id] },
+          is_rap: (flags & SAMPLE_FLAG_SYNC) !== 0,
+          is_sync: (flags & SAMPLE_FLAG_SYNC) !== 0,
+          is_idr: (flags & SAMPLE_FLAG_IDR) !== 0,
+          ...((flags & SAMPLE_FLAG_DELETED) !== 0 ? { deleted: true } : {}),
+          timescale: 1e6,
+          cts,
+          dts,
+          duration,
+          offset,
+          size,
+          // 样本数据在解码时按需读取
+          data: null,
+        }),
+      );
+    const { video, audio, audioTracks } = json.decoderConf;
+    const clip = new MP4Clip(
+      {
+        localFile,
+        videoSamples: decodeSamples(json.videoSamples),
+        audioSamples: decodeSamples(json.audioSamples),
+        decoderConf: {
+          video:
+            video == null ? null : decodeDecoderConf<VideoDecoderConfig>(video),
+          audio:
+            audio == null ? null : decodeDecoderConf<AudioDecoderConfig>(audio),
+          ...(audioTracks == null
+            ? {}
+            : {
+                audioTracks: Object.fromEntries(
+                  Object.entries(audioTracks).map(([id, conf]) => [
+                    id,
+                    decodeDecoderConf<AudioDecoderConfig>(conf),
+                  ]),
+                ),
+              }),
+        },
+        tracks: json.tracks,
+        textTrackCues: json.textTrackCues,
+      },
+      json.opts,
+    );
+    await clip.ready;
+    return clip;
+  }
+
+  /**
+   * 拆分 MP4Clip 为仅包含视频轨道和音频轨道的 MP4Clip，
+   * 选中了多条音频轨道时，每条音频轨道拆分为一个 MP4Clip
    * @returns Mp4CLip[]
    */
   async splitTrack() {
@@ -381,6 +1213,8 @@ export class MP4Clip implements IClip {
             video: this.#decoderConf.video,
             audio: null,
           },
+          tracks: this.#tracks,
+          textTrackCues: this.#textTrackCues,
         },
         this.#opts,
       );
@@ -388,16 +1222,22 @@ export class MP4Clip implements IClip {
       videoClip.tickInterceptor = this.tickInterceptor;
       clips.push(videoClip);
     }
-    if (this.#audioSamples.length > 0) {
+    for (const samples of groupSamplesByTrack(this.#audioSamples)) {
+      const audioConf = getAudioTrackConf(
+        this.#decoderConf,
+        samples[0].track_id,
+      );
       const audioClip = new MP4Clip(
         {
           localFile: this.#localFile,
           videoSamples: [],
-          audioSamples: [...this.#audioSamples],
+          audioSamples: samples,
           decoderConf: {
-            audio: this.#decoderConf.audio,
+            audio: audioConf,
             video: null,
           },
+          tracks: this.#tracks,
+          textTrackCues: this.#textTrackCues,
         },
         this.#opts,
       );
@@ -415,25 +1255,75 @@ export class MP4Clip implements IClip {
     this.#destroyed = true;
 
     this.#videoFrameFinder?.destroy();
-    this.#audioFrameFinder?.destroy();
+    this.#audioFrameFinders.forEach((f) => f.destroy());
   }
 }
 
-function genMeta(
-  decoderConf: MP4DecoderConf,
-  videoSamples: ExtMP4Sample[],
-  audioSamples: ExtMP4Sample[],
-) {
-  const meta = {
+const MP4CLIP_JSON_VERSION = 1;
+
+// 未设置 tickInterceptor 时不处理 tick 返回的数据，此时才能直接复制编码数据
+async function defaultTickInterceptor<T>(_: number, tickRet: T) {
+  return tickRet;
+}
+
+// opfs-tools 的临时文件目录
+const OPFS_TMP_DIR = '/.opfs-tools-temp-dir';
+
+// 序列化样本表的 flags
+const SAMPLE_FLAG_SYNC = 1;
+const SAMPLE_FLAG_IDR = 1 << 1;
+const SAMPLE_FLAG_DELETED = 1 << 2;
+
+const THUMBNAIL_ABORT_MSG = 'generate thumbnails aborted';
+
+const DETECT_SCENES_ABORT_MSG = 'detect scenes aborted';
+
+// 生成波形时 tick 的步长，需小于 AudioFrameFinder 重置的时间间隔
+const WAVEFORM_TICK_STEP = 0.05e6;
+
+// 按 track id 分组，保持各轨道首次出现的顺序
+function groupSamplesByTrack(samples: ExtMP4Sample[]) {
+  const groups = new Map<number, ExtMP4Sample[]>();
+  for (const s of samples) {
+    const g = groups.get(s.track_id);
+    if (g == null) groups.set(s.track_id, [s]);
+    else g.push(s);
+  }
+  return [...groups.values()];
+}
+
+function getAudioTrackConf(decoderConf: MP4DecoderConf, trackId: number) {
+  return decoderConf.audioTracks?.[trackId] ?? decoderConf.audio;
+}
+
+// 多条音轨叠加混音
+function mixAudioTracks(pcms: Float32Array[][]) {
+  const data = mixinPCM(pcms);
+  const len = data.length / 2;
+  if (len === 0) return [];
+  return [data.subarray(0, len), data.subarray(len)];
+}
+
+function genMeta(
+  decoderConf: MP4DecoderConf,
+  videoSamples: ExtMP4Sample[],
+  audioSamples: ExtMP4Sample[],
+  rotation: number,
+) {
+  const meta = {
     duration: 0,
     width: 0,
     height: 0,
+    rotation: 0,
     audioSampleRate: 0,
     audioChanCount: 0,
   };
   if (decoderConf.video != null && videoSamples.length > 0) {
-    meta.width = decoderConf.video.codedWidth ?? 0;
-    meta.height = decoderConf.video.codedHeight ?? 0;
+    const { codedWidth = 0, codedHeight = 0 } = decoderConf.video;
+    const swap = rotation % 180 !== 0;
+    meta.width = swap ? codedHeight : codedWidth;
+    meta.height = swap ? codedWidth : codedHeight;
+    meta.rotation = rotation;
   }
   if (decoderConf.audio != null && audioSamples.length > 0) {
     meta.audioSampleRate = DEFAULT_AUDIO_CONF.sampleRate;
@@ -450,9 +1340,9 @@ function genMeta(
       break;
     }
   }
-  if (audioSamples.length > 0) {
-    const lastSampele = audioSamples.at(-1)!;
-    aDuration = lastSampele.cts + lastSampele.duration;
+  for (const samples of groupSamplesByTrack(audioSamples)) {
+    const lastSampele = samples.at(-1)!;
+    aDuration = Math.max(aDuration, lastSampele.cts + lastSampele.duration);
   }
   meta.duration = Math.max(vDuration, aDuration);
 
@@ -464,32 +1354,98 @@ function genDecoder(
   localFileReader: LocalFileReader,
   videoSamples: ExtMP4Sample[],
   audioSamples: ExtMP4Sample[],
-  volume: number | null,
+  opts: {
+    volume: number | null;
+    playbackRate: number;
+    reverse: boolean;
+    duration: number;
+  },
 ) {
+  const { volume, playbackRate, reverse, duration } = opts;
+  const audioOpts = {
+    volume: volume ?? 1,
+    targetSampleRate: DEFAULT_AUDIO_CONF.sampleRate,
+    // 倍速播放时，相邻两次 tick 对应的原始时间间隔会被放大
+    maxDeltaTime: 0.1e6 * Math.max(playbackRate, 1),
+  };
   return {
-    audioFrameFinder:
-      volume == null || decoderConf.audio == null || audioSamples.length === 0
-        ? null
-        : new AudioFrameFinder(
-            localFileReader,
-            audioSamples,
-            decoderConf.audio,
-            {
-              volume,
-              targetSampleRate: DEFAULT_AUDIO_CONF.sampleRate,
-            },
-          ),
+    // 每条音频轨道独立解码，tick 时混音
+    audioFrameFinders:
+      volume == null || decoderConf.audio == null
+        ? []
+        : groupSamplesByTrack(audioSamples).map((samples) => {
+            const conf = getAudioTrackConf(decoderConf, samples[0].track_id)!;
+            return reverse
+              ? new ReverseAudioFrameFinder(localFileReader, samples, conf, {
+                  ...audioOpts,
+                  duration,
+                })
+              : new AudioFrameFinder(localFileReader, samples, conf, audioOpts);
+          }),
     videoFrameFinder:
       decoderConf.video == null || videoSamples.length === 0
         ? null
-        : new VideoFrameFinder(
-            localFileReader,
-            videoSamples,
-            decoderConf.video,
-          ),
+        : reverse
+          ? new ReverseVideoFrameFinder(
+              localFileReader,
+              videoSamples,
+              decoderConf.video,
+            )
+          : new VideoFrameFinder(
+              localFileReader,
+              videoSamples,
+              decoderConf.video,
+            ),
   };
 }
 
+function getTrackList(
+  file: MP4File,
+  info: MP4Info,
+): Omit<IMP4ClipTrack, 'selected'>[] {
+  return [
+    ...info.videoTracks.map((t) => ({
+      id: t.id,
+      type: 'video' as const,
+      codec: t.codec,
+      language: t.language,
+      width: t.video.width,
+      height: t.video.height,
+      rotation: parseMatrixRotation(file.getTrackById(t.id).tkhd.matrix),
+    })),
+    ...info.audioTracks.map((t) => ({
+      id: t.id,
+      type: 'audio' as const,
+      codec: t.codec,
+      language: t.language,
+      sampleRate: t.audio.sample_rate,
+      channelCount: t.audio.channel_count,
+    })),
+    ...info.tracks
+      .filter((t) => isTextTrackCodec(t.codec))
+      .map((t) => ({
+        id: t.id,
+        type: 'subtitle' as const,
+        codec: t.codec,
+        language: t.language,
+      })),
+  ];
+}
+
+// 将字幕样本转换为字幕，忽略空样本（字幕间隔）
+function textSamples2Cues(
+  samples: Array<Pick<MP4Sample, 'cts' | 'duration' | 'timescale' | 'data'>>,
+  codec: string,
+): SubtitleStruct[] {
+  return samples
+    .map((s) => ({
+      start: Math.round((s.cts / s.timescale) * 1e6),
+      end: Math.round(((s.cts + s.duration) / s.timescale) * 1e6),
+      text: parseTextSample(codec, s.data),
+    }))
+    .filter((c) => c.text !== '');
+}
+
 async function parseMP4Stream(
   source: ReadableStream<Uint8Array>,
   opts: MP4ClipOpts = {},
@@ -497,25 +1453,35 @@ async function parseMP4Stream(
   let mp4Info: MP4Info;
   const decoderConf: MP4DecoderConf = { video: null, audio: null };
   let videoSamples: ExtMP4Sample[] = [];
-  let audioSamples: ExtMP4Sample[] = [];
+  // 各音频轨道的样本，key 为 track id
+  const audioTrackSamples = new Map<number, ExtMP4Sample[]>();
+  let tracks: Omit<IMP4ClipTrack, 'selected'>[] = [];
+  const textTrackCues: TextTrackCues = {};
+  const audioTrackIds =
+    typeof opts.audio === 'object' ? opts.audio.trackIds : undefined;
 
   return new Promise<{
     videoSamples: typeof videoSamples;
-    audioSamples: typeof audioSamples;
+    audioSamples: ExtMP4Sample[];
     decoderConf: typeof decoderConf;
+    tracks: typeof tracks;
+    textTrackCues: typeof textTrackCues;
   }>(async (resolve, reject) => {
     let videoDeltaTS = -1;
-    let audioDeltaTS = -1;
-    const stopRead = autoReadStream(source.pipeThrough(new SampleTransform()), {
+    const audioDeltaTS: Record<number, number> = {};
+    const sampleStream = source.pipeThrough(
+      new SampleTransform({ audioTrackIds, text: true }),
+    );
+    const stopRead = autoReadStream(sampleStream, {
       onChunk: async ({ chunkType, data }) => {
         if (chunkType === 'ready') {
           // mp4File = data.file;
           mp4Info = data.info;
-          let { videoDecoderConf: vc, audioDecoderConf: ac } =
-            extractFileConfig(data.file, data.info);
-          decoderConf.video = vc ?? null;
-          decoderConf.audio = ac ?? null;
-          if (vc == null && ac == null) {
+          tracks = getTrackList(data.file, data.info);
+          const conf = extractMP4ClipConf(data.file, data.info, audioTrackIds);
+          Object.assign(decoderConf, conf.decoderConf);
+          for (const id of conf.audioTrackIds) audioTrackSamples.set(id, []);
+          if (decoderConf.video == null && decoderConf.audio == null) {
             stopRead();
             reject(
               Error('MP4Clip must contain at least one video or audio track'),
@@ -535,17 +1501,30 @@ async function parseMP4Stream(
           if (data.type === 'video') {
             if (videoDeltaTS === -1) videoDeltaTS = data.samples[0].dts;
             for (const s of data.samples) {
-              videoSamples.push(normalizeTimescale(s, videoDeltaTS, 'video'));
+              videoSamples.push(
+                normalizeSampleTimescale(s, videoDeltaTS, 'video'),
+              );
             }
           } else if (data.type === 'audio' && opts.audio) {
-            if (audioDeltaTS === -1) audioDeltaTS = data.samples[0].dts;
+            const samples = audioTrackSamples.get(data.id);
+            if (samples == null) return;
+            audioDeltaTS[data.id] ??= data.samples[0].dts;
             for (const s of data.samples) {
-              audioSamples.push(normalizeTimescale(s, audioDeltaTS, 'audio'));
+              samples.push(
+                normalizeSampleTimescale(s, audioDeltaTS[data.id], 'audio'),
+              );
             }
+          } else if (data.type === 'text') {
+            const codec = tracks.find((t) => t.id === data.id)?.codec ?? '';
+            textTrackCues[data.id] = (textTrackCues[data.id] ?? []).concat(
+              textSamples2Cues(data.samples, codec),
+            );
           }
         }
       },
       onDone: () => {
+        // 按选择的顺序拼接，同一轨道的样本保持连续
+        const audioSamples = [...audioTrackSamples.values()].flat();
         const lastSampele = videoSamples.at(-1) ?? audioSamples.at(-1);
         if (mp4Info == null) {
           reject(Error('MP4Clip stream is done, but not emit ready'));
@@ -554,63 +1533,192 @@ async function parseMP4Stream(
           reject(Error('MP4Clip stream not contain any sample'));
           return;
         }
-        // 修复首帧黑帧
-        const firstSample = videoSamples[0];
-        if (firstSample != null && firstSample.cts < 200e3) {
-          firstSample.duration += firstSample.cts;
-          firstSample.cts = 0;
-        }
+        fixFirstVideoSample(videoSamples);
         Log.info('mp4 stream parsed');
         resolve({
           videoSamples,
           audioSamples,
           decoderConf,
+          tracks,
+          textTrackCues,
         });
       },
     });
   });
+}
 
-  function normalizeTimescale(
-    s: MP4Sample,
-    delta = 0,
-    sampleType: 'video' | 'audio',
-  ) {
-    return {
-      ...s,
-      is_idr:
-        sampleType === 'video' &&
-        s.is_sync &&
-        isIDRFrame(s.data, s.description.type),
-      cts: ((s.cts - delta) / s.timescale) * 1e6,
-      dts: ((s.dts - delta) / s.timescale) * 1e6,
-      duration: (s.duration / s.timescale) * 1e6,
-      timescale: 1e6,
-      // 音频数据量可控，直接保存在内存中
-      data: sampleType === 'video' ? null : s.data,
-    };
+/**
+ * 仅读取 moov 解析远程文件，样本数据（包括音频）在解码时按需读取
+ */
+async function parseMP4RangeFile(rangeFile: IRangeFile, opts: MP4ClipOpts) {
+  const reader = await rangeFile.createReader();
+  const { file, info, textTrackCues } = await (async () => {
+    const { file, info } = await parseMP4Moov(reader);
+    // 字幕数据量小，解析 moov 后立即读取
+    const textTrackCues: TextTrackCues = {};
+    for (const t of info.tracks) {
+      if (!isTextTrackCodec(t.codec)) continue;
+      const samples = await Promise.all(
+        file.getTrackById(t.id).samples.map(async (s) => ({
+          ...s,
+          data: new Uint8Array(await reader.read(s.size, { at: s.offset })),
+        })),
+      );
+      textTrackCues[t.id] = textSamples2Cues(samples, t.codec);
+    }
+    return { file, info, textTrackCues };
+  })().finally(() => reader.close());
+  const { decoderConf, audioTrackIds } = extractMP4ClipConf(
+    file,
+    info,
+    typeof opts.audio === 'object' ? opts.audio.trackIds : undefined,
+  );
+  if (decoderConf.video == null && decoderConf.audio == null) {
+    throw Error('MP4Clip must contain at least one video or audio track');
+  }
+
+  const getSamples = (id: number, sampleType: 'video' | 'audio') => {
+    const samples = file.getTrackById(id).samples;
+    const delta = samples[0]?.dts ?? 0;
+    return samples.map((s) =>
+      normalizeSampleTimescale(
+        // 样本表中的 is_rap 未赋值
+        { ...s, is_rap: s.is_sync },
+        delta,
+        sampleType,
+      ),
+    );
+  };
+  const vTrack = info.videoTracks[0];
+  const videoSamples =
+    decoderConf.video == null || vTrack == null
+      ? []
+      : getSamples(vTrack.id, 'video');
+  const audioSamples =
+    opts.audio === false
+      ? []
+      : audioTrackIds.flatMap((id) => getSamples(id, 'audio'));
+  if (videoSamples.length === 0 && audioSamples.length === 0) {
+    throw Error('MP4Clip stream not contain any sample');
+  }
+  fixFirstVideoSample(videoSamples);
+  const tracks = getTrackList(file, info);
+  unsafeReleaseMP4BoxFile(file);
+  Log.info('mp4 moov parsed');
+
+  return { videoSamples, audioSamples, decoderConf, tracks, textTrackCues };
+}
+
+// 按选择的音频轨道提取解码配置，未指定时使用第一条音频轨道
+function extractMP4ClipConf(
+  file: MP4File,
+  info: MP4Info,
+  trackIds: number[] | undefined,
+) {
+  const unknownIds = trackIds?.filter(
+    (id) => !info.audioTracks.some((t) => t.id === id),
+  );
+  if (unknownIds != null && unknownIds.length > 0) {
+    Log.warn('MP4Clip audio track not found:', unknownIds);
+  }
+  const audioTrackIds = (
+    trackIds ?? info.audioTracks.slice(0, 1).map((t) => t.id)
+  ).filter((id) => !unknownIds?.includes(id));
+
+  const { videoDecoderConf: vc, audioDecoderConf: ac } = extractFileConfig(
+    file,
+    info,
+    { audioTrackId: audioTrackIds[0] },
+  );
+  const decoderConf: MP4DecoderConf = {
+    video: vc ?? null,
+    audio: audioTrackIds.length === 0 ? null : ac ?? null,
+  };
+  if (audioTrackIds.length > 1) {
+    decoderConf.audioTracks = Object.fromEntries(
+      audioTrackIds.map((id) => [
+        id,
+        extractFileConfig(file, info, { audioTrackId: id }).audioDecoderConf!,
+      ]),
+    );
+  }
+  return { decoderConf, audioTrackIds };
+}
+
+function normalizeSampleTimescale(
+  s: MP4Sample,
+  delta: number,
+  sampleType: 'video' | 'audio',
+): ExtMP4Sample {
+  return {
+    ...s,
+    // 仅解析 moov 时没有样本数据，视为关键帧均为 IDR 帧
+    is_idr:
+      sampleType === 'video' &&
+      s.is_sync &&
+      (s.data == null || isIDRFrame(s.data, s.description.type)),
+    cts: ((s.cts - delta) / s.timescale) * 1e6,
+    dts: ((s.dts - delta) / s.timescale) * 1e6,
+    duration: (s.duration / s.timescale) * 1e6,
+    timescale: 1e6,
+    // 音频数据量可控，直接保存在内存中；远程文件的音频数据按需读取
+    data: sampleType === 'video' ? null : s.data ?? null,
+  };
+}
+
+// 修复首帧黑帧
+function fixFirstVideoSample(videoSamples: ExtMP4Sample[]) {
+  const firstSample = videoSamples[0];
+  if (firstSample != null && firstSample.cts < 200e3) {
+    firstSample.duration += firstSample.cts;
+    firstSample.cts = 0;
   }
 }
 
 class VideoFrameFinder {
   #dec: VideoDecoder | null = null;
+  // 空闲时可被解码器池挂起，下次查找时从关键帧重新解码
+  #poolHolder: { priority: TDecoderPriority; suspend: () => void };
+  #destroyed = false;
   constructor(
     public localFileReader: LocalFileReader,
     public samples: ExtMP4Sample[],
     public conf: VideoDecoderConfig,
-  ) {}
+    priority: TDecoderPriority = 'render',
+  ) {
+    this.#poolHolder = { priority, suspend: this.#suspend };
+  }
+
+  setPriority(priority: TDecoderPriority) {
+    videoDecoderPool.setPriority(this.#poolHolder, priority);
+  }
 
   #ts = 0;
   #curAborter = { abort: false, st: performance.now() };
   find = async (time: number): Promise<VideoFrame | null> => {
-    if (this.#dec == null || time <= this.#ts || time - this.#ts > 3e6) {
-      this.#reset(time);
-    }
+    await videoDecoderPool.acquire(this.#poolHolder);
+    try {
+      if (this.#destroyed) return null;
+      if (this.#dec == null || time <= this.#ts || time - this.#ts > 3e6) {
+        this.#reset(time);
+      }
 
-    this.#curAborter.abort = true;
-    this.#ts = time;
+      this.#curAborter.abort = true;
+      this.#ts = time;
 
-    this.#curAborter = { abort: false, st: performance.now() };
-    return await this.#parseFrame(time, this.#dec, this.#curAborter);
+      this.#curAborter = { abort: false, st: performance.now() };
+      return await this.#parseFrame(time, this.#dec, this.#curAborter);
+    } finally {
+      videoDecoderPool.release(this.#poolHolder);
+    }
+  };
+
+  #suspend = () => {
+    if (this.#dec?.state !== 'closed') this.#dec?.close();
+    this.#dec = null;
+    this.#decoding = false;
+    this.#videoFrames.forEach((f) => f.close());
+    this.#videoFrames = [];
   };
 
   // fix VideoFrame duration is null
@@ -783,6 +1891,8 @@ class VideoFrameFinder {
   });
 
   destroy = () => {
+    this.#destroyed = true;
+    videoDecoderPool.remove(this.#poolHolder);
     if (this.#dec?.state !== 'closed') this.#dec?.close();
     this.#dec = null;
     this.#curAborter.abort = true;
@@ -792,44 +1902,492 @@ class VideoFrameFinder {
   };
 }
 
-class AudioFrameFinder {
+class AudioFrameFinder {
+  #volume = 1;
+  #sampleRate;
+  #maxDeltaTime = 0.1e6;
+  constructor(
+    public localFileReader: LocalFileReader,
+    public samples: ExtMP4Sample[],
+    public conf: AudioDecoderConfig,
+    opts: { volume: number; targetSampleRate: number; maxDeltaTime?: number },
+  ) {
+    this.#volume = opts.volume;
+    this.#sampleRate = opts.targetSampleRate;
+    this.#maxDeltaTime = opts.maxDeltaTime ?? this.#maxDeltaTime;
+  }
+
+  #dec: ReturnType<typeof createAudioChunksDecoder> | null = null;
+  #curAborter = { abort: false, st: performance.now() };
+  find = async (time: number): Promise<Float32Array[]> => {
+    // 前后获取音频数据差异不能超过 100ms（倍速时按速率放大）
+    if (
+      this.#dec == null ||
+      time <= this.#ts ||
+      time - this.#ts > this.#maxDeltaTime
+    ) {
+      this.#reset();
+      this.#ts = time;
+      for (let i = 0; i < this.samples.length; i++) {
+        if (this.samples[i].cts < time) continue;
+        this.#decCusorIdx = i;
+        break;
+      }
+      return [];
+    }
+
+    this.#curAborter.abort = true;
+    const deltaTime = time - this.#ts;
+    this.#ts = time;
+
+    this.#curAborter = { abort: false, st: performance.now() };
+    return await this.#parseFrame(deltaTime, this.#dec, this.#curAborter);
+  };
+
+  #ts = 0;
+  #decCusorIdx = 0;
+  #pcmData: {
+    frameCnt: number;
+    data: [Float32Array, Float32Array][];
+  } = {
+    frameCnt: 0,
+    data: [],
+  };
+  #parseFrame = async (
+    deltaTime: number,
+    dec: ReturnType<typeof createAudioChunksDecoder> | null = null,
+    aborter: { abort: boolean; st: number },
+  ): Promise<Float32Array[]> => {
+    if (dec == null || aborter.abort || dec.state === 'closed') return [];
+
+    const emitFrameCnt = Math.ceil(deltaTime * (this.#sampleRate / 1e6));
+    if (emitFrameCnt === 0) return [];
+
+    // 数据满足需要
+    const ramainFrameCnt = this.#pcmData.frameCnt - emitFrameCnt;
+    if (ramainFrameCnt > 0) {
+      // 剩余音频数据小于 100ms
+      if (ramainFrameCnt < DEFAULT_AUDIO_CONF.sampleRate / 10) {
+        this.#startDecode(dec);
+      }
+      return emitAudioFrames(this.#pcmData, emitFrameCnt);
+    }
+
+    if (dec.decodeQueueSize > 10 || this.#reading != null) {
+      if (performance.now() - aborter.st > 3e3) {
+        aborter.abort = true;
+        throw Error(
+          `MP4Clip.tick audio timeout, ${JSON.stringify(this.#getState())}`,
+        );
+      }
+      // 解码中，等待
+      await sleep(15);
+    } else if (this.#decCusorIdx >= this.samples.length - 1) {
+      // decode completed
+      return [];
+    } else {
+      this.#startDecode(dec);
+    }
+    return this.#parseFrame(deltaTime, dec, aborter);
+  };
+
+  // 远程文件的音频数据在解码前按需读取
+  #reading: Promise<void> | null = null;
+
+  #startDecode = (dec: ReturnType<typeof createAudioChunksDecoder>) => {
+    if (dec.decodeQueueSize > 100 || this.#reading != null) return;
+    // 启动解码任务
+    const samples: ExtMP4Sample[] = [];
+    let i = this.#decCusorIdx;
+    while (i < this.samples.length) {
+      const s = this.samples[i];
+      i += 1;
+      if (s.deleted) continue;
+      samples.push(s);
+      if (samples.length >= 10) break;
+    }
+    this.#decCusorIdx = i;
+
+    const decode = (data: Uint8Array[]) => {
+      dec.decode(
+        samples.map(
+          (s, idx) =>
+            new EncodedAudioChunk({
+              type: 'key',
+              timestamp: s.cts,
+              duration: s.duration,
+              data: data[idx],
+            }),
+        ),
+      );
+    };
+    if (samples.every((s) => s.data != null)) {
+      decode(samples.map((s) => s.data!));
+      return;
+    }
+    const reading = readSampleData(samples, this.localFileReader)
+      .then((data) => {
+        if (dec.state !== 'closed') decode(data);
+      })
+      .catch(Log.error)
+      .finally(() => {
+        if (this.#reading === reading) this.#reading = null;
+      });
+    this.#reading = reading;
+  };
+
+  #reset = () => {
+    this.#ts = 0;
+    this.#decCusorIdx = 0;
+    this.#reading = null;
+    this.#pcmData = {
+      frameCnt: 0,
+      data: [],
+    };
+    this.#dec?.close();
+    this.#dec = createAudioChunksDecoder(
+      this.conf,
+      {
+        resampleRate: DEFAULT_AUDIO_CONF.sampleRate,
+        volume: this.#volume,
+      },
+      (pcmArr) => {
+        this.#pcmData.data.push(pcmArr as [Float32Array, Float32Array]);
+        this.#pcmData.frameCnt += pcmArr[0].length;
+      },
+    );
+  };
+
+  #getState = () => ({
+    time: this.#ts,
+    decState: this.#dec?.state,
+    decQSize: this.#dec?.decodeQueueSize,
+    decCusorIdx: this.#decCusorIdx,
+    sampleLen: this.samples.length,
+    pcmLen: this.#pcmData.frameCnt,
+  });
+
+  destroy = () => {
+    this.#dec = null;
+    this.#curAborter.abort = true;
+    this.#pcmData = {
+      frameCnt: 0,
+      data: [],
+    };
+    this.localFileReader.close();
+  };
+}
+
+// 单个 GoP 解码后的帧数据超过该值时，暂存到 OPFS 以降低内存占用
+const REVERSE_GOP_MEM_LIMIT = 100e6;
+
+interface RawVideoFrame {
+  timestamp: number;
+  duration: number;
+  init: Omit<VideoFrameBufferInit, 'timestamp' | 'duration'>;
+  // 内存中的帧数据，或暂存在 OPFS 文件中的位置
+  data: ArrayBuffer | { offset: number; size: number };
+}
+
+interface DecodedGoP {
+  // 按时间倒序排列
+  frames: RawVideoFrame[];
+  localFile: OPFSToolFile | null;
+  reader: LocalFileReader | null;
+}
+
+/**
+ * 倒放时使用，每个 GoP 只解码一次，缓存解码后的帧数据，按时间倒序输出
+ */
+class ReverseVideoFrameFinder {
+  #gops: Array<{ startIdx: number; endIdx: number; start: number }> = [];
+  // 仅缓存当前及前一个（预解码） GoP
+  #cache = new Map<number, Promise<DecodedGoP>>();
+  #decodeQueue: Promise<unknown> = Promise.resolve();
+  #downgradeSoftDecode = false;
+  #destroyed = false;
+
+  constructor(
+    public localFileReader: LocalFileReader,
+    public samples: ExtMP4Sample[],
+    public conf: VideoDecoderConfig,
+    public priority: TDecoderPriority = 'render',
+  ) {
+    for (let i = 0; i < samples.length; i++) {
+      if (i === 0 || samples[i].is_idr) {
+        this.#gops.push({ startIdx: i, endIdx: samples.length, start: -1 });
+        const prev = this.#gops.at(-2);
+        if (prev != null) prev.endIdx = i;
+      }
+    }
+    for (const gop of this.#gops) {
+      const validCts = this.samples
+        .slice(gop.startIdx, gop.endIdx)
+        .filter((s) => !s.deleted)
+        .map((s) => s.cts);
+      gop.start = validCts.length === 0 ? -1 : Math.min(...validCts);
+    }
+    // 移除不包含有效帧的 GoP
+    this.#gops = this.#gops.filter((g) => g.start >= 0);
+  }
+
+  // 每个 GoP 解码时按当前优先级申请名额
+  setPriority(priority: TDecoderPriority) {
+    this.priority = priority;
+  }
+
+  /**
+   * 查找时间区间 (timestamp, timestamp + duration] 包含 time 的帧
+   */
+  find = async (time: number): Promise<VideoFrame | null> => {
+    let gopIdx = -1;
+    for (let i = this.#gops.length - 1; i >= 0; i--) {
+      if (this.#gops[i].start < time) {
+        gopIdx = i;
+        break;
+      }
+    }
+    if (gopIdx === -1 || this.#destroyed) return null;
+
+    for (const idx of [...this.#cache.keys()]) {
+      if (idx !== gopIdx && idx !== gopIdx - 1) this.#release(idx);
+    }
+    const gop = await this.#loadGoP(gopIdx);
+    // 预解码前一个 GoP，倒放时紧接着会用到
+    if (gopIdx > 0) {
+      this.#loadGoP(gopIdx - 1).catch((err) => {
+        Log.warn('ReverseVideoFrameFinder pre-decode error', err);
+      });
+    }
+    if (this.#destroyed) return null;
+
+    const raw = gop.frames.find(
+      (f) => f.timestamp < time && time <= f.timestamp + f.duration,
+    );
+    if (raw == null) return null;
+    const data =
+      raw.data instanceof ArrayBuffer
+        ? raw.data
+        : await gop.reader!.read(raw.data.size, { at: raw.data.offset });
+    return new VideoFrame(data, {
+      ...raw.init,
+      timestamp: raw.timestamp,
+      duration: raw.duration,
+    });
+  };
+
+  #loadGoP = (gopIdx: number) => {
+    const cached = this.#cache.get(gopIdx);
+    if (cached != null) return cached;
+
+    // 串行解码，避免同时创建多个解码器
+    const task = this.#decodeQueue.then(() => this.#decodeGoP(gopIdx));
+    this.#decodeQueue = task.catch(() => {});
+    task.catch(() => {
+      if (this.#cache.get(gopIdx) === task) this.#cache.delete(gopIdx);
+    });
+    this.#cache.set(gopIdx, task);
+    return task;
+  };
+
+  #decodeGoP = async (gopIdx: number): Promise<DecodedGoP> => {
+    const { startIdx, endIdx } = this.#gops[gopIdx];
+    const samples = this.samples.slice(startIdx, endIdx);
+    if (samples[0]?.is_idr !== true) Log.warn('First sample not idr frame');
+
+    const chunks = await videosamples2Chunks(samples, this.localFileReader);
+    const decoded: DecodedGoP = { frames: [], localFile: null, reader: null };
+    let writer = null as Awaited<
+      ReturnType<OPFSToolFile['createWriter']>
+    > | null;
+    let totalSize = 0;
+    let offset = 0;
+    // 帧数据超出内存上限后，解码器输出的帧直接写入临时文件，不再整体驻留内存
+    const store = async (raw: RawVideoFrame) => {
+      const buf = raw.data as ArrayBuffer;
+      totalSize += buf.byteLength;
+      if (
+        writer == null &&
+        totalSize > REVERSE_GOP_MEM_LIMIT &&
+        !this.#destroyed
+      ) {
+        decoded.localFile = tmpfile();
+        writer = await decoded.localFile.createWriter();
+      }
+      if (writer != null) {
+        await writer.write(buf, { at: offset });
+        raw.data = { offset, size: buf.byteLength };
+        offset += buf.byteLength;
+      }
+      return raw;
+    };
+
+    try {
+      decoded.frames = await decodeGoPFrames(
+        chunks,
+        {
+          ...this.conf,
+          ...(this.#downgradeSoftDecode
+            ? { hardwareAcceleration: 'prefer-software' }
+            : {}),
+        },
+        this.priority,
+        store,
+      );
+      if (writer != null) {
+        await writer.close();
+        decoded.reader = await decoded.localFile!.createReader();
+      }
+    } catch (err) {
+      await writer?.close().catch(() => {});
+      await decoded.localFile?.remove().catch(() => {});
+      if (this.#downgradeSoftDecode) throw err;
+      this.#downgradeSoftDecode = true;
+      Log.warn('Downgrade to software decode');
+      return await this.#decodeGoP(gopIdx);
+    }
+    decoded.frames.sort((a, b) => b.timestamp - a.timestamp);
+    return decoded;
+  };
+
+  #release = (gopIdx: number) => {
+    const task = this.#cache.get(gopIdx);
+    if (task == null) return;
+    this.#cache.delete(gopIdx);
+    task
+      .then(async ({ localFile, reader }) => {
+        await reader?.close();
+        await localFile?.remove();
+      })
+      .catch(() => {});
+  };
+
+  destroy = () => {
+    this.#destroyed = true;
+    for (const idx of [...this.#cache.keys()]) this.#release(idx);
+    this.localFileReader.close();
+  };
+}
+
+// 解码一个完整的 GoP，将帧数据复制到内存后立即关闭 VideoFrame，
+// 按输出顺序交由 store 保存（内存或临时文件）；
+// 解码器仅在解码期间存在，结束后即释放解码器池的名额
+async function decodeGoPFrames(
+  chunks: EncodedVideoChunk[],
+  conf: VideoDecoderConfig,
+  priority: TDecoderPriority,
+  store: (raw: RawVideoFrame) => Promise<RawVideoFrame>,
+) {
+  const poolHolder = { priority };
+  await videoDecoderPool.acquire(poolHolder);
+  const frames: RawVideoFrame[] = [];
+  let stored = Promise.resolve();
+  const dec = new VideoDecoder({
+    output: (vf) => {
+      // 被标记删除的帧
+      if (vf.timestamp === -1) {
+        vf.close();
+        return;
+      }
+      const copied = copyVideoFrame(vf, chunks[0]?.duration ?? 0).finally(() =>
+        vf.close(),
+      );
+      stored = stored.then(async () => {
+        frames.push(await store(await copied));
+      });
+    },
+    error: (err) => {
+      Log.error(`MP4Clip VideoDecoder err: ${err.message}`);
+    },
+  });
+  try {
+    dec.configure(conf);
+    for (const chunk of chunks) dec.decode(chunk);
+    await dec.flush();
+  } catch (err) {
+    // 等待已输出的帧处理完毕，避免调用方清理临时文件时仍在写入
+    await stored.catch(() => {});
+    throw err;
+  } finally {
+    if (dec.state !== 'closed') dec.close();
+    videoDecoderPool.release(poolHolder);
+  }
+  await stored;
+  return frames;
+}
+
+async function copyVideoFrame(
+  vf: VideoFrame,
+  defaultDuration: number,
+): Promise<RawVideoFrame> {
+  const timestamp = vf.timestamp;
+  const duration = vf.duration ?? defaultDuration;
+  if (vf.format == null) {
+    // 无法直接读取像素数据，通过 canvas 转换为 RGBA
+    const width = vf.displayWidth;
+    const height = vf.displayHeight;
+    const ctx = new OffscreenCanvas(width, height).getContext('2d')!;
+    ctx.drawImage(vf, 0, 0);
+    return {
+      timestamp,
+      duration,
+      init: { format: 'RGBA', codedWidth: width, codedHeight: height },
+      data: ctx.getImageData(0, 0, width, height).data.buffer,
+    };
+  }
+  const data = new ArrayBuffer(vf.allocationSize());
+  const layout = await vf.copyTo(data);
+  const { width, height } = vf.visibleRect!;
+  return {
+    timestamp,
+    duration,
+    init: {
+      format: vf.format,
+      codedWidth: width,
+      codedHeight: height,
+      displayWidth: vf.displayWidth,
+      displayHeight: vf.displayHeight,
+      layout,
+      colorSpace: vf.colorSpace.toJSON(),
+    },
+    data,
+  };
+}
+
+/**
+ * 倒放时使用，从后往前按块（约 1s）解码音频，将 PCM 反转后输出
+ */
+class ReverseAudioFrameFinder {
   #volume = 1;
   #sampleRate;
+  #maxDeltaTime = 0.1e6;
+  #duration;
   constructor(
     public localFileReader: LocalFileReader,
     public samples: ExtMP4Sample[],
     public conf: AudioDecoderConfig,
-    opts: { volume: number; targetSampleRate: number },
+    opts: {
+      volume: number;
+      targetSampleRate: number;
+      maxDeltaTime?: number;
+      // 原始素材时长，倒放时间轴的起点
+      duration: number;
+    },
   ) {
     this.#volume = opts.volume;
     this.#sampleRate = opts.targetSampleRate;
+    this.#maxDeltaTime = opts.maxDeltaTime ?? this.#maxDeltaTime;
+    this.#duration = opts.duration;
   }
 
-  #dec: ReturnType<typeof createAudioChunksDecoder> | null = null;
-  #curAborter = { abort: false, st: performance.now() };
-  find = async (time: number): Promise<Float32Array[]> => {
-    // 前后获取音频数据差异不能超过 100ms
-    if (this.#dec == null || time <= this.#ts || time - this.#ts > 0.1e6) {
-      this.#reset();
-      this.#ts = time;
-      for (let i = 0; i < this.samples.length; i++) {
-        if (this.samples[i].cts < time) continue;
-        this.#decCusorIdx = i;
-        break;
-      }
-      return [];
-    }
-
-    this.#curAborter.abort = true;
-    const deltaTime = time - this.#ts;
-    this.#ts = time;
-
-    this.#curAborter = { abort: false, st: performance.now() };
-    return await this.#parseFrame(deltaTime, this.#dec, this.#curAborter);
-  };
-
-  #ts = 0;
-  #decCusorIdx = 0;
+  #ts = -1;
+  // 标记重置，丢弃重置前发起的解码任务结果
+  #epoch = 0;
+  // 下一个待解码块的结束位置（不包含）
+  #endIdx = 0;
+  // 首个解码块需要丢弃的尾部帧数（倒放后位于头部）
+  #skipFrameCnt = 0;
+  #decoding: Promise<void> | null = null;
   #pcmData: {
     frameCnt: number;
     data: [Float32Array, Float32Array][];
@@ -837,104 +2395,127 @@ class AudioFrameFinder {
     frameCnt: 0,
     data: [],
   };
-  #parseFrame = async (
-    deltaTime: number,
-    dec: ReturnType<typeof createAudioChunksDecoder> | null = null,
-    aborter: { abort: boolean; st: number },
-  ): Promise<Float32Array[]> => {
-    if (dec == null || aborter.abort || dec.state === 'closed') return [];
 
+  /**
+   * @param time 倒放时间轴上的时间，0 对应原始素材末尾
+   */
+  find = async (time: number): Promise<Float32Array[]> => {
+    if (
+      this.#ts < 0 ||
+      time <= this.#ts ||
+      time - this.#ts > this.#maxDeltaTime
+    ) {
+      this.#reset(time);
+      return [];
+    }
+
+    const deltaTime = time - this.#ts;
+    this.#ts = time;
     const emitFrameCnt = Math.ceil(deltaTime * (this.#sampleRate / 1e6));
     if (emitFrameCnt === 0) return [];
 
-    // 数据满足需要
-    const ramainFrameCnt = this.#pcmData.frameCnt - emitFrameCnt;
-    if (ramainFrameCnt > 0) {
-      // 剩余音频数据小于 100ms
-      if (ramainFrameCnt < DEFAULT_AUDIO_CONF.sampleRate / 10) {
-        this.#startDecode(dec);
-      }
-      return emitAudioFrames(this.#pcmData, emitFrameCnt);
+    const epoch = this.#epoch;
+    while (this.#pcmData.frameCnt < emitFrameCnt && this.#endIdx > 0) {
+      await this.#decodeNextBlock();
+      if (epoch !== this.#epoch) return [];
     }
+    // decode completed
+    if (this.#pcmData.frameCnt === 0) return [];
 
-    if (dec.decodeQueueSize > 10) {
-      if (performance.now() - aborter.st > 3e3) {
-        aborter.abort = true;
-        throw Error(
-          `MP4Clip.tick audio timeout, ${JSON.stringify(this.#getState())}`,
-        );
-      }
-      // 解码中，等待
-      await sleep(15);
-    } else if (this.#decCusorIdx >= this.samples.length - 1) {
-      // decode completed
-      return [];
-    } else {
-      this.#startDecode(dec);
+    const audio = emitAudioFrames(
+      this.#pcmData,
+      Math.min(emitFrameCnt, this.#pcmData.frameCnt),
+    );
+    // 剩余音频数据小于 500ms，预解码
+    if (this.#pcmData.frameCnt < this.#sampleRate / 2 && this.#endIdx > 0) {
+      this.#decodeNextBlock().catch(Log.error);
     }
-    return this.#parseFrame(deltaTime, dec, aborter);
+    return audio;
   };
 
-  #startDecode = (dec: ReturnType<typeof createAudioChunksDecoder>) => {
-    if (dec.decodeQueueSize > 100) return;
-    // 启动解码任务
-    const samples = [];
-    let i = this.#decCusorIdx;
-    while (i < this.samples.length) {
-      const s = this.samples[i];
-      i += 1;
-      if (s.deleted) continue;
-      samples.push(s);
-      if (samples.length >= 10) break;
+  #reset = (time: number) => {
+    this.#epoch += 1;
+    this.#decoding = null;
+    this.#ts = time;
+    this.#pcmData = { frameCnt: 0, data: [] };
+
+    const sourceTime = this.#duration - time;
+    let endIdx = 0;
+    while (
+      endIdx < this.samples.length &&
+      this.samples[endIdx].cts < sourceTime
+    ) {
+      endIdx += 1;
     }
-    this.#decCusorIdx = i;
+    this.#endIdx = endIdx;
 
-    dec.decode(
-      samples.map(
-        (s) =>
-          new EncodedAudioChunk({
-            type: 'key',
-            timestamp: s.cts,
-            duration: s.duration,
-            data: s.data!,
-          }),
-      ),
+    const last = this.samples[endIdx - 1];
+    const lastEnd = last == null ? 0 : last.cts + last.duration;
+    this.#skipFrameCnt = Math.max(
+      0,
+      Math.round((lastEnd - sourceTime) * (this.#sampleRate / 1e6)),
     );
-  };
-
-  #reset = () => {
-    this.#ts = 0;
-    this.#decCusorIdx = 0;
-    this.#pcmData = {
-      frameCnt: 0,
-      data: [],
-    };
-    this.#dec?.close();
-    this.#dec = createAudioChunksDecoder(
-      this.conf,
-      {
-        resampleRate: DEFAULT_AUDIO_CONF.sampleRate,
-        volume: this.#volume,
-      },
-      (pcmArr) => {
-        this.#pcmData.data.push(pcmArr as [Float32Array, Float32Array]);
-        this.#pcmData.frameCnt += pcmArr[0].length;
-      },
+    // 音频比视频短，倒放开始时补齐静音
+    const silenceCnt = Math.round(
+      (sourceTime - lastEnd) * (this.#sampleRate / 1e6),
     );
+    if (silenceCnt > 0) {
+      this.#pcmData.data.push([
+        new Float32Array(silenceCnt),
+        new Float32Array(silenceCnt),
+      ]);
+      this.#pcmData.frameCnt += silenceCnt;
+    }
   };
 
-  #getState = () => ({
-    time: this.#ts,
-    decState: this.#dec?.state,
-    decQSize: this.#dec?.decodeQueueSize,
-    decCusorIdx: this.#decCusorIdx,
-    sampleLen: this.samples.length,
-    pcmLen: this.#pcmData.frameCnt,
-  });
+  #decodeNextBlock = () => {
+    if (this.#decoding != null) return this.#decoding;
+
+    const epoch = this.#epoch;
+    const endIdx = this.#endIdx;
+    let startIdx = endIdx;
+    let blockDuration = 0;
+    while (startIdx > 0 && blockDuration < 1e6) {
+      startIdx -= 1;
+      blockDuration += this.samples[startIdx].duration;
+    }
+    this.#endIdx = startIdx;
+
+    // 额外解码前一个样本，避免块起始位置的数据失真
+    const preroll = this.samples[startIdx - 1];
+    const samples = this.samples
+      .slice(Math.max(0, startIdx - 1), endIdx)
+      .filter((s) => !s.deleted);
+
+    const task = decodeAudioSamples(samples, this.localFileReader, this.conf, {
+      resampleRate: this.#sampleRate,
+      volume: this.#volume,
+    }).then((pcm) => {
+      if (epoch !== this.#epoch || pcm.length === 0) return;
+
+      const prerollCnt =
+        preroll == null
+          ? 0
+          : Math.round(preroll.duration * (this.#sampleRate / 1e6));
+      const len = pcm[0].length - prerollCnt - this.#skipFrameCnt;
+      this.#skipFrameCnt = 0;
+      if (len <= 0) return;
+
+      const [chan0, chan1] = pcm.map((chan) =>
+        chan.slice(prerollCnt, prerollCnt + len).reverse(),
+      );
+      this.#pcmData.data.push([chan0, chan1]);
+      this.#pcmData.frameCnt += len;
+    });
+    this.#decoding = task.finally(() => {
+      if (epoch === this.#epoch) this.#decoding = null;
+    });
+    return this.#decoding;
+  };
 
   destroy = () => {
-    this.#dec = null;
-    this.#curAborter.abort = true;
+    this.#epoch += 1;
+    this.#decoding = null;
     this.#pcmData = {
       frameCnt: 0,
       data: [],
@@ -943,6 +2524,76 @@ class AudioFrameFinder {
   };
 }
 
+// 一次性解码多个音频样本，返回重采样、调节音量后的双声道 PCM
+// 音频样本数据通常已保存在内存中，仅解析了 moov 的远程文件需要按需读取
+async function readSampleData(
+  samples: ExtMP4Sample[],
+  reader: LocalFileReader,
+) {
+  return await Promise.all(
+    samples.map(
+      async (s) =>
+        s.data ?? new Uint8Array(await reader.read(s.size, { at: s.offset })),
+    ),
+  );
+}
+
+async function decodeAudioSamples(
+  samples: ExtMP4Sample[],
+  reader: LocalFileReader,
+  decoderConf: AudioDecoderConfig,
+  opts: { resampleRate: number; volume: number },
+): Promise<Float32Array[]> {
+  if (samples.length === 0) return [];
+
+  const sampleData = await readSampleData(samples, reader);
+  const fragments: Float32Array[][] = [];
+  let sampleRate = decoderConf.sampleRate;
+  const adec = new AudioDecoder({
+    output: (ad) => {
+      sampleRate = ad.sampleRate;
+      fragments.push(extractPCM4AudioData(ad));
+      ad.close();
+    },
+    error: (err) => {
+      Log.error(`MP4Clip AudioDecoder err: ${err.message}`);
+    },
+  });
+  try {
+    adec.configure(decoderConf);
+    samples.forEach((s, idx) => {
+      adec.decode(
+        new EncodedAudioChunk({
+          type: 'key',
+          timestamp: s.cts,
+          duration: s.duration,
+          data: sampleData[idx],
+        }),
+      );
+    });
+    await adec.flush();
+  } finally {
+    if (adec.state !== 'closed') adec.close();
+  }
+  if (fragments.length === 0) return [];
+
+  let pcmArr = concatPCMFragments(fragments);
+  if (sampleRate !== opts.resampleRate) {
+    pcmArr = await audioResample(pcmArr, sampleRate, {
+      rate: opts.resampleRate,
+      chanCount: pcmArr.length,
+    });
+  }
+  // 音量调节
+  if (opts.volume !== 1) {
+    for (const pcm of pcmArr)
+      for (let i = 0; i < pcm.length; i++) pcm[i] *= opts.volume;
+  }
+  // 补齐双声道
+  if (pcmArr.length === 1) pcmArr = [pcmArr[0], pcmArr[0]];
+  return pcmArr;
+}
+
 function createAudioChunksDecoder(
   decoderConf: AudioDecoderConfig,
   opts: { resampleRate: number; volume: number },
@@ -1061,7 +2712,7 @@ function emitAudioFrames(
 
 async function videosamples2Chunks(
   samples: ExtMP4Sample[],
-  reader: Awaited<ReturnType<OPFSToolFile['createReader']>>,
+  reader: LocalFileReader,
 ): Promise<EncodedVideoChunk[]> {
   const first = samples[0];
   const last = samples.at(-1);
@@ -1076,7 +2727,7 @@ async function videosamples2Chunks(
     return samples.map((s) => {
       const offset = s.offset - first.offset;
       let sData = data.subarray(offset, offset + s.size);
-      if (s.is_idr) sData = removeSEIForIDR(sData);
+      if (s.is_idr && isNALUSample(s)) sData = removeSEIForIDR(sData);
       return new EncodedVideoChunk({
         type: s.is_sync ? 'key' : 'delta',
         timestamp: s.cts,
@@ -1091,7 +2742,9 @@ async function videosamples2Chunks(
       let sData = await reader.read(s.size, {
         at: s.offset,
       });
-      if (s.is_idr) sData = removeSEIForIDR(new Uint8Array(sData));
+      if (s.is_idr && isNALUSample(s)) {
+        sData = removeSEIForIDR(new Uint8Array(sData));
+      }
       return new EncodedVideoChunk({
         type: s.is_sync ? 'key' : 'delta',
         timestamp: s.cts,
@@ -1102,6 +2755,65 @@ async function videosamples2Chunks(
   );
 }
 
+// 解码配置中的 description 转换为 base64，便于 JSON 序列化
+type TEncodedDecoderConf<T> = Omit<T, 'description'> & { description?: string };
+
+function encodeDecoderConf<T extends VideoDecoderConfig | AudioDecoderConfig>(
+  conf: T,
+): TEncodedDecoderConf<T> {
+  const { description, ...rest } = conf;
+  if (description == null) return rest;
+  const u8 = bufferSource2U8(description);
+  let str = '';
+  for (const byte of u8) str += String.fromCharCode(byte);
+  return { ...rest, description: btoa(str) };
+}
+
+function bufferSource2U8(buf: AllowSharedBufferSource) {
+  return ArrayBuffer.isView(buf)
+    ? new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength)
+    : new Uint8Array(buf);
+}
+
+function decodeDecoderConf<T extends VideoDecoderConfig | AudioDecoderConfig>(
+  conf: TEncodedDecoderConf<T>,
+): Omit<TEncodedDecoderConf<T>, 'description'> & { description?: Uint8Array } {
+  const { description, ...rest } = conf;
+  if (description == null) return rest;
+  return {
+    ...rest,
+    description: Uint8Array.from(atob(description), (c) => c.charCodeAt(0)),
+  };
+}
+
+/**
+ * 创建图像旋转函数，输出新的 VideoFrame 并关闭原始帧
+ * @param rotation 顺时针旋转角度
+ */
+function createFrameRotater(rotation: number) {
+  if (rotation === 0) return (vf: VideoFrame) => vf;
+
+  let cvs: OffscreenCanvas | null = null;
+  return (vf: VideoFrame) => {
+    const { displayWidth: w, displayHeight: h } = vf;
+    const swap = rotation % 180 !== 0;
+    const [width, height] = swap ? [h, w] : [w, h];
+    if (cvs == null || cvs.width !== width || cvs.height !== height) {
+      cvs = new OffscreenCanvas(width, height);
+    }
+    const ctx = cvs.getContext('2d')!;
+    ctx.setTransform(1, 0, 0, 1, width / 2, height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(vf, -w / 2, -h / 2, w, h);
+    const rsVf = new VideoFrame(cvs, {
+      timestamp: vf.timestamp,
+      duration: vf.duration ?? undefined,
+    });
+    vf.close();
+    return rsVf;
+  };
+}
+
 function createVF2BlobConvtr(
   width: number,
   height: number,
@@ -1164,6 +2876,41 @@ function splitVideoSampleByTime(videoSamples: ExtMP4Sample[], time: number) {
   return [preSlice, postSlice];
 }
 
+// 各音频轨道分别切分，time 超出轨道时长时整条轨道归入前半段
+function splitAudioTracksByTime(audioSamples: ExtMP4Sample[], time: number) {
+  let preSlice: ExtMP4Sample[] = [];
+  let postSlice: ExtMP4Sample[] = [];
+  for (const samples of groupSamplesByTrack(audioSamples)) {
+    if (time > samples.at(-1)!.cts) {
+      preSlice = preSlice.concat(samples);
+      continue;
+    }
+    const [pre = [], post = []] = splitAudioSampleByTime(samples, time);
+    preSlice = preSlice.concat(pre);
+    postSlice = postSlice.concat(post);
+  }
+  return [preSlice, postSlice];
+}
+
+// 跨越切分点的字幕同时保留在前后两段中
+function splitTextTrackCuesByTime(cues: TextTrackCues, time: number) {
+  const pre: TextTrackCues = {};
+  const post: TextTrackCues = {};
+  for (const [id, trackCues] of Object.entries(cues)) {
+    pre[Number(id)] = trackCues
+      .filter((c) => c.start < time)
+      .map((c) => ({ ...c, end: Math.min(c.end, time) }));
+    post[Number(id)] = trackCues
+      .filter((c) => c.end > time)
+      .map((c) => ({
+        ...c,
+        start: Math.max(c.start - time, 0),
+        end: c.end - time,
+      }));
+  }
+  return [pre, post];
+}
+
 function splitAudioSampleByTime(audioSamples: ExtMP4Sample[], time: number) {
   if (audioSamples.length === 0) return [];
   let hitIdx = -1;
@@ -1210,6 +2957,14 @@ function decodeGoP(
   });
 }
 
+// H.264、H.265 的样本由 NALU 组成
+function isNALUSample(s: ExtMP4Sample) {
+  const { type } = s.description;
+  return (
+    type === 'avc1' || type === 'avc3' || type === 'hvc1' || type === 'hev1'
+  );
+}
+
 // 当 IDR 帧前面携带其它数据（如 SEI）可能导致解码失败
 function removeSEIForIDR(u8buf: Uint8Array) {
   const dv = new DataView(u8buf.buffer, u8buf.byteOffset, u8buf.byteLength);
@@ -1219,15 +2974,18 @@ function removeSEIForIDR(u8buf: Uint8Array) {
   return u8buf;
 }
 
-function isIDRFrame(u8Arr: Uint8Array, type: MP4Sample['description']['type']) {
-  if (type !== 'avc1' && type !== 'hvc1') return false;
+function isIDRFrame(u8Arr: Uint8Array, type: string) {
+  // VP8、VP9、AV1 的关键帧均可独立解码
+  if (type === 'vp08' || type === 'vp09' || type === 'av01') return true;
+  const isAVC = type === 'avc1' || type === 'avc3';
+  if (!isAVC && type !== 'hvc1' && type !== 'hev1') return false;
 
   const dv = new DataView(u8Arr.buffer);
   let i = 0;
   for (; i < u8Arr.byteLength - 4; ) {
-    if (type === 'avc1') {
+    if (isAVC) {
       if ((dv.getUint8(i + 4) & 0x1f) === 5) return true;
-    } else if (type === 'hvc1') {
+    } else {
       if (((dv.getUint8(i + 4) >> 1) & 0x3f) === 20) return true;
     }
     // 跳至下一个 NALU 继续检查
@@ -1238,37 +2996,332 @@ function isIDRFrame(u8Arr: Uint8Array, type: MP4Sample['description']['type']) {
 
 async function thumbnailByKeyFrame(
   samples: ExtMP4Sample[],
-  localFile: OPFSToolFile,
+  localFile: MP4ClipFile,
   decConf: VideoDecoderConfig,
   abortSingl: AbortSignal,
   time: { start: number; end: number },
-  onOutput: (vf: VideoFrame, done: boolean) => void,
+  onOutput: (vf: VideoFrame) => void,
+) {
+  const poolHolder = { priority: 'background' as const };
+  await videoDecoderPool.acquire(poolHolder);
+  let fileReader: LocalFileReader | null = null;
+  let dec = null as VideoDecoder | null;
+  // 所有关键帧输出、取消或出错后，关闭解码器并释放名额
+  try {
+    fileReader = await localFile.createReader();
+    const chunks = await videosamples2Chunks(
+      samples.filter(
+        (s) =>
+          !s.deleted && s.is_sync && s.cts >= time.start && s.cts <= time.end,
+      ),
+      fileReader,
+    );
+    if (chunks.length === 0 || abortSingl.aborted) return;
+
+    await new Promise<void>((resolve, reject) => {
+      let cnt = 0;
+      dec = new VideoDecoder({
+        output: (vf) => {
+          cnt += 1;
+          onOutput(vf);
+          if (cnt === chunks.length) resolve();
+        },
+        error: (err) => {
+          Log.error(err);
+          reject(err);
+        },
+      });
+      abortSingl.addEventListener('abort', () => resolve(), { once: true });
+      dec.configure(decConf);
+      decodeGoP(dec, chunks, {});
+    });
+  } finally {
+    fileReader?.close();
+    if (dec != null && dec.state !== 'closed') dec.close();
+    videoDecoderPool.release(poolHolder);
+  }
+}
+
+// smart cut 重编码使用的码率相对原始平均码率的倍数，减少画质损失
+const SMART_CUT_BITRATE_SCALE = 1.5;
+
+// lib.dom 尚未包含 HEVC 的编码配置
+type NALUVideoEncoderConfig = VideoEncoderConfig & {
+  hevc?: { format: 'hevc' | 'annexb' };
+};
+
+// 可以插入带内参数集的编码格式
+function getNALUCodecType(codec: string) {
+  if (codec.startsWith('avc1') || codec.startsWith('avc3')) return 'avc';
+  if (codec.startsWith('hvc1') || codec.startsWith('hev1')) return 'hevc';
+  return null;
+}
+
+async function smartCutMP4(
+  outfile: MP4File,
+  args: {
+    localFile: MP4ClipFile;
+    videoSamples: ExtMP4Sample[];
+    audioSamples: ExtMP4Sample[];
+    decoderConf: MP4DecoderConf;
+    width: number;
+    height: number;
+    rotation: number;
+    start: number;
+    end: number;
+    hardwareAcceleration?: HardwarePreference;
+  },
+  isAborted: () => boolean,
+) {
+  const { start, end, decoderConf } = args;
+  const reader = await args.localFile.createReader();
+  try {
+    const writeVideo =
+      decoderConf.video == null || args.videoSamples.length === 0
+        ? null
+        : createSmartCutVideoWriter(outfile, reader, {
+            ...args,
+            conf: decoderConf.video,
+          });
+
+    const audioSamples = groupSamplesByTrack(args.audioSamples);
+    // 复用源文件的 ESDS，保留原始的 AAC 编码配置（如 HE-AAC）
+    const src =
+      audioSamples.length === 0
+        ? null
+        : await parseMP4Moov(reader, { fragmented: true });
+    const audioTracks = audioSamples.map((samples) => {
+      const trackId = samples[0].track_id;
+      const conf = getAudioTrackConf(decoderConf, trackId)!;
+      const srcESDS =
+        src == null
+          ? null
+          : extractFileConfig(src.file, src.info, { audioTrackId: trackId })
+              .audioTrackConf?.description;
+      return {
+        id: outfile.addTrack({
+          timescale: 1e6,
+          samplerate: conf.sampleRate,
+          channel_count: conf.numberOfChannels,
+          hdlr: 'soun',
+          type: 'mp4a',
+          description:
+            srcESDS ??
+            createESDSBox(
+              createAACSpecificConfig(conf.sampleRate, conf.numberOfChannels),
+            ),
+        }),
+        samples: samples.filter((s) => s.cts >= start && s.cts < end),
+        idx: 0,
+      };
+    });
+    if (outfile.moov == null) return;
+    outfile.moov.mvhd.duration = end - start;
+
+    // 按时间交错写入音频样本
+    const writeAudio = async (until: number) => {
+      for (const t of audioTracks) {
+        const batch: ExtMP4Sample[] = [];
+        while (t.idx < t.samples.length && t.samples[t.idx].cts < until) {
+          batch.push(t.samples[t.idx]);
+          t.idx += 1;
+        }
+        const data = await readSampleData(batch, reader);
+        batch.forEach((s, i) => {
+          outfile.addSample(t.id, data[i].slice().buffer, {
+            duration: s.duration,
+            dts: s.cts - start,
+            cts: s.cts - start,
+            is_sync: true,
+          });
+        });
+      }
+    };
+
+    if (writeVideo != null) {
+      for await (const until of writeVideo()) {
+        if (isAborted()) return;
+        await writeAudio(until);
+      }
+    }
+    await writeAudio(Infinity);
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * 创建视频轨道，返回逐个 GoP 写入样本的迭代器，每写入一个 GoP 输出已写入的时间
+ */
+function createSmartCutVideoWriter(
+  outfile: MP4File,
+  reader: LocalFileReader,
+  args: {
+    conf: VideoDecoderConfig;
+    videoSamples: ExtMP4Sample[];
+    width: number;
+    height: number;
+    rotation: number;
+    start: number;
+    end: number;
+    hardwareAcceleration?: HardwarePreference;
+  },
+) {
+  const { conf, videoSamples, start, end } = args;
+  const codecType = getNALUCodecType(conf.codec)!;
+  const srcDesc = bufferSource2U8(conf.description!);
+  const srcParamSets = parseParamSets(codecType, srcDesc);
+
+  const segments = planSmartCut(videoSamples, start, end);
+  const delay = calcDecodeDelay(segments);
+  const reencode = segments.some((seg) => seg.type === 'reencode');
+  const srcType = videoSamples[0].description.type;
+  // 重编码的帧使用编码器生成的参数集，需写入样本（带内参数集），对应 avc3、hev1
+  const type = !reencode ? srcType : codecType === 'avc' ? 'avc3' : 'hev1';
+  const trackId = outfile.addTrack({
+    timescale: 1e6,
+    width: args.width,
+    height: args.height,
+    brands: ['isom', 'iso2', 'avc1', 'mp42', 'mp41'],
+    type,
+    ...(codecType === 'avc'
+      ? { avcDecoderConfigRecord: srcDesc }
+      : { hevcDecoderConfigRecord: srcDesc }),
+  });
+  if (args.rotation !== 0) {
+    outfile
+      .getTrackById(trackId)
+      .tkhd.matrix.set(createRotationMatrix(args.rotation));
+  }
+
+  const totalSize = videoSamples.reduce((acc, s) => acc + s.size, 0);
+  const lastSample = videoSamples.reduce((a, b) => (a.cts > b.cts ? a : b));
+  const srcDuration = (lastSample.cts + lastSample.duration) / 1e6;
+  let encoder: VideoEncoder | null = null;
+  let encParamSets: ReturnType<typeof parseParamSets> | null = null;
+  let encChunks: EncodedVideoChunk[] = [];
+  const getEncoder = (vf: VideoFrame) => {
+    if (encoder != null) return encoder;
+    encoder = new VideoEncoder({
+      output: (chunk, meta) => {
+        const desc = meta?.decoderConfig?.description;
+        if (desc != null) {
+          encParamSets = parseParamSets(codecType, bufferSource2U8(desc));
+        }
+        encChunks.push(chunk);
+      },
+      error: Log.error,
+    });
+    const encConf: NALUVideoEncoderConfig = {
+      codec: conf.codec,
+      width: vf.displayWidth,
+      height: vf.displayHeight,
+      bitrate: Math.round(
+        ((totalSize * 8) / srcDuration) * SMART_CUT_BITRATE_SCALE,
+      ),
+      framerate: videoSamples.length / srcDuration,
+      hardwareAcceleration: args.hardwareAcceleration,
+      // 与 avcC、hvcC 的样本格式一致（NALU 前为长度字段）
+      ...(codecType === 'avc'
+        ? { avc: { format: 'avc' } }
+        : { hevc: { format: 'hevc' } }),
+    };
+    encoder.configure(encConf);
+    return encoder;
+  };
+
+  return async function* () {
+    // 解码器当前使用的是重编码的参数集
+    let inBandParamSets = false;
+    try {
+      for (const seg of segments) {
+        if (seg.type === 'copy') {
+          const data = await readSampleData(seg.samples, reader);
+          seg.samples.forEach((s, i) => {
+            const sData =
+              i === 0 && inBandParamSets
+                ? rewriteNALUs(data[i], {
+                    fromLengthSize: srcParamSets.lengthSize,
+                    toLengthSize: srcParamSets.lengthSize,
+                    prepend: srcParamSets.nalus,
+                  })
+                : data[i].slice();
+            outfile.addSample(trackId, sData.buffer, {
+              duration: s.duration,
+              dts: seg.cts[i] - delay - start,
+              cts: s.cts - start,
+              is_sync: s.is_sync,
+            });
+          });
+          inBandParamSets = false;
+        } else {
+          const chunks = await videosamples2Chunks(seg.samples, reader);
+          let keyFrame = true;
+          await decodeGoPRange(
+            chunks,
+            { ...conf, hardwareAcceleration: args.hardwareAcceleration },
+            { start, end },
+            (vf) => {
+              getEncoder(vf).encode(vf, { keyFrame });
+              keyFrame = false;
+            },
+          );
+          await encoder?.flush();
+          for (const chunk of encChunks) {
+            const buf = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(buf);
+            const isKey = chunk.type === 'key';
+            outfile.addSample(
+              trackId,
+              rewriteNALUs(buf, {
+                fromLengthSize: encParamSets?.lengthSize ?? 4,
+                toLengthSize: srcParamSets.lengthSize,
+                prepend: isKey ? encParamSets?.nalus : [],
+              }).buffer,
+              {
+                duration: chunk.duration ?? seg.samples[0].duration,
+                dts: chunk.timestamp - delay - start,
+                cts: chunk.timestamp - start,
+                is_sync: isKey,
+              },
+            );
+          }
+          encChunks = [];
+          inBandParamSets = true;
+        }
+        yield seg.cts[seg.cts.length - 1];
+      }
+    } finally {
+      if (encoder?.state === 'configured') encoder.close();
+    }
+  };
+}
+
+// 解码 GoP，将 [start, end) 区间内的帧依次交给 onFrame 处理，之后关闭帧
+async function decodeGoPRange(
+  chunks: EncodedVideoChunk[],
+  conf: VideoDecoderConfig,
+  range: { start: number; end: number },
+  onFrame: (vf: VideoFrame) => void,
 ) {
-  const fileReader = await localFile.createReader();
-  let cnt = 0;
+  const poolHolder = { priority: 'render' as const };
+  await videoDecoderPool.acquire(poolHolder);
   const dec = new VideoDecoder({
     output: (vf) => {
-      cnt += 1;
-      const done = cnt === chunks.length;
-      onOutput(vf, done);
-      if (done) fileReader.close();
+      // 被标记删除的帧时间为 -1
+      if (vf.timestamp >= range.start && vf.timestamp < range.end) onFrame(vf);
+      vf.close();
+    },
+    error: (err) => {
+      Log.error(`MP4Clip VideoDecoder err: ${err.message}`);
     },
-    error: Log.error,
-  });
-  abortSingl.addEventListener('abort', () => {
-    fileReader.close();
-    dec.close();
   });
-
-  const chunks = await videosamples2Chunks(
-    samples.filter(
-      (s) =>
-        !s.deleted && s.is_sync && s.cts >= time.start && s.cts <= time.end,
-    ),
-    fileReader,
-  );
-  if (chunks.length === 0 || abortSingl.aborted) return;
-
-  dec.configure(decConf);
-  decodeGoP(dec, chunks, {});
+  try {
+    dec.configure(conf);
+    for (const chunk of chunks) dec.decode(chunk);
+    await dec.flush();
+  } finally {
+    if (dec.state !== 'closed') dec.close();
+    videoDecoderPool.release(poolHolder);
+  }
 }
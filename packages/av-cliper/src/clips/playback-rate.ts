@@ -0,0 +1,112 @@
+/**
+ * 分段播放速率，`rate` 作用于素材原始时间 [start, 下一段 start) 区间
+ */
+export interface IPlaybackRateSegment {
+  /**
+   * 素材原始时间，单位 微秒
+   */
+  start: number;
+  /**
+   * 播放速率，1 表示原速，2 表示两倍速，0.5 表示半速
+   */
+  rate: number;
+}
+
+/**
+ * 固定播放速率，或分段速率曲线
+ */
+export type TPlaybackRate = number | IPlaybackRateSegment[];
+
+function normalizeSegments(playbackRate: TPlaybackRate) {
+  const segs = (
+    typeof playbackRate === 'number'
+      ? [{ start: 0, rate: playbackRate }]
+      : [...playbackRate].sort((a, b) => a.start - b.start)
+  ).map((s) => ({ ...s }));
+  if (segs.length === 0) return [{ start: 0, rate: 1 }];
+
+  for (const { rate } of segs) {
+    if (!(rate > 0) || !isFinite(rate)) {
+      throw Error(`Invalid playbackRate: ${rate}, must be greater than 0`);
+    }
+  }
+  // 第一段之前的区间，沿用第一段的速率
+  segs[0].start = 0;
+  return segs;
+}
+
+/**
+ * 创建素材时间（播放时间）与原始时间之间的映射
+ * @param playbackRate 固定播放速率，或分段速率曲线
+ */
+export function createTimeMapper(playbackRate: TPlaybackRate = 1) {
+  const segs = normalizeSegments(playbackRate).map((s) => ({
+    ...s,
+    // 该段在素材时间轴上的起始时间
+    clipStart: 0,
+  }));
+  for (let i = 1; i < segs.length; i++) {
+    const prev = segs[i - 1];
+    segs[i].clipStart =
+      prev.clipStart + (segs[i].start - prev.start) / prev.rate;
+  }
+
+  const findSeg = (time: number, key: 'start' | 'clipStart') => {
+    let i = segs.length - 1;
+    while (i > 0 && segs[i][key] > time) i -= 1;
+    return segs[i];
+  };
+
+  return {
+    /**
+     * 速率恒为 1，素材时间与原始时间相同
+     */
+    isIdentity: segs.every((s) => s.rate === 1),
+    /**
+     * 速率曲线中的最大值
+     */
+    maxRate: Math.max(...segs.map((s) => s.rate)),
+    /**
+     * 素材时间 转换为 原始时间
+     */
+    toSource(time: number) {
+      const s = findSeg(time, 'clipStart');
+      return s.start + (time - s.clipStart) * s.rate;
+    },
+    /**
+     * 原始时间 转换为 素材时间
+     */
+    toClip(time: number) {
+      const s = findSeg(time, 'start');
+      return s.clipStart + (time - s.start) / s.rate;
+    },
+    /**
+     * 素材时间对应的播放速率
+     */
+    rateAt(time: number) {
+      return findSeg(time, 'clipStart').rate;
+    },
+  };
+}
+
+/**
+ * 在原始时间 sourceTime 处切分速率曲线，后半段的时间从 0 开始
+ */
+export function splitPlaybackRate(
+  playbackRate: TPlaybackRate,
+  sourceTime: number,
+): [TPlaybackRate, TPlaybackRate] {
+  if (typeof playbackRate === 'number') return [playbackRate, playbackRate];
+  const segs = normalizeSegments(playbackRate);
+  const pre = segs.filter((s) => s.start < sourceTime);
+  const hitSeg = segs.filter((s) => s.start <= sourceTime).at(-1) ?? segs[0];
+  const post = [
+    { start: 0, rate: hitSeg.rate },
+    ...segs
+      .filter((s) => s.start > sourceTime)
+      .map((s) => ({ ...s, start: s.start - sourceTime })),
+  ];
+  const simplify = (rs: IPlaybackRateSegment[]) =>
+    rs.every((s) => s.rate === rs[0].rate) ? rs[0].rate : rs;
+  return [simplify(pre.length === 0 ? segs.slice(0, 1) : pre), simplify(post)];
+}
@@ -0,0 +1,105 @@
+/**
+ * 镜头切换检测参数
+ */
+export interface IDetectScenesOpts {
+  /**
+   * 判定为镜头切换的差异阈值 0~1，越小越灵敏，默认 0.3
+   */
+  threshold?: number;
+  /**
+   * 镜头的最短时长，单位 微秒，距上一个切换点过近的切换会被忽略，默认 1e6
+   */
+  minDuration?: number;
+  /**
+   * 采样间隔，单位 微秒，默认 0.1e6
+   */
+  step?: number;
+  /**
+   * 起止时间，单位 微秒，默认整个素材
+   */
+  start?: number;
+  end?: number;
+  /**
+   * 用于取消检测，取消后 reject
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 镜头切换点
+ */
+export interface ISceneCut {
+  /**
+   * 切换后第一帧的时间，单位 微秒
+   */
+  time: number;
+  /**
+   * 置信度 0~1，即前后两帧的差异程度
+   */
+  score: number;
+}
+
+// 分析时缩放到的宽度，低分辨率足以判断镜头切换，同时降低计算量
+export const SCENE_ANALYSIS_WIDTH = 64;
+
+const HISTOGRAM_BINS = 16;
+
+/**
+ * 提取帧的亮度及亮度直方图
+ * @param rgba 缩放后图像的 RGBA 数据
+ */
+export function calcFrameFeature(rgba: Uint8ClampedArray) {
+  const pixelCnt = rgba.length / 4;
+  const luma = new Uint8Array(pixelCnt);
+  const hist = new Float32Array(HISTOGRAM_BINS);
+  for (let i = 0; i < pixelCnt; i++) {
+    const y = Math.round(
+      0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2],
+    );
+    luma[i] = y;
+    hist[Math.floor((y * HISTOGRAM_BINS) / 256)] += 1;
+  }
+  for (let i = 0; i < HISTOGRAM_BINS; i++) hist[i] /= pixelCnt || 1;
+  return { luma, hist };
+}
+
+export type TFrameFeature = ReturnType<typeof calcFrameFeature>;
+
+/**
+ * 计算两帧的差异 0~1，为直方图差异与逐像素亮度差异的均值
+ */
+export function calcSceneScore(a: TFrameFeature, b: TFrameFeature) {
+  let histDiff = 0;
+  for (let i = 0; i < HISTOGRAM_BINS; i++) {
+    histDiff += Math.abs(a.hist[i] - b.hist[i]);
+  }
+  const len = Math.min(a.luma.length, b.luma.length);
+  let lumaDiff = 0;
+  for (let i = 0; i < len; i++) lumaDiff += Math.abs(a.luma[i] - b.luma[i]);
+  lumaDiff = len === 0 ? 0 : lumaDiff / len / 255;
+  return (histDiff / 2 + lumaDiff) / 2;
+}
+
+/**
+ * 依次接收帧特征，输出镜头切换点
+ */
+export function createSceneDetector(opts: {
+  threshold: number;
+  minDuration: number;
+  start: number;
+}) {
+  const { threshold, minDuration } = opts;
+  let lastFeature: TFrameFeature | null = null;
+  let lastCutTime = opts.start;
+  return {
+    push(time: number, feature: TFrameFeature): ISceneCut | null {
+      const prev = lastFeature;
+      lastFeature = feature;
+      if (prev == null) return null;
+      const score = calcSceneScore(prev, feature);
+      if (score < threshold || time - lastCutTime < minDuration) return null;
+      lastCutTime = time;
+      return { time, score: Math.min(1, score) };
+    },
+  };
+}
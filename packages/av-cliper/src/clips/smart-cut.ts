@@ -0,0 +1,110 @@
+/**
+ * smart cut 导出区间，单位 微秒（素材时间）
+ */
+export interface ISmartCutOpts {
+  /**
+   * 起始时间，默认 0
+   */
+  start?: number;
+  /**
+   * 结束时间（不包含），默认素材时长
+   */
+  end?: number;
+}
+
+interface SmartCutSample {
+  cts: number;
+  is_idr: boolean;
+  deleted?: boolean;
+}
+
+export interface ISmartCutSegment<T extends SmartCutSample> {
+  // copy: 直接复制原始数据；reencode: 解码后重编码区间内的帧
+  type: 'copy' | 'reencode';
+  // 整个 GoP 的样本（解码顺序），重编码时需要从关键帧开始解码
+  samples: T[];
+  // 导出区间内的帧时间，升序
+  cts: number[];
+}
+
+/**
+ * 按 GoP 划分导出区间 [start, end) 内的视频样本；
+ * 完整包含在区间内的 GoP 直接复制，被入点、出点截断（或包含已删除帧）的 GoP 需要重编码
+ */
+export function planSmartCut<T extends SmartCutSample>(
+  samples: T[],
+  start: number,
+  end: number,
+): ISmartCutSegment<T>[] {
+  const gops: T[][] = [];
+  for (const s of samples) {
+    if (s.is_idr || gops.length === 0) gops.push([s]);
+    else gops[gops.length - 1].push(s);
+  }
+
+  const inRange = (s: T) => !s.deleted && s.cts >= start && s.cts < end;
+  const segments: ISmartCutSegment<T>[] = [];
+  for (const gop of gops) {
+    const cts = gop
+      .filter(inRange)
+      .map((s) => s.cts)
+      .sort((a, b) => a - b);
+    if (cts.length === 0) continue;
+    segments.push({
+      // 首个 GoP 可能不以 IDR 帧开始，无法单独复制
+      type: gop[0].is_idr && cts.length === gop.length ? 'copy' : 'reencode',
+      samples: gop,
+      cts,
+    });
+  }
+  return segments;
+}
+
+/**
+ * 输出文件的解码时间需整体前移的时长，保证解码时间不晚于显示时间；
+ * 各 GoP 内解码时间为升序排列的显示时间，重编码的帧不包含 B 帧，解码时间等于显示时间
+ */
+export function calcDecodeDelay<T extends SmartCutSample>(
+  segments: ISmartCutSegment<T>[],
+) {
+  let delay = 0;
+  for (const { type, samples, cts } of segments) {
+    if (type !== 'copy') continue;
+    samples.forEach((s, i) => {
+      delay = Math.max(delay, cts[i] - s.cts);
+    });
+  }
+  return delay;
+}
+
+/**
+ * 生成 tkhd 中表示顺时针旋转的显示矩阵
+ */
+export function createRotationMatrix(rotation: number) {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.round(Math.cos(rad) * 0x10000);
+  const sin = Math.round(Math.sin(rad) * 0x10000);
+  return [cos, sin, 0, -sin, cos, 0, 0, 0, 0x40000000];
+}
+
+const AAC_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350,
+];
+
+/**
+ * 生成 AAC-LC 的 AudioSpecificConfig，用于写入 esds；
+ * HE-AAC 按隐式信令处理（以核心采样率标识为 AAC-LC），解码器可自动识别 SBR
+ */
+export function createAACSpecificConfig(
+  sampleRate: number,
+  channelCount: number,
+) {
+  const freqIdx = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (freqIdx === -1) throw Error(`Unsupported AAC sample rate: ${sampleRate}`);
+  const objectType = 2;
+  return new Uint8Array([
+    (objectType << 3) | (freqIdx >> 1),
+    ((freqIdx & 0x01) << 7) | ((channelCount & 0x0f) << 3),
+  ]);
+}
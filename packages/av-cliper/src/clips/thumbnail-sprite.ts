@@ -0,0 +1,154 @@
+/**
+ * 缩略图图集（雪碧图）配置
+ */
+export interface IThumbnailSpriteOpts {
+  /**
+   * 每张图集的列数，默认 10
+   */
+  columns?: number;
+  /**
+   * 每张图集的行数，默认 10，缩略图数量超出时生成多张图集
+   */
+  rows?: number;
+  /**
+   * 图集格式，默认 'image/jpeg'
+   */
+  type?: string;
+  /**
+   * 图片质量 0~1，仅对 'image/jpeg'、'image/webp' 有效，默认 0.8
+   */
+  quality?: number;
+  /**
+   * 图集在 WebVTT 中引用的地址，默认 `sprite-${index}.jpg`（后缀与 type 一致）
+   */
+  getSheetURL?: (index: number) => string;
+}
+
+/**
+ * 单个缩略图在图集中的位置
+ */
+export interface IThumbnailSpriteCue {
+  /**
+   * 起止时间，单位 微秒
+   */
+  start: number;
+  end: number;
+  sheetIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 缩略图图集，及对应的 WebVTT 索引（`#xywh=` 格式，用于播放器进度条预览）
+ */
+export interface IThumbnailSprites {
+  sheets: Blob[];
+  cues: IThumbnailSpriteCue[];
+  vtt: string;
+}
+
+/**
+ * 将缩略图按时间顺序平铺到图集中
+ * @param thumbs 同尺寸的缩略图，需按 ts 升序排列
+ * @param duration 最后一个缩略图的结束时间
+ */
+export async function packThumbnailSprites(
+  thumbs: Array<{ ts: number; img: ImageBitmap }>,
+  duration: number,
+  opts: IThumbnailSpriteOpts = {},
+): Promise<IThumbnailSprites> {
+  const { columns = 10, rows = 10, type = 'image/jpeg', quality = 0.8 } = opts;
+  if (!(columns >= 1 && rows >= 1)) {
+    throw Error('Sprite columns and rows must be greater than 0');
+  }
+  const getSheetURL =
+    opts.getSheetURL ??
+    ((idx: number) =>
+      `sprite-${idx}.${(type.split('/')[1] ?? 'jpg').replace('jpeg', 'jpg')}`);
+
+  const cues = layoutThumbnailSprites(
+    thumbs.map((t) => t.ts),
+    duration,
+    {
+      columns,
+      rows,
+      width: thumbs[0]?.img.width ?? 0,
+      height: thumbs[0]?.img.height ?? 0,
+    },
+  );
+
+  const perSheet = columns * rows;
+  const sheets: Blob[] = [];
+  for (let i = 0; i < thumbs.length; i += perSheet) {
+    const sheetCues = cues.slice(i, i + perSheet);
+    const { width, height } = sheetCues[0];
+    // 最后一张图集按实际数量裁剪尺寸
+    const cvs = new OffscreenCanvas(
+      width * Math.min(columns, sheetCues.length),
+      height * Math.ceil(sheetCues.length / columns),
+    );
+    const ctx = cvs.getContext('2d')!;
+    sheetCues.forEach((c, idx) => {
+      const { img } = thumbs[i + idx];
+      ctx.drawImage(img, c.x, c.y, c.width, c.height);
+      img.close();
+    });
+    sheets.push(await cvs.convertToBlob({ type, quality }));
+  }
+
+  return { sheets, cues, vtt: genThumbnailVTT(cues, getSheetURL) };
+}
+
+/**
+ * 计算每个缩略图在图集中的位置，前一个缩略图的结束时间为后一个的开始时间
+ */
+export function layoutThumbnailSprites(
+  timestamps: number[],
+  duration: number,
+  grid: { columns: number; rows: number; width: number; height: number },
+): IThumbnailSpriteCue[] {
+  const { columns, rows, width, height } = grid;
+  const perSheet = columns * rows;
+  return timestamps.map((ts, idx) => {
+    const cellIdx = idx % perSheet;
+    return {
+      start: ts,
+      end: Math.max(ts, timestamps[idx + 1] ?? duration),
+      sheetIndex: Math.floor(idx / perSheet),
+      x: (cellIdx % columns) * width,
+      y: Math.floor(cellIdx / columns) * height,
+      width,
+      height,
+    };
+  });
+}
+
+/**
+ * 生成 WebVTT 缩略图索引
+ */
+export function genThumbnailVTT(
+  cues: IThumbnailSpriteCue[],
+  getSheetURL: (index: number) => string,
+) {
+  return (
+    [
+      'WEBVTT',
+      ...cues.map(
+        (c) =>
+          `${toVTTTime(c.start)} --> ${toVTTTime(c.end)}\n` +
+          `${getSheetURL(c.sheetIndex)}#xywh=${c.x},${c.y},${c.width},${c.height}`,
+      ),
+    ].join('\n\n') + '\n'
+  );
+}
+
+// 微秒 转换为 hh:mm:ss.mmm
+function toVTTTime(time: number) {
+  const ms = Math.round(time / 1e3);
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(Math.floor(ms / 3600e3))}:${pad(Math.floor(ms / 60e3) % 60)}:${pad(
+    Math.floor(ms / 1e3) % 60,
+  )}.${pad(ms % 1e3, 3)}`;
+}
@@ -0,0 +1,209 @@
+import { DEFAULT_AUDIO_CONF } from './iclip';
+
+/**
+ * 音量关键帧，`curve` 为上一个关键帧过渡到当前关键帧的曲线
+ */
+export interface IVolumeKeyframe {
+  /**
+   * 素材时间，单位 微秒
+   */
+  time: number;
+  /**
+   * 音量，1 表示原始音量
+   */
+  volume: number;
+  /**
+   * 过渡曲线，默认 'linear'；'exponential' 要求前后音量均大于 0，否则按线性过渡
+   */
+  curve?: 'linear' | 'exponential';
+}
+
+/**
+ * 固定音量，或音量关键帧（第一个关键帧之前、最后一个关键帧之后保持不变）
+ */
+export type TVolume = number | IVolumeKeyframe[];
+
+/**
+ * 音量包络
+ */
+export interface IVolumeEnvelopeOpts {
+  volume?: TVolume;
+  /**
+   * 淡入时长，单位 微秒
+   */
+  fadeIn?: number;
+  /**
+   * 淡出时长，单位 微秒
+   */
+  fadeOut?: number;
+}
+
+function normalizeKeyframes(volume: TVolume = 1): IVolumeKeyframe[] {
+  const kfs =
+    typeof volume === 'number'
+      ? [{ time: 0, volume }]
+      : [...volume].sort((a, b) => a.time - b.time);
+  for (const { volume } of kfs) {
+    if (!(volume >= 0) || !isFinite(volume)) {
+      throw Error(`Invalid volume: ${volume}, must be a non-negative number`);
+    }
+  }
+  return kfs.length === 0 ? [{ time: 0, volume: 1 }] : kfs;
+}
+
+// 关键帧曲线在 time 处的音量
+function keyframesGainAt(kfs: IVolumeKeyframe[], time: number) {
+  if (time <= kfs[0].time) return kfs[0].volume;
+  const last = kfs[kfs.length - 1];
+  if (time >= last.time) return last.volume;
+  let i = 1;
+  while (kfs[i].time < time) i += 1;
+  const from = kfs[i - 1];
+  const to = kfs[i];
+  const p = (time - from.time) / (to.time - from.time);
+  if (to.curve === 'exponential' && from.volume > 0 && to.volume > 0) {
+    return from.volume * (to.volume / from.volume) ** p;
+  }
+  return from.volume + (to.volume - from.volume) * p;
+}
+
+function fadeGainAt(
+  fadeIn: number,
+  fadeOut: number,
+  duration: number,
+  time: number,
+) {
+  let gain = 1;
+  if (fadeIn > 0 && time < fadeIn) gain *= Math.max(0, time / fadeIn);
+  if (fadeOut > 0 && time > duration - fadeOut) {
+    gain *= Math.max(0, (duration - time) / fadeOut);
+  }
+  return gain;
+}
+
+/**
+ * 创建音量包络，音量为关键帧曲线与淡入淡出的乘积
+ * @param duration 素材时长，用于计算淡出的起始时间
+ */
+export function createVolumeEnvelope(
+  opts: IVolumeEnvelopeOpts,
+  duration: number,
+) {
+  const kfs = normalizeKeyframes(opts.volume);
+  const { fadeIn = 0, fadeOut = 0 } = opts;
+  const gainAt = (time: number) =>
+    keyframesGainAt(kfs, time) * fadeGainAt(fadeIn, fadeOut, duration, time);
+
+  return {
+    /**
+     * 音量恒为 1
+     */
+    isIdentity:
+      kfs.every((k) => k.volume === 1) && !(fadeIn > 0) && !(fadeOut > 0),
+    /**
+     * 素材时间对应的音量
+     */
+    gainAt,
+    /**
+     * 逐帧应用音量，返回新的 PCM 数据
+     * @param startTime 第一帧的素材时间
+     * @param loopDuration 循环播放时单次播放的时长，每次循环重新应用包络
+     */
+    apply(pcm: Float32Array[], startTime: number, loopDuration = Infinity) {
+      const frameDur = 1e6 / DEFAULT_AUDIO_CONF.sampleRate;
+      const len = pcm[0]?.length ?? 0;
+      const gains = new Float32Array(len);
+      for (let i = 0; i < len; i++) {
+        gains[i] = gainAt((startTime + i * frameDur) % loopDuration);
+      }
+      return pcm.map((chan) => chan.map((v, i) => v * gains[i]));
+    },
+  };
+}
+
+/**
+ * 在素材时间 time 处切分音量包络，后半段的时间从 0 开始；
+ * 跨越切分点的淡入、淡出会转换为音量关键帧
+ * @param duration 切分前的素材时长
+ */
+export function splitVolumeEnvelope<T extends IVolumeEnvelopeOpts>(
+  opts: T,
+  time: number,
+  duration: number,
+): [T, T] {
+  const kfs = normalizeKeyframes(opts.volume);
+  const { fadeIn = 0, fadeOut = 0 } = opts;
+  const fadeOutStart = duration - fadeOut;
+
+  const pre: T = { ...opts, fadeOut: undefined };
+  if (fadeOut > 0 && fadeOutStart < time) {
+    pre.volume = bakeFade(kfs, 0, time, Math.max(0, fadeOutStart), (t) =>
+      fadeGainAt(0, fadeOut, duration, t),
+    );
+  } else if (typeof opts.volume === 'object') {
+    pre.volume = sliceKeyframes(kfs, 0, time);
+  }
+
+  const post: T = { ...opts, fadeIn: undefined };
+  if (fadeIn > 0 && fadeIn > time) {
+    post.volume = bakeFade(kfs, time, duration, fadeIn, (t) =>
+      fadeGainAt(fadeIn, 0, duration, t),
+    );
+  } else if (typeof opts.volume === 'object') {
+    post.volume = sliceKeyframes(kfs, time, duration);
+  }
+  return [pre, post];
+}
+
+// 截取 [from, to] 区间的关键帧，边界处补充关键帧，时间从 0 开始
+function sliceKeyframes(
+  kfs: IVolumeKeyframe[],
+  from: number,
+  to: number,
+): IVolumeKeyframe[] {
+  const inner = kfs.filter((k) => k.time > from && k.time < to);
+  // 边界关键帧沿用所在区间的曲线，曲线的子区间与原曲线一致
+  const endKf = kfs.find((k) => k.time >= to);
+  return [
+    { time: from, volume: keyframesGainAt(kfs, from) },
+    ...inner,
+    {
+      time: to,
+      volume: keyframesGainAt(kfs, to),
+      ...(endKf?.curve == null ? {} : { curve: endKf.curve }),
+    },
+  ].map((k) => ({ ...k, time: k.time - from }));
+}
+
+// 将 [from, to] 区间内的淡入淡出乘入关键帧，fadeEdge 为淡入结束或淡出开始的时间；
+// 淡入淡出区间内关键帧之间线性过渡，固定音量时结果与原包络一致
+function bakeFade(
+  kfs: IVolumeKeyframe[],
+  from: number,
+  to: number,
+  fadeEdge: number,
+  fadeGain: (time: number) => number,
+): IVolumeKeyframe[] {
+  const times = [
+    ...new Set(
+      [from, to, fadeEdge, ...kfs.map((k) => k.time)].filter(
+        (t) => t >= from && t <= to,
+      ),
+    ),
+  ].sort((a, b) => a - b);
+  return times.map((t, idx) => {
+    const kf = {
+      time: t - from,
+      volume: keyframesGainAt(kfs, t) * fadeGain(t),
+    };
+    // 淡入淡出区间之外沿用原关键帧的曲线
+    const curve = kfs.find((k) => k.time >= t)?.curve;
+    const prev = times[idx - 1];
+    return prev != null &&
+      curve != null &&
+      fadeGain(prev) === 1 &&
+      fadeGain(t) === 1
+      ? { ...kf, curve }
+      : kf;
+  });
+}
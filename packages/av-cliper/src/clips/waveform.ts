@@ -0,0 +1,192 @@
+/**
+ * 生成波形的参数
+ */
+export interface IWaveformOpts {
+  /**
+   * 每个波形点（像素）包含的音频帧数，基于标准化后的采样率（DEFAULT_AUDIO_CONF.sampleRate）
+   */
+  samplesPerPixel: number;
+  /**
+   * 起始时间，单位 微秒，默认 0
+   */
+  start?: number;
+  /**
+   * 结束时间，单位 微秒，默认素材时长
+   */
+  end?: number;
+}
+
+/**
+ * 音频波形数据
+ */
+export interface IWaveformData {
+  sampleRate: number;
+  samplesPerPixel: number;
+  /**
+   * 起始时间，单位 微秒
+   */
+  start: number;
+  /**
+   * 波形点数量
+   */
+  length: number;
+  /**
+   * 每个声道一个数组，依次存放每个波形点的 [min, max, rms]
+   */
+  channels: Float32Array[];
+}
+
+/**
+ * 逐段接收 PCM 数据，仅保留每个波形点的峰值，避免持有完整的音频数据
+ * @param chanCount 声道数，输入单声道数据时复用第一声道
+ * @param samplesPerPixel 每个波形点包含的音频帧数
+ * @param length 波形点数量，超出的数据会被丢弃
+ */
+export function createWaveformBuilder(
+  chanCount: number,
+  samplesPerPixel: number,
+  length: number,
+) {
+  if (!Number.isInteger(samplesPerPixel) || samplesPerPixel < 1) {
+    throw Error(
+      `Invalid samplesPerPixel: ${samplesPerPixel}, must be a positive integer`,
+    );
+  }
+  const channels = Array.from(
+    { length: chanCount },
+    () => new Float32Array(length * 3),
+  );
+  const min = new Float32Array(chanCount);
+  const max = new Float32Array(chanCount);
+  const sumSquares = new Float64Array(chanCount);
+  let pointIdx = 0;
+  let frameCnt = 0;
+
+  function flushPoint() {
+    if (frameCnt === 0 || pointIdx >= length) return;
+    const offset = pointIdx * 3;
+    for (let c = 0; c < chanCount; c++) {
+      channels[c][offset] = min[c];
+      channels[c][offset + 1] = max[c];
+      channels[c][offset + 2] = Math.sqrt(sumSquares[c] / frameCnt);
+    }
+    pointIdx += 1;
+    frameCnt = 0;
+  }
+
+  return {
+    push(pcm: Float32Array[]) {
+      const len = pcm[0]?.length ?? 0;
+      for (let i = 0; i < len && pointIdx < length; i++) {
+        for (let c = 0; c < chanCount; c++) {
+          const v = (pcm[c] ?? pcm[0])[i];
+          if (frameCnt === 0) {
+            min[c] = v;
+            max[c] = v;
+            sumSquares[c] = 0;
+          } else if (v < min[c]) {
+            min[c] = v;
+          } else if (v > max[c]) {
+            max[c] = v;
+          }
+          sumSquares[c] += v * v;
+        }
+        frameCnt += 1;
+        if (frameCnt >= samplesPerPixel) flushPoint();
+      }
+    },
+    /**
+     * 输出剩余不足一个波形点的数据，未接收到数据的波形点为 0
+     */
+    finish(): Pick<IWaveformData, 'length' | 'channels'> {
+      flushPoint();
+      return { length, channels };
+    },
+  };
+}
+
+/**
+ * 根据时间范围计算波形点数量
+ */
+export function calcWaveformLength(
+  start: number,
+  end: number,
+  sampleRate: number,
+  samplesPerPixel: number,
+) {
+  const frameCnt = Math.round(((end - start) / 1e6) * sampleRate);
+  return Math.max(0, Math.ceil(frameCnt / samplesPerPixel));
+}
+
+// 'WVPK'
+const WAVEFORM_MAGIC = 0x5756504b;
+const WAVEFORM_VERSION = 1;
+// 保证数据部分按 4 字节对齐
+const WAVEFORM_HEADER_SIZE = 32;
+
+/**
+ * 将波形数据编码为二进制，便于缓存（如写入 OPFS、IndexedDB）
+ *
+ * 格式（小端序）：magic(u32) version(u8) chanCount(u8) 保留(u16)
+ * sampleRate(u32) samplesPerPixel(u32) length(u32) start(f64) 保留(u32)，
+ * 之后按声道依次存放 Float32 [min, max, rms] 数据
+ */
+export function encodeWaveform(data: IWaveformData): ArrayBuffer {
+  const chanSize = data.length * 3 * 4;
+  const buf = new ArrayBuffer(
+    WAVEFORM_HEADER_SIZE + chanSize * data.channels.length,
+  );
+  const view = new DataView(buf);
+  view.setUint32(0, WAVEFORM_MAGIC, true);
+  view.setUint8(4, WAVEFORM_VERSION);
+  view.setUint8(5, data.channels.length);
+  view.setUint32(8, data.sampleRate, true);
+  view.setUint32(12, data.samplesPerPixel, true);
+  view.setUint32(16, data.length, true);
+  view.setFloat64(20, data.start, true);
+  data.channels.forEach((chan, idx) => {
+    new Float32Array(buf, WAVEFORM_HEADER_SIZE + chanSize * idx).set(
+      chan.subarray(0, data.length * 3),
+    );
+  });
+  return buf;
+}
+
+/**
+ * 解析 {@link encodeWaveform} 生成的二进制数据
+ */
+export function decodeWaveform(buf: ArrayBuffer): IWaveformData {
+  const view = new DataView(buf);
+  if (
+    buf.byteLength < WAVEFORM_HEADER_SIZE ||
+    view.getUint32(0, true) !== WAVEFORM_MAGIC
+  ) {
+    throw Error('Invalid waveform data');
+  }
+  const version = view.getUint8(4);
+  if (version !== WAVEFORM_VERSION) {
+    throw Error(`Unsupported waveform data version: ${version}`);
+  }
+  const chanCount = view.getUint8(5);
+  const length = view.getUint32(16, true);
+  const chanSize = length * 3 * 4;
+  if (buf.byteLength < WAVEFORM_HEADER_SIZE + chanSize * chanCount) {
+    throw Error('Invalid waveform data');
+  }
+  return {
+    sampleRate: view.getUint32(8, true),
+    samplesPerPixel: view.getUint32(12, true),
+    start: view.getFloat64(20, true),
+    length,
+    channels: Array.from(
+      { length: chanCount },
+      (_, idx) =>
+        new Float32Array(
+          buf.slice(
+            WAVEFORM_HEADER_SIZE + chanSize * idx,
+            WAVEFORM_HEADER_SIZE + chanSize * (idx + 1),
+          ),
+        ),
+    ),
+  };
+}
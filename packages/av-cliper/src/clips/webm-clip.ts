@@ -0,0 +1,265 @@
+import { file, tmpfile, write } from 'opfs-tools';
+import { Log } from '../log';
+import {
+  WebMSample,
+  extractWebMDecoderConf,
+  parseWebMStream,
+} from '../webm-utils/webm-demuxer';
+import { IClip } from './iclip';
+import { MP4Clip } from './mp4-clip';
+
+let CLIP_ID = 0;
+
+type OPFSToolFile = ReturnType<typeof file>;
+function isOTFile(obj: any): obj is OPFSToolFile {
+  return obj.kind === 'file' && obj.createReader instanceof Function;
+}
+
+type WebMClipOpts = NonNullable<ConstructorParameters<typeof MP4Clip>[1]>;
+
+// MP4Clip 内部使用的样本表
+type MP4ClipSource = Extract<
+  ConstructorParameters<typeof MP4Clip>[0],
+  { videoSamples: unknown }
+>;
+type ExtSample = MP4ClipSource['videoSamples'][number];
+
+/**
+ * WebM（Matroska）素材，支持 VP8、VP9、AV1 视频及 Opus、Vorbis 音频
+ *
+ * 解析后的数据与 {@link MP4Clip} 共用解码逻辑，tick、split、clone、thumbnails、splitTrack 的行为与 MP4Clip 一致
+ *
+ * @example
+ * new WebMClip((await fetch('<webm url>')).body)
+ * // MediaRecorder 录制的视频
+ * new WebMClip(new Blob(chunks).stream())
+ */
+export class WebMClip implements IClip {
+  #log = Log.create(`WebMClip id:${CLIP_ID++},`);
+
+  ready: IClip['ready'];
+
+  #clip: MP4Clip | null = null;
+
+  get meta() {
+    return (
+      this.#clip?.meta ?? {
+        duration: 0,
+        width: 0,
+        height: 0,
+        rotation: 0,
+        audioSampleRate: 0,
+        audioChanCount: 0,
+      }
+    );
+  }
+
+  /**
+   * 文件包含的视频、音频轨道，同 {@link MP4Clip.tracks}
+   */
+  get tracks() {
+    return this.#clip?.tracks ?? [];
+  }
+
+  #opts: WebMClipOpts;
+
+  /**
+   * @param source WebM 文件流、OPFS 文件；MP4Clip 仅供内部使用
+   * @param opts 与 MP4Clip 的配置项相同
+   */
+  constructor(
+    source: OPFSToolFile | ReadableStream<Uint8Array> | MP4Clip,
+    opts: WebMClipOpts = { audio: true },
+  ) {
+    if (
+      !(source instanceof ReadableStream) &&
+      !isOTFile(source) &&
+      !(source instanceof MP4Clip)
+    ) {
+      throw Error('Illegal argument');
+    }
+    this.#opts = { ...opts };
+
+    if (source instanceof MP4Clip) {
+      this.#clip = source;
+      this.ready = source.ready;
+      return;
+    }
+
+    const localFile = isOTFile(source) ? source : tmpfile();
+    const clipOpts = this.#opts;
+    this.ready = (async () => {
+      if (source instanceof ReadableStream) await write(localFile, source);
+      const clip = new MP4Clip(
+        await parseWebMFile(localFile, clipOpts),
+        clipOpts,
+      );
+      this.#clip = clip;
+      const meta = await clip.ready;
+      this.#log.info('WebMClip meta:', meta);
+      return meta;
+    })();
+  }
+
+  /**
+   * 拦截 {@link WebMClip.tick} 方法返回的数据，用于对图像、音频数据二次处理
+   * @param time 调用 tick 的时间
+   * @param tickRet tick 返回的数据
+   */
+  tickInterceptor: <T extends Awaited<ReturnType<MP4Clip['tick']>>>(
+    time: number,
+    tickRet: T,
+  ) => Promise<T> = async (_, tickRet) => tickRet;
+
+  /**
+   * 同 {@link MP4Clip.setVisible}
+   */
+  setVisible(visible: boolean) {
+    this.#clip?.setVisible(visible);
+  }
+
+  /**
+   * 获取素材指定时刻的图像帧、音频数据
+   * @param time 微秒
+   */
+  async tick(time: number): ReturnType<MP4Clip['tick']> {
+    if (this.#clip == null) throw Error('WebMClip not ready');
+    return await this.tickInterceptor(time, await this.#clip.tick(time));
+  }
+
+  /**
+   * 生成缩略图，参数及返回值与 {@link MP4Clip.thumbnails} 相同
+   */
+  async thumbnails(
+    ...args: Parameters<MP4Clip['thumbnails']>
+  ): ReturnType<MP4Clip['thumbnails']> {
+    await this.ready;
+    return await this.#clip!.thumbnails(...args);
+  }
+
+  /**
+   * 生成缩略图图集，参数及返回值与 {@link MP4Clip.thumbnailSprites} 相同
+   */
+  async thumbnailSprites(
+    ...args: Parameters<MP4Clip['thumbnailSprites']>
+  ): ReturnType<MP4Clip['thumbnailSprites']> {
+    await this.ready;
+    return await this.#clip!.thumbnailSprites(...args);
+  }
+
+  /**
+   * 生成音频波形，参数及返回值与 {@link MP4Clip.waveform} 相同
+   */
+  async waveform(
+    ...args: Parameters<MP4Clip['waveform']>
+  ): ReturnType<MP4Clip['waveform']> {
+    await this.ready;
+    return await this.#clip!.waveform(...args);
+  }
+
+  /**
+   * 检测镜头切换，参数及返回值与 {@link MP4Clip.detectScenes} 相同
+   */
+  async detectScenes(
+    ...args: Parameters<MP4Clip['detectScenes']>
+  ): ReturnType<MP4Clip['detectScenes']> {
+    await this.ready;
+    return await this.#clip!.detectScenes(...args);
+  }
+
+  async split(time: number) {
+    await this.ready;
+    const [preClip, postClip] = await this.#clip!.split(time);
+    return [this.#wrap(preClip), this.#wrap(postClip)] as [this, this];
+  }
+
+  async clone() {
+    await this.ready;
+    return this.#wrap(await this.#clip!.clone()) as this;
+  }
+
+  /**
+   * 拆分 WebMClip 为仅包含视频轨道和音频轨道的 WebMClip
+   * @returns WebMClip[]
+   */
+  async splitTrack() {
+    await this.ready;
+    return (await this.#clip!.splitTrack()).map((c) => this.#wrap(c));
+  }
+
+  #wrap(clip: MP4Clip) {
+    const webmClip = new WebMClip(clip, this.#opts);
+    webmClip.tickInterceptor = this.tickInterceptor;
+    return webmClip;
+  }
+
+  destroy(): void {
+    this.#log.info('WebMClip destroy');
+    this.#clip?.destroy();
+  }
+}
+
+async function parseWebMFile(
+  localFile: OPFSToolFile,
+  opts: WebMClipOpts,
+): Promise<MP4ClipSource> {
+  const { tracks, samples } = await parseWebMStream(await localFile.stream(), {
+    // 与 MP4Clip 一致，音频数据量可控，直接保存在内存中
+    keepData: (t) => t.type === 'audio' && opts.audio !== false,
+  });
+  const conf = extractWebMDecoderConf(tracks);
+  if (conf.video == null && conf.audio == null) {
+    throw Error('WebMClip must contain at least one video or audio track');
+  }
+
+  const vTrackNum = conf.video == null ? -1 : conf.videoTrack!.number;
+  const aTrackNum =
+    conf.audio == null || opts.audio === false ? -1 : conf.audioTrack!.number;
+  const videoSamples = samples.filter((s) => s.trackNumber === vTrackNum);
+  const audioSamples = samples.filter((s) => s.trackNumber === aTrackNum);
+  if (videoSamples.length === 0 && audioSamples.length === 0) {
+    throw Error('WebMClip stream not contain any sample');
+  }
+
+  // 所有轨道共用同一时间轴，以最早的帧作为起点
+  const startTime = Math.min(
+    videoSamples[0]?.timestamp ?? Infinity,
+    audioSamples[0]?.timestamp ?? Infinity,
+  );
+  // 与 MP4 的 sample entry 类型对应，用于区分编码格式
+  const videoType = conf.video?.codec.startsWith('av01')
+    ? 'av01'
+    : conf.video?.codec === 'vp8'
+      ? 'vp08'
+      : 'vp09';
+  const toExtSample = (s: WebMSample, isVideo: boolean): ExtSample => ({
+    track_id: s.trackNumber,
+    description: { type: isVideo ? videoType : conf.audio?.codec ?? '' },
+    is_rap: s.isKey,
+    is_sync: s.isKey,
+    is_idr: isVideo && s.isKey,
+    timescale: 1e6,
+    cts: s.timestamp - startTime,
+    dts: s.timestamp - startTime,
+    duration: s.duration,
+    offset: s.offset,
+    size: s.size,
+    data: s.data,
+  });
+
+  return {
+    localFile,
+    videoSamples: videoSamples.map((s) => toExtSample(s, true)),
+    audioSamples: audioSamples.map((s) => toExtSample(s, false)),
+    decoderConf: { video: conf.video, audio: conf.audio },
+    tracks: tracks.map((t) => ({
+      id: t.number,
+      type: t.type,
+      codec: t.codecId,
+      language: 'und',
+      ...(t.video ?? {}),
+      ...(t.audio ?? {}),
+    })),
+    textTrackCues: {},
+  };
+}
@@ -1,22 +1,51 @@
 import { OffscreenSprite } from './sprite/offscreen-sprite';
-import { file2stream, recodemux } from './mp4-utils';
+import { fastConcatMP4, file2stream, recodemux } from './mp4-utils';
+import { recodemuxWebM, webm2stream } from './webm-utils/webm-recodemux';
+import { recodemuxOgg } from './ogg-utils/ogg-muxer';
+import { recodemuxWAV } from './wav-utils/wav-writer';
 import { Log } from './log';
 import { mixinPCM, sleep } from './av-utils';
 import { EventTool } from './event-tool';
-import { DEFAULT_AUDIO_CONF } from './clips';
+import { DEFAULT_AUDIO_CONF, MP4Clip } from './clips';
+import {
+  ITransitionOpts,
+  applyAudioGain,
+  checkTransition,
+  createTransitionRenderer,
+  getTransitionRange,
+  getTransitionState,
+} from './sprite/transition';
+import { ISmartRenderSpan, planSmartRender } from './smart-render';
 
-interface ICombinatorOpts {
+export interface ICombinatorOpts {
   width?: number;
   height?: number;
   bitrate?: number;
   bgColor?: string;
+  /**
+   * 输出文件的封装格式，默认 mp4；webm 仅支持 VP8、VP9、AV1 视频编码，音频编码为 Opus
+   *
+   * m4a（AAC）、ogg（Opus）、wav（16 位 PCM）仅输出音频，此时 width、height 需为 0
+   */
+  container?: 'mp4' | 'webm' | 'm4a' | 'ogg' | 'wav';
+  /**
+   * 视频编码格式，mp4 默认 avc1.42E032，webm 默认 vp09.00.10.08
+   */
   videoCodec?: string;
+  /**
+   * 输出视频的帧率，默认 30；帧时间由帧序号计算，长视频不会累积误差
+   */
+  fps?: number;
+  /**
+   * 关键帧间隔，数字表示帧数，字符串表示秒数（如 '2s'），默认 150 帧
+   */
+  keyFrameInterval?: number | `${number}s`;
   /**
    * false 合成的视频文件中排除音轨
    */
   audio?: false;
   /**
-   * 向输出的视频中写入 meta tags 数据
+   * 向输出的视频中写入 meta tags 数据，仅支持 mp4
    */
   metaDataTags?: Record<string, string>;
   /**
@@ -25,8 +54,147 @@ interface ICombinatorOpts {
   __unsafe_hardwareAcceleration__?: HardwarePreference;
 }
 
+/**
+ * 输出进度详情，OutputProgress 事件的第二个参数
+ */
+export interface ICombinatorProgress {
+  /**
+   * 进度 0 ~ 1
+   */
+  progress: number;
+  /**
+   * 已合成的时长，单位 微秒
+   */
+  currentTime: number;
+  /**
+   * 已绘制的帧数
+   */
+  framesRendered: number;
+  /**
+   * 视频编码器已输出的帧数，直接复制编码数据（smart render）的帧不计入；没有视频轨道时为 0
+   */
+  framesEncoded: number;
+  /**
+   * 编码器队列长度
+   */
+  encodeQueueSize: number;
+  /**
+   * 输出流已写入的字节数；webm、ogg、wav 在合成结束后才开始写入
+   */
+  bytesWritten: number;
+  /**
+   * 已耗时（不含暂停时间），单位 毫秒
+   */
+  elapsed: number;
+  /**
+   * 合成速度与实时播放速度之比，大于 1 表示快于实时
+   */
+  realtimeFactor: number;
+  /**
+   * 预计剩余时间，单位 毫秒；无法估算时为 -1
+   */
+  eta: number;
+  /**
+   * 当前帧绘制的 Sprite 数量
+   */
+  activeSprites: number;
+  /**
+   * 最近一个统计周期（500ms）内平均每帧绘制 Sprite 的耗时，单位 毫秒
+   */
+  avgRenderCost: number;
+}
+
+/**
+ * 输出结束后的统计报告，OutputEnded 事件的参数
+ */
+export interface ICombinatorReport {
+  /**
+   * 输出的时长，单位 微秒
+   */
+  duration: number;
+  framesRendered: number;
+  /**
+   * 总耗时（不含暂停时间），单位 毫秒
+   */
+  elapsed: number;
+  /**
+   * 暂停的总时长，单位 毫秒
+   */
+  pausedTime: number;
+  realtimeFactor: number;
+  /**
+   * 平均每帧绘制 Sprite 的耗时，单位 毫秒
+   */
+  avgRenderCost: number;
+  /**
+   * 编码器队列长度的最大值
+   */
+  maxEncodeQueueSize: number;
+}
+
+/**
+ * 时间轴中的一段，由 {@link Combinator.splitSegments} 生成，时间单位 微秒
+ */
+export interface ICombinatorSegment {
+  start: number;
+  end: number;
+  /**
+   * 是否为最后一段，非最后一段不包含 end 时刻的帧
+   */
+  last: boolean;
+  /**
+   * 是否直接复制素材的编码数据；各段需一致，拼接后才能使用同一份视频编码参数
+   */
+  passThrough: boolean;
+}
+
+// 合成循环的统计数据
+interface IRunStats {
+  currentTime: number;
+  framesRendered: number;
+  activeSprites: number;
+  // 累计绘制 Sprite 的耗时，毫秒
+  renderCost: number;
+  maxEncodeQueueSize: number;
+}
+
+export type TCombinatorEvents = {
+  OutputProgress: (progress: number, detail: ICombinatorProgress) => void;
+  OutputEnded: (report: ICombinatorReport) => void;
+  error: (err: Error) => void;
+  paused: () => void;
+  resumed: () => void;
+  aborted: (reason: unknown) => void;
+};
+
 let COM_ID = 0;
 
+type TRecodeMuxer = Pick<
+  ReturnType<typeof recodemux>,
+  'encodeAudio' | 'getEncodeQueueSize' | 'flush' | 'close'
+> &
+  Partial<
+    Pick<
+      ReturnType<typeof recodemux>,
+      'encodeVideo' | 'addVideoSamples' | 'getEncodedVideoFrames'
+    >
+  >;
+
+type TCombinatorSprite = OffscreenSprite & { main: boolean; expired: boolean };
+
+// 合成的时间区间；非最后一段不包含 end 时刻的帧
+interface ITimeRange {
+  start: number;
+  end: number;
+  last: boolean;
+}
+
+const AUDIO_ONLY_CONTAINERS = ['m4a', 'ogg', 'wav'];
+
+// 分段输出时分界处需对齐 AAC 帧（1024 个采样），48kHz 下每 3 帧为 64ms，时间恰为整数微秒；
+// 非第一段额外编码分界前这段时长的音频用于编码器预热，输出时丢弃
+const AUDIO_SEGMENT_ALIGN = (3 * 1024 * 1e6) / DEFAULT_AUDIO_CONF.sampleRate;
+
 /**
  * 避免 VideoEncoder 队列中的 VideoFrame 过多，打爆显存
  */
@@ -96,7 +264,16 @@ export class Combinator {
 
   #destroyed = false;
 
-  #sprites: Array<OffscreenSprite & { main: boolean; expired: boolean }> = [];
+  #sprites: TCombinatorSprite[] = [];
+
+  // 添加的 Sprite 与内部克隆的 Sprite 的映射
+  #spriteMap = new WeakMap<OffscreenSprite, TCombinatorSprite>();
+
+  #transitions: Array<{
+    from: TCombinatorSprite;
+    to: TCombinatorSprite;
+    opts: ITransitionOpts;
+  }> = [];
 
   #cvs;
 
@@ -105,14 +282,18 @@ export class Combinator {
   // 中断输出
   #stopOutput: (() => void) | null = null;
 
+  // 暂停输出时，合成循环等待该 Promise
+  #pausePromise: Promise<void> | null = null;
+  #resumeOutput: (() => void) | null = null;
+  #pauseStartAt = 0;
+  // 暂停的总时长，毫秒
+  #pausedTime = 0;
+
   #opts: Required<ICombinatorOpts>;
 
   #hasVideoTrack: boolean;
 
-  #evtTool = new EventTool<{
-    OutputProgress: (progress: number) => void;
-    error: (err: Error) => void;
-  }>();
+  #evtTool = new EventTool<TCombinatorEvents>();
   on = this.#evtTool.on;
 
   /**
@@ -131,15 +312,28 @@ export class Combinator {
         bgColor: '#000',
         width: 0,
         height: 0,
-        videoCodec: 'avc1.42E032',
+        container: 'mp4',
+        videoCodec: opts.container === 'webm' ? 'vp09.00.10.08' : 'avc1.42E032',
+        fps: 30,
+        keyFrameInterval: 150,
         audio: true,
         bitrate: 5e6,
         metaDataTags: null,
       },
       opts,
     );
+    if (!(this.#opts.fps > 0)) throw Error(`Invalid fps: ${this.#opts.fps}`);
 
     this.#hasVideoTrack = width * height > 0;
+    const { container } = this.#opts;
+    if (AUDIO_ONLY_CONTAINERS.includes(container)) {
+      if (this.#hasVideoTrack) {
+        throw Error(`${container} container does not support video track`);
+      }
+      if (this.#opts.audio === false) {
+        throw Error(`${container} container requires audio track`);
+      }
+    }
   }
 
   /**
@@ -154,26 +348,165 @@ export class Combinator {
     this.#log.info('Combinator add sprite', os);
     const newOS = await os.clone();
     this.#log.info('Combinator add sprite ready', os);
-    this.#sprites.push(
-      Object.assign(newOS, {
-        main: opts.main ?? false,
-        expired: false,
+    const spr = Object.assign(newOS, {
+      main: opts.main ?? false,
+      expired: false,
+    });
+    this.#spriteMap.set(os, spr);
+    this.#sprites.push(spr);
+    this.#sprites.sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  /**
+   * 在两个已添加的 Sprite 之间添加转场效果，转场区间以 to 的开始时间为中心
+   *
+   * 超出素材时间范围的部分停留在首、尾帧，音频同步交叉淡化
+   * @param from 前一个 Sprite
+   * @param to 后一个 Sprite，开始时间需晚于 from
+   * @param opts 转场配置
+   *
+   * @example
+   * await com.addSprite(spr1);
+   * await com.addSprite(spr2);
+   * com.addTransition(spr1, spr2, { name: 'crossfade', duration: 1e6 });
+   */
+  addTransition(
+    from: OffscreenSprite,
+    to: OffscreenSprite,
+    opts: ITransitionOpts,
+  ): void {
+    const fromSpr = this.#spriteMap.get(from);
+    const toSpr = this.#spriteMap.get(to);
+    if (fromSpr == null || toSpr == null) {
+      throw Error('Transition sprites must be added by addSprite first');
+    }
+    checkTransition(fromSpr, toSpr, opts);
+    this.#transitions.push({ from: fromSpr, to: toSpr, opts });
+  }
+
+  /**
+   * 分析可直接复制编码数据的区间（smart render），仅支持输出 H.264 编码的 mp4
+   *
+   * 全屏、未变换（位置、旋转、透明度、翻转、动画）且分辨率与输出一致的 {@link MP4Clip} 可直接复制
+   */
+  #planSmartRender(range: ITimeRange): ISmartRenderSpan[] {
+    const { width, height, container, videoCodec } = this.#opts;
+    if (
+      container !== 'mp4' ||
+      !this.#hasVideoTrack ||
+      !/^avc[13]\./.test(videoCodec)
+    ) {
+      return [];
+    }
+
+    const transSprites = this.#transitions.flatMap(({ from, to }) => [
+      from,
+      to,
+    ]);
+    return planSmartRender(
+      this.#sprites.map((s) => {
+        const clip = s.getClip();
+        const { x, y, w, h, angle } = s.rect;
+        const untransformed =
+          x === 0 &&
+          y === 0 &&
+          w === width &&
+          h === height &&
+          angle === 0 &&
+          s.opacity === 1 &&
+          s.flip == null &&
+          !s.hasAnimation &&
+          // 转场中的素材需要与另一个素材一起合成
+          !transSprites.includes(s);
+        const info =
+          untransformed && clip instanceof MP4Clip
+            ? clip.getPassThroughInfo()
+            : null;
+        return {
+          time: s.time,
+          visual: clip.meta.width > 0 && clip.meta.height > 0,
+          gops:
+            info != null && info.width === width && info.height === height
+              ? info.gops
+              : null,
+        };
       }),
+      {
+        maxTime: range.end,
+        blocked: [
+          // 分段输出时，区间之前的部分由其他子合成器输出
+          { start: -Infinity, end: range.start },
+          ...this.#transitions.map(({ to, opts }) =>
+            getTransitionRange(to, opts),
+          ),
+        ],
+      },
     );
-    this.#sprites.sort((a, b) => a.zIndex - b.zIndex);
   }
 
-  #startRecodeMux(duration: number) {
-    const { width, height, videoCodec, bitrate, audio, metaDataTags } =
-      this.#opts;
-    const recodeMuxer = recodemux({
+  /**
+   * 将需要直接复制编码数据的素材拆分为仅包含视频、音频轨道的素材，复制区间内只需解码音频
+   */
+  async #prepareSmartRender(spans: ISmartRenderSpan[]) {
+    const origins = [...this.#sprites];
+    const splited = new Map<
+      number,
+      { sprite: TCombinatorSprite; clip: MP4Clip; description: Uint8Array }
+    >();
+    for (const idx of new Set(spans.map((it) => it.spriteIdx))) {
+      const origin = origins[idx];
+      const clips = await (origin.getClip() as MP4Clip).splitTrack();
+      const [videoSpr, ...audioSprs] = await Promise.all(
+        clips.map(async (clip, i) => {
+          const spr = new OffscreenSprite(clip);
+          await spr.ready;
+          origin.copyStateTo(spr);
+          return Object.assign(spr, {
+            main: i === 0 && origin.main,
+            expired: false,
+          });
+        }),
+      );
+      this.#sprites.splice(
+        this.#sprites.indexOf(origin),
+        1,
+        videoSpr,
+        ...audioSprs,
+      );
+      origin.destroy();
+      splited.set(idx, {
+        sprite: videoSpr,
+        clip: clips[0],
+        description: clips[0].getPassThroughInfo()!.description,
+      });
+    }
+    return spans.map((span) => ({
+      ...span,
+      gops: [...span.gops],
+      ...splited.get(span.spriteIdx)!,
+    }));
+  }
+
+  #startRecodeMux(duration: number, passThrough: boolean, last: boolean) {
+    const {
+      width,
+      height,
+      videoCodec,
+      bitrate,
+      audio,
+      metaDataTags,
+      fps,
+      container,
+    } = this.#opts;
+    const muxOpts = {
       video: this.#hasVideoTrack
         ? {
             width,
             height,
-            expectFPS: 30,
+            expectFPS: fps,
             codec: videoCodec,
             bitrate,
+            passThrough,
             __unsafe_hardwareAcceleration__:
               this.#opts.__unsafe_hardwareAcceleration__,
           }
@@ -182,57 +515,200 @@ export class Combinator {
         audio === false
           ? null
           : {
-              codec: 'aac',
+              codec:
+                container === 'webm' || container === 'ogg'
+                  ? ('opus' as const)
+                  : ('aac' as const),
               sampleRate: DEFAULT_AUDIO_CONF.sampleRate,
               channelCount: DEFAULT_AUDIO_CONF.channelCount,
+              // 非最后一段的音频截止到分段结束时刻，与下一段首尾相接
+              endTime: last ? undefined : duration,
             },
       duration,
       metaDataTags: metaDataTags,
-    });
-    return recodeMuxer;
+    };
+
+    if (container === 'ogg' || container === 'wav') {
+      const remux =
+        container === 'ogg'
+          ? recodemuxOgg(muxOpts.audio!)
+          : recodemuxWAV(muxOpts.audio!);
+      return {
+        remux: remux as TRecodeMuxer,
+        // 与 WebM 相同，结束后才能输出完整文件
+        createStream: (onCancel: () => void) =>
+          webm2stream(remux.output, onCancel),
+      };
+    }
+    if (container === 'webm') {
+      const remux = recodemuxWebM(muxOpts);
+      return {
+        remux,
+        createStream: (onCancel: () => void) =>
+          webm2stream(remux.output, onCancel),
+      };
+    }
+    const remux = recodemux(muxOpts);
+    return {
+      remux,
+      createStream: (onCancel: () => void) =>
+        file2stream(remux.mp4file, 500, onCancel),
+    };
   }
 
   /**
-   * 输出视频文件二进制流
+   * 在关键帧处将时间轴拆分为最多 count 段，各段可分别输出（{@link Combinator.output} 的 segment 参数），
+   * 再按顺序使用 {@link fastConcatMP4} 拼接为与顺序输出一致的文件；仅支持 mp4、m4a
+   *
+   * 包含音频时分界处同时对齐 AAC 帧，无法对齐时段数会少于 count；
+   * `WorkerCombinator` 的 parallel 参数基于此在多个 Worker 中并行输出
    */
-  output(): ReadableStream<Uint8Array> {
+  splitSegments(count: number): ICombinatorSegment[] {
+    const { container, fps, keyFrameInterval, audio } = this.#opts;
+    if (!Number.isInteger(count) || count < 1) {
+      throw Error(`Invalid segment count: ${count}`);
+    }
+    this.#checkSegmentContainer();
     if (this.#sprites.length === 0) throw Error('No sprite added');
-
-    const mainSpr = this.#sprites.find((it) => it.main);
-    // 最大时间，优先取 main sprite，不存在则取最大值
-    const maxTime =
-      mainSpr != null
-        ? mainSpr.time.offset + mainSpr.time.duration
-        : Math.max(
-            ...this.#sprites.map((it) => it.time.offset + it.time.duration),
-          );
-    if (maxTime === Infinity) {
-      throw Error(
-        'Unable to determine the end time, please specify a main sprite, or limit the duration of ImgClip, AudioCli',
-      );
+    const maxTime = this.#getMaxTime();
+    if (!(maxTime > 0)) {
+      throw Error('Segmented output requires a determined end time');
     }
-    // 主视频（main）的 videoTrack duration 值为 0
-    if (maxTime === -1) {
-      this.#log.warn(
-        "Unable to determine the end time, process value don't update",
-      );
+
+    const bounds = splitTimeline(
+      maxTime,
+      count,
+      fps,
+      this.#hasVideoTrack ? parseKeyFrameInterval(keyFrameInterval, fps) : 1,
+      audio === false ? 1 : AUDIO_SEGMENT_ALIGN,
+    );
+    this.#log.info(`${container} output segments:`, bounds);
+    const passThrough =
+      this.#planSmartRender({ start: 0, end: maxTime, last: true }).length > 0;
+    return bounds.slice(1).map((end, idx) => ({
+      start: bounds[idx],
+      end,
+      last: idx === bounds.length - 2,
+      passThrough,
+    }));
+  }
+
+  #checkSegmentContainer() {
+    const { container } = this.#opts;
+    if (container !== 'mp4' && container !== 'm4a') {
+      throw Error(`${container} container does not support segmented output`);
     }
+  }
 
-    this.#log.info(`start combinate video, maxTime:${maxTime}`);
-    const remux = this.#startRecodeMux(maxTime);
+  /**
+   * 输出视频文件二进制流
+   * @param opts.signal 用于取消输出，取消后输出流以 AbortError（DOMException）结束，并触发 aborted 事件
+   * @param opts.segment 仅输出 {@link Combinator.splitSegments} 生成的一段
+   *
+   * @example
+   * const ctrl = new AbortController();
+   * const stream = com.output({ signal: ctrl.signal });
+   * ctrl.abort();
+   *
+   * @example
+   * // 分段输出后拼接；各段可由不同的 Combinator 实例（如不同 Worker 中）输出
+   * const streams = com.splitSegments(4).map((segment) => {
+   *   const segCom = new Combinator(opts);
+   *   // 添加相同的 Sprite、转场...
+   *   return segCom.output({ segment });
+   * });
+   * const stream = await fastConcatMP4(streams);
+   */
+  output(
+    opts: { signal?: AbortSignal; segment?: ICombinatorSegment } = {},
+  ): ReadableStream<Uint8Array> {
+    const { signal, segment } = opts;
+    if (signal?.aborted) throw createAbortError();
+    if (this.#sprites.length === 0) throw Error('No sprite added');
+    if (segment != null) this.#checkSegmentContainer();
+
+    const range = segment ?? {
+      start: 0,
+      end: this.#getMaxTime(),
+      last: true,
+    };
+    // 输出的时长
+    const maxTime = range.end === -1 ? -1 : range.end - range.start;
+
+    this.#log.info(`start combinate video, range:${range.start}~${range.end}`);
+    const smartRender = this.#planSmartRender(range);
+    this.#log.info('smart render spans:', smartRender);
+    const { remux, createStream } = this.#startRecodeMux(
+      maxTime,
+      segment?.passThrough ?? smartRender.length > 0,
+      range.last,
+    );
     let starTime = performance.now();
-    const stopReCodeMux = this.#run(remux, maxTime, {
-      onProgress: (prog) => {
-        this.#log.debug('OutputProgress:', prog);
-        this.#evtTool.emit('OutputProgress', prog);
+    let bytesWritten = 0;
+    // 上一统计周期的绘制数据，用于计算周期内的平均绘制耗时
+    let lastPeriod = { frames: 0, renderCost: 0 };
+    const createProgress = (
+      prog: number,
+      stats: IRunStats,
+    ): ICombinatorProgress => {
+      const elapsed = this.#getElapsed(starTime);
+      const realtimeFactor =
+        elapsed > 0 ? stats.currentTime / 1e3 / elapsed : 0;
+      const encodeQueueSize = remux.getEncodeQueueSize();
+      const periodFrames = stats.framesRendered - lastPeriod.frames;
+      const avgRenderCost =
+        periodFrames > 0
+          ? (stats.renderCost - lastPeriod.renderCost) / periodFrames
+          : 0;
+      lastPeriod = {
+        frames: stats.framesRendered,
+        renderCost: stats.renderCost,
+      };
+      return {
+        progress: prog,
+        currentTime: stats.currentTime,
+        framesRendered: stats.framesRendered,
+        framesEncoded: remux.getEncodedVideoFrames?.() ?? 0,
+        encodeQueueSize,
+        bytesWritten,
+        elapsed,
+        realtimeFactor,
+        eta:
+          maxTime > 0 && realtimeFactor > 0
+            ? Math.max(0, maxTime - stats.currentTime) / 1e3 / realtimeFactor
+            : -1,
+        activeSprites: stats.activeSprites,
+        avgRenderCost,
+      };
+    };
+    const stopReCodeMux = this.#run(remux, range, smartRender, {
+      onProgress: (prog, stats) => {
+        const detail = createProgress(prog, stats);
+        this.#log.debug('OutputProgress:', detail);
+        this.#evtTool.emit('OutputProgress', prog, detail);
       },
-      onEnded: async () => {
+      onEnded: async (stats) => {
         await remux.flush();
         this.#log.info(
           '===== output ended =====, cost:',
           performance.now() - starTime,
         );
-        this.#evtTool.emit('OutputProgress', 1);
+        this.#evtTool.emit('OutputProgress', 1, createProgress(1, stats));
+        const elapsed = this.#getElapsed(starTime);
+        const report: ICombinatorReport = {
+          duration: stats.currentTime,
+          framesRendered: stats.framesRendered,
+          elapsed,
+          pausedTime: this.#pausedTime,
+          realtimeFactor: elapsed > 0 ? stats.currentTime / 1e3 / elapsed : 0,
+          avgRenderCost:
+            stats.framesRendered > 0
+              ? stats.renderCost / stats.framesRendered
+              : 0,
+          maxEncodeQueueSize: stats.maxEncodeQueueSize,
+        };
+        this.#log.info('output report:', report);
+        this.#evtTool.emit('OutputEnded', report);
         this.destroy();
       },
       onError: (err) => {
@@ -242,18 +718,97 @@ export class Combinator {
       },
     });
 
+    const onAbort = () => {
+      this.#log.info('output aborted');
+      stopReCodeMux();
+      remux.close();
+      closeOutStream(createAbortError());
+      this.#evtTool.emit('aborted', signal?.reason);
+      this.destroy();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     this.#stopOutput = () => {
+      signal?.removeEventListener('abort', onAbort);
+      // 避免暂停中的合成循环无法退出
+      this.#resumeOutput?.();
       stopReCodeMux();
       remux.close();
       closeOutStream();
     };
-    const { stream, stop: closeOutStream } = file2stream(
-      remux.mp4file,
-      500,
-      this.destroy,
+    const { stream, stop: closeOutStream } = createStream(this.destroy);
+
+    // 统计输出的字节数
+    return stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, ctrl) => {
+          bytesWritten += chunk.byteLength;
+          ctrl.enqueue(chunk);
+        },
+      }),
+    );
+  }
+
+  #getMaxTime() {
+    const mainSpr = this.#sprites.find((it) => it.main);
+    // 最大时间，优先取 main sprite，不存在则取最大值
+    const maxTime =
+      mainSpr != null
+        ? mainSpr.time.offset + mainSpr.time.duration
+        : Math.max(
+            ...this.#sprites.map((it) => it.time.offset + it.time.duration),
+          );
+    if (maxTime === Infinity) {
+      throw Error(
+        'Unable to determine the end time, please specify a main sprite, or limit the duration of ImgClip, AudioCli',
+      );
+    }
+    // 主视频（main）的 videoTrack duration 值为 0
+    if (maxTime === -1) {
+      this.#log.warn(
+        "Unable to determine the end time, process value don't update",
+      );
+    }
+    return maxTime;
+  }
+
+  // 已耗时，不含暂停时间，毫秒
+  #getElapsed(startTime: number) {
+    return (
+      performance.now() -
+      startTime -
+      this.#pausedTime -
+      (this.#pausePromise == null ? 0 : performance.now() - this.#pauseStartAt)
     );
+  }
+
+  /**
+   * 暂停正在进行的输出，已合成的数据会保留，调用 {@link Combinator.resume} 后继续
+   */
+  pause(): void {
+    if (this.#stopOutput == null || this.#destroyed) {
+      throw Error('Combinator is not outputting');
+    }
+    if (this.#pausePromise != null) return;
+    this.#pausePromise = new Promise((resolve) => {
+      this.#resumeOutput = resolve;
+    });
+    this.#pauseStartAt = performance.now();
+    this.#log.info('output paused');
+    this.#evtTool.emit('paused');
+  }
 
-    return stream;
+  /**
+   * 恢复已暂停的输出
+   */
+  resume(): void {
+    if (this.#pausePromise == null) return;
+    this.#resumeOutput?.();
+    this.#pausePromise = null;
+    this.#resumeOutput = null;
+    this.#pausedTime += performance.now() - this.#pauseStartAt;
+    this.#log.info('output resumed');
+    this.#evtTool.emit('resumed');
   }
 
   /**
@@ -268,51 +823,163 @@ export class Combinator {
   }
 
   #run(
-    remux: ReturnType<typeof recodemux>,
-    maxTime: number,
+    remux: TRecodeMuxer,
+    range: ITimeRange,
+    smartRender: ISmartRenderSpan[],
     {
       onProgress,
       onEnded,
       onError,
     }: {
-      onProgress: (prog: number) => void;
-      onEnded: () => Promise<void>;
+      onProgress: (prog: number, stats: IRunStats) => void;
+      onEnded: (stats: IRunStats) => Promise<void>;
       onError: (err: Error) => void;
     },
   ): () => void {
     let progress = 0;
+    const stats: IRunStats = {
+      currentTime: 0,
+      framesRendered: 0,
+      activeSprites: 0,
+      renderCost: 0,
+      maxEncodeQueueSize: 0,
+    };
     let stoped = false;
     let err: Error | null = null;
+    const transRenderer =
+      this.#hasVideoTrack && this.#transitions.length > 0
+        ? createTransitionRenderer(this.#cvs.width, this.#cvs.height)
+        : null;
 
     const _run = async () => {
-      // 33ms ≈ 30FPS
-      const timeSlice = 33e3;
+      const { fps } = this.#opts;
+      const keyFrameInterval = parseKeyFrameInterval(
+        this.#opts.keyFrameInterval,
+        fps,
+      );
+      // 由帧序号计算时间，避免每帧时长取整后累积误差
+      const frameTime = (idx: number) => Math.round((idx * 1e6) / fps);
+
+      const copySpans = await this.#prepareSmartRender(smartRender);
+      // 复制区间的起止时刻需单独开始一帧，保证编码的帧与复制的帧时间连续
+      const boundaries = copySpans.flatMap((it) => [it.start, it.end]);
+      let gridIdx = 0;
+      const nextFrameTime = (time: number) => {
+        while (frameTime(gridIdx) <= time) gridIdx += 1;
+        return Math.min(
+          frameTime(gridIdx),
+          ...boundaries.filter((it) => it > time),
+        );
+      };
 
-      let frameCnt = 0;
+      const { start, end, last } = range;
+      const isEnd = (time: number) =>
+        end !== -1 && (last ? time > end : time >= end);
+
+      // 距上一个关键帧的帧数，复制区间之后的第一帧需为关键帧
+      let gopFrameCnt = 0;
       const { width, height } = this.#cvs;
       const ctx = this.#ctx;
-      let ts = 0;
+      // 分段输出时从 start 之前开始，这些帧仅用于推进素材的读取位置、预热音频编码器，不编码视频
+      const warmupStart = start > 0 ? start - AUDIO_SEGMENT_ALIGN : 0;
+      while (frameTime(gridIdx + 1) <= warmupStart) gridIdx += 1;
+      let ts = frameTime(gridIdx);
+
+      // 各帧的音频采样数由帧的起止时刻决定，素材输出的采样数存在取整误差，避免逐帧累积；
+      // 分段输出时各段的音频首尾相接，与顺序输出一致
+      const { sampleRate } = DEFAULT_AUDIO_CONF;
+      const toSampleIdx = (time: number) =>
+        Math.round((time * sampleRate) / 1e6);
+      const startSampleIdx = toSampleIdx(start);
+      const warmupSampleIdx = toSampleIdx(warmupStart);
       while (true) {
+        if (this.#pausePromise != null) await this.#pausePromise;
+        const nextTs = nextFrameTime(ts);
+        const timeSlice = nextTs - ts;
+        const warmup = ts < start;
         if (err != null) return;
-        if (
-          stoped ||
-          (maxTime === -1 ? false : ts > maxTime) ||
-          this.#sprites.length === 0
-        ) {
+        if (stoped || isEnd(ts) || this.#sprites.length === 0) {
           exit();
-          await onEnded();
+          await onEnded(stats);
           return;
         }
-        progress = ts / maxTime;
+        progress = Math.max(0, (ts - start) / (end - start));
+        const renderStart = performance.now();
+        let activeSprites = 0;
+
+        const copySpan = copySpans.find((it) => ts >= it.start && ts < it.end);
+        if (copySpan != null) {
+          const { offset } = copySpan.sprite.time;
+          // 写入当前帧时间范围内开始的 GoP
+          while (copySpan.gops.length > 0 && copySpan.gops[0].start < nextTs) {
+            const gop = copySpan.gops.shift()!;
+            const samples = await copySpan.clip.readPassThroughSamples(
+              gop.start - offset,
+              gop.end - offset,
+            );
+            remux.addVideoSamples?.(
+              samples.map((it) => ({ ...it, cts: it.cts + offset - start })),
+              copySpan.description,
+            );
+          }
+        }
 
         ctx.fillStyle = this.#opts.bgColor;
         ctx.fillRect(0, 0, width, height);
 
         const audios: Float32Array[][] = [];
+        const activeTrans = this.#transitions
+          .filter(({ from, to }) => !from.expired && !to.expired)
+          .map((trans) => ({
+            ...trans,
+            state: getTransitionState(ts, trans.from, trans.to, trans.opts),
+          }))
+          .filter((it) => it.state != null);
+        // 当前时刻需要绘制的素材优先获得解码器
+        for (const s of this.#sprites) {
+          s
+            .getClip()
+            .setVisible?.(
+              copySpan?.sprite !== s &&
+                (activeTrans.some((it) => it.from === s || it.to === s) ||
+                  (!s.expired &&
+                    ts >= s.time.offset &&
+                    ts <= s.time.offset + s.time.duration)),
+            );
+        }
         for (const s of this.#sprites) {
           if (stoped) break;
+          // 已直接复制编码数据，无需绘制
+          if (copySpan?.sprite === s) continue;
+          // 处于转场中的两个 Sprite 一起绘制
+          const transIdx = activeTrans.findIndex(
+            (it) => it.from === s || it.to === s,
+          );
+          if (transIdx !== -1) {
+            const { from, to, opts, state } = activeTrans[transIdx];
+            activeTrans.splice(transIdx, 1);
+            transRenderer?.clear();
+            const layers = transRenderer ?? { fromCtx: ctx, toCtx: ctx };
+            layers.fromCtx.save();
+            const fromRs = await from.offscreenRender(
+              layers.fromCtx,
+              state!.fromTime,
+            );
+            layers.fromCtx.restore();
+            layers.toCtx.save();
+            const toRs = await to.offscreenRender(layers.toCtx, state!.toTime);
+            layers.toCtx.restore();
+            transRenderer?.composite(ctx, state!.progress, opts);
+            activeSprites += 2;
+            audios.push(
+              applyAudioGain(fromRs.audio, state!.fromGain),
+              applyAudioGain(toRs.audio, state!.toGain),
+            );
+            continue;
+          }
           if (ts < s.time.offset || s.expired) continue;
 
+          activeSprites += 1;
           ctx.save();
           const { audio, done } = await s.offscreenRender(
             ctx,
@@ -328,7 +995,7 @@ export class Combinator {
           ) {
             if (s.main) {
               exit();
-              await onEnded();
+              await onEnded(stats);
               return;
             }
 
@@ -338,49 +1005,57 @@ export class Combinator {
         }
 
         if (stoped) return;
-
-        if (this.#opts.audio !== false) {
-          if (audios.flat().every((a) => a.length === 0)) {
-            // 当前时刻无音频时，使用无声音频占位，否则会导致后续音频播放时间偏差
-            remux.encodeAudio(
-              createAudioPlaceholder(
-                ts,
-                timeSlice,
-                DEFAULT_AUDIO_CONF.sampleRate,
-              ),
-            );
-          } else {
-            // todo: perf 重复利用内存空间
-            const data = mixinPCM(audios);
-            remux.encodeAudio(
-              new AudioData({
-                timestamp: ts,
-                numberOfChannels: DEFAULT_AUDIO_CONF.channelCount,
-                numberOfFrames: data.length / DEFAULT_AUDIO_CONF.channelCount,
-                sampleRate: DEFAULT_AUDIO_CONF.sampleRate,
-                format: 'f32-planar',
-                data,
-              }),
-            );
-          }
+        const frameSampleIdx = toSampleIdx(ts);
+        const from = Math.max(frameSampleIdx, warmupSampleIdx);
+        const to = toSampleIdx(nextTs);
+        if (this.#opts.audio !== false && to > from) {
+          // 当前时刻无音频时，使用无声音频占位，否则会导致后续音频播放时间偏差
+          remux.encodeAudio(
+            createAudioData(
+              audios.flat().every((a) => a.length === 0)
+                ? null
+                : mixinPCM(audios),
+              from - frameSampleIdx,
+              to - from,
+              // 预热的音频时间小于 0，编码后丢弃
+              Math.round(((from - startSampleIdx) * 1e6) / sampleRate),
+            ),
+          );
         }
+        if (warmup) {
+          ctx.resetTransform();
+          ctx.clearRect(0, 0, width, height);
+          ts = nextTs;
+          continue;
+        }
+        stats.activeSprites = activeSprites;
+        stats.renderCost += performance.now() - renderStart;
 
         if (this.#hasVideoTrack) {
-          const vf = new VideoFrame(this.#cvs, {
-            duration: timeSlice,
-            timestamp: ts,
-          });
+          if (copySpan == null) {
+            const vf = new VideoFrame(this.#cvs, {
+              duration: timeSlice,
+              timestamp: ts - start,
+            });
 
-          remux.encodeVideo(vf, {
-            keyFrame: frameCnt % 150 === 0,
-          });
+            remux.encodeVideo?.(vf, {
+              keyFrame: gopFrameCnt % keyFrameInterval === 0,
+            });
+            gopFrameCnt += 1;
+          } else {
+            gopFrameCnt = 0;
+          }
           ctx.resetTransform();
           ctx.clearRect(0, 0, width, height);
-
-          frameCnt += 1;
         }
 
-        ts += timeSlice;
+        if (copySpan == null) stats.framesRendered += 1;
+        ts = nextTs;
+        stats.currentTime = ts - start;
+        stats.maxEncodeQueueSize = Math.max(
+          stats.maxEncodeQueueSize,
+          remux.getEncodeQueueSize(),
+        );
 
         await letEncoderCalmDown(remux.getEncodeQueueSize);
       }
@@ -394,7 +1069,7 @@ export class Combinator {
     });
 
     const outProgTimer = setInterval(() => {
-      onProgress(progress);
+      onProgress(progress, stats);
     }, 500);
 
     const exit = () => {
@@ -402,24 +1077,90 @@ export class Combinator {
       stoped = true;
       clearInterval(outProgTimer);
       this.#sprites.forEach((it) => it.destroy());
+      transRenderer?.destroy();
     };
 
     return exit;
   }
 }
 
-function createAudioPlaceholder(
-  ts: number,
-  duration: number,
-  sampleRate: number,
+function createAbortError() {
+  return new DOMException('Combinator output aborted', 'AbortError');
+}
+
+// 关键帧间隔转换为帧数
+function parseKeyFrameInterval(
+  interval: NonNullable<ICombinatorOpts['keyFrameInterval']>,
+  fps: number,
+) {
+  const frames =
+    typeof interval === 'number'
+      ? interval
+      : Number(interval.slice(0, -1)) * fps;
+  if (!(frames > 0)) throw Error(`Invalid keyFrameInterval: ${interval}`);
+  return Math.max(1, Math.round(frames));
+}
+
+/**
+ * 在关键帧处将 [0, maxTime] 拆分为最多 count 段，返回各段的分界时刻（含起止）
+ * @param gopFrames 关键帧间隔的帧数
+ * @param align 分界时刻需为 align 的整数倍，单位 微秒
+ */
+function splitTimeline(
+  maxTime: number,
+  count: number,
+  fps: number,
+  gopFrames: number,
+  align: number,
+) {
+  // 可作为分界的关键帧时刻，与合成循环中帧时间的计算方式一致
+  const candidates: number[] = [];
+  for (let gopIdx = 1; ; gopIdx++) {
+    const time = Math.round((gopIdx * gopFrames * 1e6) / fps);
+    if (time >= maxTime) break;
+    if (time % align === 0) candidates.push(time);
+  }
+  const bounds = [0];
+  for (let i = 1; i < count && candidates.length > 0; i++) {
+    const target = (maxTime * i) / count;
+    const time = candidates.reduce((acc, it) =>
+      Math.abs(it - target) < Math.abs(acc - target) ? it : acc,
+    );
+    if (time > bounds[bounds.length - 1]) bounds.push(time);
+  }
+  bounds.push(maxTime);
+  return bounds;
+}
+
+/**
+ * 从平面格式的 PCM 中截取 frameCnt 个采样创建 AudioData，不足的部分补静音
+ * @param data 为 null 时创建无声音频
+ * @param offset 截取的起始采样序号
+ */
+function createAudioData(
+  data: Float32Array | null,
+  offset: number,
+  frameCnt: number,
+  timestamp: number,
 ): AudioData {
-  const frameCnt = Math.floor((sampleRate * duration) / 1e6);
+  const { channelCount, sampleRate } = DEFAULT_AUDIO_CONF;
+  const pcm = new Float32Array(frameCnt * channelCount);
+  if (data != null) {
+    const chanLen = data.length / channelCount;
+    for (let i = 0; i < channelCount; i++) {
+      const begin = i * chanLen + offset;
+      pcm.set(
+        data.subarray(begin, Math.min(begin + frameCnt, (i + 1) * chanLen)),
+        i * frameCnt,
+      );
+    }
+  }
   return new AudioData({
-    timestamp: ts,
-    numberOfChannels: DEFAULT_AUDIO_CONF.channelCount,
+    timestamp,
+    numberOfChannels: channelCount,
     numberOfFrames: frameCnt,
-    sampleRate: sampleRate,
+    sampleRate,
     format: 'f32-planar',
-    data: new Float32Array(frameCnt * 2),
+    data: pcm,
   });
 }
@@ -0,0 +1,80 @@
+import { expect, test, vi } from 'vitest';
+import { MP4Clip } from '../../clips/mp4-clip';
+import { createRangeFile } from '../range-file';
+
+function createMockReader(size: number) {
+  const data = new Uint8Array(size).map((_, i) => i % 256);
+  return vi.fn(async (offset: number, length: number) =>
+    data.slice(offset, offset + length),
+  );
+}
+
+test('read data across chunks', async () => {
+  const rangeReader = createMockReader(100);
+  const reader = await createRangeFile(rangeReader, {
+    chunkSize: 16,
+  }).createReader();
+  const buf = new Uint8Array(await reader.read(20, { at: 10 }));
+  expect([...buf]).toEqual(Array.from({ length: 20 }, (_, i) => i + 10));
+  expect(rangeReader.mock.calls).toEqual([
+    [0, 16],
+    [16, 16],
+  ]);
+
+  // 命中缓存
+  await reader.read(10, { at: 20 });
+  expect(rangeReader).toHaveBeenCalledTimes(2);
+
+  // 超出文件末尾，返回实际读取的数据
+  expect((await reader.read(20, { at: 90 })).byteLength).toBe(10);
+  expect((await reader.read(20, { at: 120 })).byteLength).toBe(0);
+});
+
+test('evict least recently used chunks', async () => {
+  const rangeReader = createMockReader(100);
+  const reader = await createRangeFile(rangeReader, {
+    chunkSize: 10,
+    cacheSize: 20,
+  }).createReader();
+  await reader.read(1, { at: 0 });
+  await reader.read(1, { at: 10 });
+  // chunk 0 最近使用过，淘汰 chunk 1
+  await reader.read(1, { at: 0 });
+  await reader.read(1, { at: 20 });
+  await reader.read(1, { at: 0 });
+  expect(rangeReader).toHaveBeenCalledTimes(3);
+  await reader.read(1, { at: 10 });
+  expect(rangeReader).toHaveBeenCalledTimes(4);
+});
+
+test('retry failed chunks', async () => {
+  const rangeReader = vi
+    .fn()
+    .mockRejectedValueOnce(Error('network error'))
+    .mockResolvedValue(new Uint8Array(10));
+  const rangeFile = createRangeFile(rangeReader, { chunkSize: 10 });
+  const reader = await rangeFile.createReader();
+  await expect(reader.read(5)).rejects.toThrowError('network error');
+  expect((await reader.read(5)).byteLength).toBe(5);
+  await expect(rangeFile.getSize()).rejects.toThrowError('Unknown file size');
+});
+
+const mp4_bunny_1 = `//${location.host}/video/bunny_1.mp4`;
+
+test('create MP4Clip by range file', async () => {
+  const rangeFile = createRangeFile(mp4_bunny_1, { chunkSize: 256 * 1024 });
+  const clip = new MP4Clip(rangeFile);
+  const streamClip = new MP4Clip((await fetch(mp4_bunny_1)).body!);
+  expect(await clip.ready).toEqual(await streamClip.ready);
+  expect(await rangeFile.getSize()).toBe(2027725);
+
+  const { video } = await clip.tick(5e6);
+  expect(video?.timestamp).toBe(5e6);
+  video?.close();
+  // 音频数据按需读取
+  await clip.tick(5.05e6);
+  const { audio } = await clip.tick(5.1e6);
+  expect(audio[0].length).toBeGreaterThan(0);
+  clip.destroy();
+  streamClip.destroy();
+});
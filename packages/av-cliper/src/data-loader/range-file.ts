@@ -0,0 +1,169 @@
+/**
+ * 读取文件指定范围的数据，返回的数据长度小于 length 表示已到达文件末尾
+ */
+export type TRangeReader = (
+  offset: number,
+  length: number,
+) => Promise<Uint8Array>;
+
+export interface IRangeFileOpts {
+  /**
+   * 单次读取（请求）的块大小，默认 1MB
+   */
+  chunkSize?: number;
+  /**
+   * 缓存数据的上限，默认 64MB，超出后淘汰最久未使用的块
+   */
+  cacheSize?: number;
+  /**
+   * 文件大小，自定义 reader 需要提供才能调用 getSize
+   */
+  size?: number;
+  /**
+   * 透传给 fetch 的参数，如 headers、credentials
+   */
+  requestInit?: RequestInit;
+}
+
+type RangeFileReader = {
+  read: (size: number, opts?: { at?: number }) => Promise<ArrayBuffer>;
+  getSize: () => Promise<number>;
+  close: () => Promise<void>;
+};
+
+/**
+ * 按需读取的远程文件，与 opfs-tools 的文件对象保持相同的读取接口
+ */
+export interface IRangeFile {
+  kind: 'range-file';
+  createReader: () => Promise<RangeFileReader>;
+  getSize: () => Promise<number>;
+}
+
+/**
+ * 创建按需读取的文件，数据按块读取并缓存，不会预先下载整个文件
+ *
+ * @param source 文件 URL（服务端需支持 HTTP Range 请求），或自定义的读取函数
+ *
+ * @example
+ * new MP4Clip(createRangeFile('https://example.com/large.mp4'))
+ * new MP4Clip(
+ *   createRangeFile(async (offset, length) => readFromAnywhere(offset, length), {
+ *     size: fileSize,
+ *   }),
+ * )
+ */
+export function createRangeFile(
+  source: string | URL | TRangeReader,
+  opts: IRangeFileOpts = {},
+): IRangeFile {
+  const { chunkSize = 1024 ** 2, cacheSize = 64 * 1024 ** 2 } = opts;
+  if (!(chunkSize > 0)) throw Error('chunkSize must be greater than 0');
+  const maxChunkCnt = Math.max(1, Math.floor(cacheSize / chunkSize));
+
+  let fileSize = opts.size ?? -1;
+  const readRange =
+    typeof source === 'function'
+      ? source
+      : createHTTPRangeReader(source, opts.requestInit, (size) => {
+          fileSize = size;
+        });
+
+  // Map 按插入顺序迭代，命中时重新插入，首个元素即最久未使用的块
+  const cache = new Map<number, Promise<Uint8Array>>();
+  function getChunk(idx: number) {
+    const cached = cache.get(idx);
+    if (cached != null) {
+      cache.delete(idx);
+      cache.set(idx, cached);
+      return cached;
+    }
+
+    const chunk = readRange(idx * chunkSize, chunkSize);
+    // 读取失败的块不缓存
+    chunk.catch(() => {
+      if (cache.get(idx) === chunk) cache.delete(idx);
+    });
+    cache.set(idx, chunk);
+    while (cache.size > maxChunkCnt) {
+      cache.delete(cache.keys().next().value!);
+    }
+    return chunk;
+  }
+
+  async function read(size: number, at: number) {
+    if (size <= 0) return new ArrayBuffer(0);
+    const startIdx = Math.floor(at / chunkSize);
+    const endIdx = Math.floor((at + size - 1) / chunkSize);
+    const chunks = await Promise.all(
+      Array.from({ length: endIdx - startIdx + 1 }, (_, i) =>
+        getChunk(startIdx + i),
+      ),
+    );
+
+    const rs = new Uint8Array(size);
+    let len = 0;
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const chunkStart = (startIdx + i) * chunkSize;
+      const from = Math.max(at - chunkStart, 0);
+      const to = Math.min(at + size - chunkStart, chunk.byteLength);
+      if (to > from) {
+        rs.set(chunk.subarray(from, to), len);
+        len += to - from;
+      }
+      // 已到达文件末尾
+      if (chunk.byteLength < chunkSize) break;
+    }
+    return len === size ? rs.buffer : rs.buffer.slice(0, len);
+  }
+
+  async function getSize() {
+    if (fileSize < 0 && typeof source !== 'function') await getChunk(0);
+    if (fileSize < 0) throw Error('Unknown file size');
+    return fileSize;
+  }
+
+  return {
+    kind: 'range-file',
+    getSize,
+    createReader: async () => {
+      let closed = false;
+      return {
+        read: async (size, readOpts) => {
+          if (closed) throw Error('Reader is closed');
+          return await read(size, readOpts?.at ?? 0);
+        },
+        getSize,
+        close: async () => {
+          closed = true;
+        },
+      };
+    },
+  };
+}
+
+function createHTTPRangeReader(
+  url: string | URL,
+  requestInit: RequestInit | undefined,
+  onSize: (size: number) => void,
+): TRangeReader {
+  return async (offset, length) => {
+    const headers = new Headers(requestInit?.headers);
+    headers.set('Range', `bytes=${offset}-${offset + length - 1}`);
+    const res = await fetch(url, { ...requestInit, headers });
+    // 超出文件末尾
+    if (res.status === 416) return new Uint8Array(0);
+    if (res.status !== 206) {
+      throw Error(
+        res.ok
+          ? 'Server does not support HTTP range requests'
+          : `Range request failed, status: ${res.status}`,
+      );
+    }
+    // Content-Range: bytes 0-1023/146515
+    const size = Number(res.headers.get('Content-Range')?.split('/')[1]);
+    if (Number.isFinite(size)) onSize(size);
+    return new Uint8Array(await res.arrayBuffer());
+  };
+}
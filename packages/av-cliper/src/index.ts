@@ -10,6 +10,7 @@ export {
   audioResample,
   ringSliceFloat32Array,
   autoReadStream,
+  createPCMTimeStretcher,
 } from './av-utils';
 export {
   recodemux,
@@ -18,7 +19,16 @@ export {
   fixFMP4Duration,
   mixinMP4AndAudio,
 } from './mp4-utils';
+export { recodemuxWebM, webm2stream } from './webm-utils/webm-recodemux';
+export { recodemuxOgg } from './ogg-utils/ogg-muxer';
+export { recodemuxWAV } from './wav-utils/wav-writer';
 export { createHLSLoader } from './data-loader/hls-loader';
+export { createRangeFile } from './data-loader/range-file';
+export type {
+  IRangeFile,
+  IRangeFileOpts,
+  TRangeReader,
+} from './data-loader/range-file';
 export { createChromakey } from './chromakey';
 export { workerTimer } from './worker-timer';
 
@@ -27,7 +37,23 @@ export { OffscreenSprite } from './sprite/offscreen-sprite';
 export { VisibleSprite } from './sprite/visible-sprite';
 export { Rect } from './sprite/rect';
 export type { TCtrlKey } from './sprite/rect';
+export {
+  applyAudioGain,
+  checkTransition,
+  createTransitionRenderer,
+  getTransitionRange,
+  getTransitionState,
+} from './sprite/transition';
+export type { ITransitionOpts, TTransitionName } from './sprite/transition';
 export { Combinator } from './combinator';
+export type {
+  ICombinatorOpts,
+  ICombinatorProgress,
+  ICombinatorReport,
+  ICombinatorSegment,
+} from './combinator';
+export { WorkerCombinator } from './worker-combinator';
+export type { ISpriteDescriptor, TClipDescriptor } from './worker-combinator';
 
 export * from './log';
 
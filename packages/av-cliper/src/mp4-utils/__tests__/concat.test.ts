@@ -0,0 +1,143 @@
+import mp4box from '@webav/mp4box.js';
+import { expect, test } from 'vitest';
+import { fastConcatMP4 } from '..';
+import { autoReadStream } from '../../av-utils';
+import { extractFileConfig } from '../mp4box-utils';
+import { SampleTransform } from '../sample-transform';
+
+const mp4_bunny_1 = `//${location.host}/video/bunny_1.mp4`;
+
+// 空的 wvtt cue（vtte box）
+const EMPTY_CUE = new Uint8Array([0, 0, 0, 8, 0x76, 0x74, 0x74, 0x65]);
+
+/**
+ * 复制 MP4 的音视频轨道，并添加一条 wvtt 字幕轨道
+ */
+async function createMP4WithTextTrack(stream: ReadableStream<Uint8Array>) {
+  const outfile = mp4box.createFile();
+  const trackIds: Record<string, number> = {};
+  let duration = 0;
+  await new Promise<void>((resolve) => {
+    autoReadStream(stream.pipeThrough(new SampleTransform()), {
+      onDone: resolve,
+      onChunk: async ({ chunkType, data }) => {
+        if (chunkType === 'ready') {
+          const { videoTrackConf, audioTrackConf } = extractFileConfig(
+            data.file,
+            data.info,
+          );
+          trackIds.video = outfile.addTrack(videoTrackConf!);
+          trackIds.audio = outfile.addTrack(audioTrackConf!);
+          return;
+        }
+        for (const s of data.samples) {
+          outfile.addSample(trackIds[data.type], s.data, {
+            duration: s.duration,
+            dts: s.dts,
+            cts: s.cts,
+            is_sync: s.is_sync,
+          });
+          if (data.type === 'video') {
+            duration = Math.max(duration, (s.cts + s.duration) / s.timescale);
+          }
+        }
+      },
+    });
+  });
+
+  // @ts-expect-error 字幕轨道配置
+  const textTrackId = outfile.addTrack({
+    type: 'wvtt',
+    hdlr: 'text',
+    timescale: 1000,
+  });
+  // wvtt sample entry 仅包含一个 vttC box
+  const vttC = new TextEncoder().encode('\0\0\0\x0evttCWEBVTT');
+  outfile.getTrackById(textTrackId).mdia.minf.stbl.stsd.entries[0].data = vttC;
+  for (let t = 0; t < duration * 1000; t += 1000) {
+    outfile.addSample(textTrackId, EMPTY_CUE, {
+      duration: 1000,
+      dts: t,
+      cts: t,
+      is_sync: true,
+    });
+  }
+  // @ts-expect-error
+  return new Blob([outfile.getBuffer()]).stream();
+}
+
+type TSampleTime = { cts: number; duration: number; timescale: number };
+
+async function readSamples(stream: ReadableStream<Uint8Array>) {
+  const samples: Record<string, TSampleTime[]> = {};
+  let codecs: string[] = [];
+  await new Promise<void>((resolve) => {
+    autoReadStream(stream.pipeThrough(new SampleTransform({ text: true })), {
+      onDone: resolve,
+      onChunk: async ({ chunkType, data }) => {
+        if (chunkType === 'ready') {
+          codecs = data.info.tracks.map((t) => t.codec.split('.')[0]);
+          return;
+        }
+        samples[data.type] = (samples[data.type] ?? []).concat(
+          data.samples.map(({ cts, duration, timescale }) => ({
+            cts,
+            duration,
+            timescale,
+          })),
+        );
+      },
+    });
+  });
+  return { codecs, samples };
+}
+
+async function countSamples(stream: ReadableStream<Uint8Array>) {
+  const { codecs, samples } = await readSamples(stream);
+  const counts: Record<string, number> = {};
+  for (const [type, list] of Object.entries(samples)) {
+    counts[type] = list.length;
+  }
+  return { codecs, counts };
+}
+
+test('fastConcatMP4 drops text tracks', async () => {
+  const input = await createMP4WithTextTrack((await fetch(mp4_bunny_1)).body!);
+  const [s1, s2] = input.tee();
+  const { codecs, counts } = await countSamples(s1);
+  expect(codecs).toContain('wvtt');
+  expect(counts.text).toBeGreaterThan(0);
+
+  const [s3, s4] = s2.tee();
+  const out = await countSamples(await fastConcatMP4([s3, s4]));
+  expect(out.codecs).toEqual(['avc1', 'mp4a']);
+  expect(out.counts.text).toBeUndefined();
+  // 字幕样本不会混入音频轨道
+  expect(out.counts.audio).toBe(counts.audio * 2);
+  expect(out.counts.video).toBe(counts.video * 2);
+});
+
+test('fastConcatMP4 offsets each file by the max end time of all tracks', async () => {
+  const [s1, s2] = (await fetch(mp4_bunny_1)).body!.tee();
+  const [s3, s4] = s2.tee();
+  const input = await readSamples(s1);
+  const inputEnd = Math.max(
+    ...Object.values(input.samples)
+      .flat()
+      .map((s) => (s.cts + s.duration) / s.timescale),
+  );
+
+  const out = await readSamples(await fastConcatMP4([s3, s4]));
+  for (const type of ['video', 'audio']) {
+    const src = input.samples[type];
+    const dst = out.samples[type];
+    expect(dst.length).toBe(src.length * 2);
+    // 第二个文件的首个样本从第一个文件的结束时间开始，音视频偏移量相同
+    const first = src[0];
+    const second = dst[src.length];
+    expect(second.cts / second.timescale).toBeCloseTo(
+      first.cts / first.timescale + inputEnd,
+      3,
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { beforeAll, describe, expect, test, vi } from 'vitest';
 import mp4box from '@webav/mp4box.js';
 import { file2stream } from '..';
+import { parseMatrixRotation, parseTextSample } from '../mp4box-utils';
 import { autoReadStream } from '../../av-utils';
 
 beforeAll(() => {
@@ -72,3 +73,78 @@ describe('file2stream', () => {
     expect(spyCancel).toBeCalled();
   });
 });
+
+describe('parseMatrixRotation', () => {
+  const fixed = (v: number) => v * 0x10000;
+  const genMatrix = (a: number, b: number, c: number, d: number) =>
+    new Int32Array([
+      fixed(a),
+      fixed(b),
+      0,
+      fixed(c),
+      fixed(d),
+      0,
+      0,
+      0,
+      1 << 30,
+    ]);
+
+  test('rotation of display matrix', () => {
+    expect(parseMatrixRotation(genMatrix(1, 0, 0, 1))).toBe(0);
+    expect(parseMatrixRotation(genMatrix(0, 1, -1, 0))).toBe(90);
+    expect(parseMatrixRotation(genMatrix(-1, 0, 0, -1))).toBe(180);
+    expect(parseMatrixRotation(genMatrix(0, -1, 1, 0))).toBe(270);
+  });
+
+  test('invalid matrix', () => {
+    expect(parseMatrixRotation([])).toBe(0);
+    expect(parseMatrixRotation(new Int32Array(9))).toBe(0);
+  });
+});
+
+describe('parseTextSample', () => {
+  const encoder = new TextEncoder();
+  function box(type: string, content: Uint8Array) {
+    const buf = new Uint8Array(content.byteLength + 8);
+    new DataView(buf.buffer).setUint32(0, buf.byteLength);
+    buf.set(encoder.encode(type), 4);
+    buf.set(content, 8);
+    return buf;
+  }
+  function concat(...bufs: Uint8Array[]) {
+    const rs = new Uint8Array(bufs.reduce((acc, b) => acc + b.byteLength, 0));
+    let offset = 0;
+    for (const b of bufs) {
+      rs.set(b, offset);
+      offset += b.byteLength;
+    }
+    return rs;
+  }
+
+  test('tx3g sample', () => {
+    const txt = encoder.encode('你好\nworld');
+    const data = concat(
+      new Uint8Array([0, txt.byteLength]),
+      txt,
+      // 样式 box 不属于文本内容
+      box('styl', new Uint8Array(2)),
+    );
+    expect(parseTextSample('tx3g', data)).toBe('你好\nworld');
+    expect(parseTextSample('tx3g', new Uint8Array([0, 0]))).toBe('');
+  });
+
+  test('wvtt sample', () => {
+    const data = concat(
+      box(
+        'vttc',
+        concat(
+          box('sttg', encoder.encode('line:0')),
+          box('payl', encoder.encode('first')),
+        ),
+      ),
+      box('vttc', box('payl', encoder.encode('second'))),
+    );
+    expect(parseTextSample('wvtt', data)).toBe('first\nsecond');
+    expect(parseTextSample('wvtt', box('vtte', new Uint8Array(0)))).toBe('');
+  });
+});
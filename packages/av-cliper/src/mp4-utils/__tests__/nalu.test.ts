@@ -0,0 +1,43 @@
+import { expect, test } from 'vitest';
+import { parseParamSets, rewriteNALUs } from '../nalu';
+
+test('parseParamSets avcC', () => {
+  const desc = new Uint8Array([
+    1, 0x64, 0, 0x1f, 0xff, 0xe1, 0, 3, 0x67, 1, 2, 1, 0, 2, 0x68, 3,
+  ]);
+  expect(parseParamSets('avc', desc)).toEqual({
+    lengthSize: 4,
+    nalus: [new Uint8Array([0x67, 1, 2]), new Uint8Array([0x68, 3])],
+  });
+});
+
+test('parseParamSets hvcC', () => {
+  const desc = new Uint8Array(23 + 3 + 2 + 2 + 3 + 2 + 1);
+  desc[21] = 0x03;
+  desc[22] = 2;
+  // VPS 数组，1 个 NALU
+  desc.set([0x20, 0, 1, 0, 2, 0x40, 1], 23);
+  // SPS 数组，1 个 NALU
+  desc.set([0x21, 0, 1, 0, 1, 0x42], 30);
+  expect(parseParamSets('hevc', desc)).toEqual({
+    lengthSize: 4,
+    nalus: [new Uint8Array([0x40, 1]), new Uint8Array([0x42])],
+  });
+});
+
+test('rewriteNALUs', () => {
+  const data = new Uint8Array([0, 0, 0, 2, 0x65, 1, 0, 0, 0, 1, 0x06]);
+  expect(
+    rewriteNALUs(data, {
+      fromLengthSize: 4,
+      toLengthSize: 2,
+      prepend: [new Uint8Array([0x67, 9])],
+    }),
+  ).toEqual(new Uint8Array([0, 2, 0x67, 9, 0, 2, 0x65, 1, 0, 1, 0x06]));
+  expect(() =>
+    rewriteNALUs(new Uint8Array([1, 0, ...new Array(256).fill(1)]), {
+      fromLengthSize: 2,
+      toLengthSize: 1,
+    }),
+  ).toThrowError();
+});
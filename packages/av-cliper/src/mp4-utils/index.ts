@@ -14,20 +14,21 @@ import {
   ringSliceFloat32Array,
   concatPCMFragments,
 } from '../av-utils';
-import { DEFAULT_AUDIO_CONF } from '../clips';
+import { DEFAULT_AUDIO_CONF } from '../clips/iclip';
 import { EventTool } from '../event-tool';
 import { SampleTransform } from './sample-transform';
 import { extractFileConfig, unsafeReleaseMP4BoxFile } from './mp4box-utils';
 import { tmpfile, write } from 'opfs-tools';
 import { createMetaBox } from './meta-box';
 import { workerTimer } from '../worker-timer';
+import { parseParamSets, rewriteNALUs } from './nalu';
 
 type TCleanFn = () => void;
 
 /**
  * 定义 recodemux 函数的配置选项
  */
-interface IRecodeMuxOpts {
+export interface IRecodeMuxOpts {
   /**
    * 视频配置选项，如果为 null 则不处理视频。
    */
@@ -37,6 +38,11 @@ interface IRecodeMuxOpts {
     expectFPS: number;
     codec: string;
     bitrate: number;
+    /**
+     * 允许通过 addVideoSamples 直接写入 H.264 编码数据（smart render），
+     * 此时视频轨道为 avc3，关键帧带内参数集，兼容不同来源的编码参数
+     */
+    passThrough?: boolean;
     /**
      * 不安全，随时可能废弃
      */
@@ -49,6 +55,11 @@ interface IRecodeMuxOpts {
     codec: 'opus' | 'aac';
     sampleRate: number;
     channelCount: number;
+    /**
+     * 音频轨道的结束时间（微秒），编码器末尾补齐的数据超出该时间的部分会被截掉，
+     * 用于分段输出时各段音频首尾相接；时间小于 0 的音频总是会被丢弃
+     */
+    endTime?: number;
   } | null;
   /**
    * 预设时长，不代表 track 实际时长
@@ -70,6 +81,14 @@ export function recodemux(opts: IRecodeMuxOpts): {
     options: VideoEncoderEncodeOptions,
     gopId?: number,
   ) => void;
+  /**
+   * 直接写入视频编码数据（需开启 video.passThrough），样本需以关键帧开始，且与编码的视频帧时间连续
+   * @param description 编码数据对应的 avcC
+   */
+  addVideoSamples: (
+    samples: IPassThroughSample[],
+    description: Uint8Array,
+  ) => void;
   /**
    * 编码音频数据
    */
@@ -90,6 +109,10 @@ export function recodemux(opts: IRecodeMuxOpts): {
    * 返回队列长度（背压），用于控制生产视频的进度，队列过大会会占用大量显存
    */
   getEncodeQueueSize: () => number;
+  /**
+   * 返回视频编码器已输出的帧数
+   */
+  getEncodedVideoFrames: () => number;
 } {
   Log.info('recodemux opts:', opts);
   const mp4file = mp4box.createFile();
@@ -99,16 +122,6 @@ export function recodemux(opts: IRecodeMuxOpts): {
     Record<'VideoReady' | 'AudioReady', () => void>
   >();
 
-  const addMetadata = (
-    moov: NonNullable<MP4File['moov']>,
-    tags: NonNullable<IRecodeMuxOpts['metaDataTags']>,
-  ) => {
-    const udtaBox = moov.add('udta');
-    const metaBox = udtaBox.add('meta');
-    metaBox.data = createMetaBox(tags);
-    metaBox.size = metaBox.data.byteLength;
-  };
-
   let moovReady = false;
   const onMoovReady = () => {
     if (mp4file.moov == null || moovReady) return;
@@ -129,7 +142,7 @@ export function recodemux(opts: IRecodeMuxOpts): {
       : null;
   let aEncoder =
     opts.audio != null
-      ? encodeAudioTrack(opts.audio, mp4file, avSyncEvtTool)
+      ? encodeAudioTrack(opts.audio, mp4file, avSyncEvtTool, opts.video == null)
       : null;
   if (opts.video == null) avSyncEvtTool.emit('VideoReady');
   if (opts.audio == null) avSyncEvtTool.emit('AudioReady');
@@ -139,6 +152,10 @@ export function recodemux(opts: IRecodeMuxOpts): {
       vEncoder?.encode(vf, opts);
       vf.close();
     },
+    addVideoSamples: (samples, description) => {
+      if (vEncoder == null) throw Error('No video track');
+      vEncoder.addSamples(samples, description);
+    },
     encodeAudio: (ad) => {
       if (aEncoder == null) return;
       aEncoder.encode(ad);
@@ -146,6 +163,7 @@ export function recodemux(opts: IRecodeMuxOpts): {
     },
     getEncodeQueueSize: () =>
       vEncoder?.encodeQueueSize ?? aEncoder?.encodeQueueSize ?? 0,
+    getEncodedVideoFrames: () => vEncoder?.encodedFrames ?? 0,
     flush: async () => {
       await Promise.all([
         vEncoder?.flush(),
@@ -162,6 +180,29 @@ export function recodemux(opts: IRecodeMuxOpts): {
   };
 }
 
+function addMetadata(
+  moov: NonNullable<MP4File['moov']>,
+  tags: NonNullable<IRecodeMuxOpts['metaDataTags']>,
+) {
+  const udtaBox = moov.add('udta');
+  const metaBox = udtaBox.add('meta');
+  metaBox.data = createMetaBox(tags);
+  metaBox.size = metaBox.data.byteLength;
+}
+
+/**
+ * 直接写入的视频样本，解码顺序与显示顺序一致
+ */
+export interface IPassThroughSample {
+  data: Uint8Array;
+  /**
+   * 时间戳，微秒
+   */
+  cts: number;
+  duration: number;
+  isKey: boolean;
+}
+
 function encodeVideoTrack(
   opts: NonNullable<IRecodeMuxOpts['video']>,
   mp4File: MP4File,
@@ -183,56 +224,83 @@ function encodeVideoTrack(
     audioReady = true;
   });
 
+  // passThrough 直接写入的编码数据
   const samplesCache: Record<
-    'encoder0' | 'encoder1',
+    'encoder0' | 'encoder1' | 'passThrough',
     Array<ReturnType<typeof chunk2MP4SampleOpts>>
   > = {
     encoder0: [],
     encoder1: [],
+    passThrough: [],
+  };
+
+  const addTrack = (desc: ArrayBuffer) => {
+    if (trackId !== -1) return;
+    if (opts.passThrough) {
+      // 样本统一使用 4 字节的 NALU 长度字段（lengthSizeMinusOne = 3）
+      new Uint8Array(desc)[4] = 0xff;
+    }
+    videoTrackOpts.avcDecoderConfigRecord = desc;
+    trackId = mp4File.addTrack({
+      ...videoTrackOpts,
+      ...(opts.passThrough ? { type: 'avc3' } : {}),
+    });
+    avSyncEvtTool.emit('VideoReady');
+    Log.info('VideoEncoder, video track ready, trackId:', trackId);
   };
+
+  // passThrough 模式下，关键帧前插入参数集，并统一 NALU 长度字段的字节数
+  const toInBandSample = (
+    sample: ReturnType<typeof chunk2MP4SampleOpts>,
+    paramSets: ReturnType<typeof parseParamSets>,
+  ) => ({
+    ...sample,
+    data: rewriteNALUs(new Uint8Array(sample.data), {
+      fromLengthSize: paramSets.lengthSize,
+      toLengthSize: 4,
+      prepend: sample.is_sync ? paramSets.nalus : [],
+    }).buffer,
+  });
+
+  let encParamSets: ReturnType<typeof parseParamSets> | null = null;
+  let encodedFrames = 0;
   const outputHandler = (
     encId: 'encoder0' | 'encoder1',
     chunk: EncodedVideoChunk,
     meta?: EncodedVideoChunkMetadata,
   ) => {
-    if (trackId === -1 && meta != null) {
-      const desc = meta.decoderConfig?.description as ArrayBuffer;
+    encodedFrames += 1;
+    const desc = meta?.decoderConfig?.description as ArrayBuffer | undefined;
+    if (desc != null && opts.passThrough) {
+      encParamSets = parseParamSets('avc', new Uint8Array(desc));
+    }
+    if (trackId === -1 && desc != null) {
       fixChromeConstraintSetFlagsBug(desc);
-      videoTrackOpts.avcDecoderConfigRecord = desc;
-      trackId = mp4File.addTrack(videoTrackOpts);
-      avSyncEvtTool.emit('VideoReady');
-      Log.info('VideoEncoder, video track ready, trackId:', trackId);
+      addTrack(opts.passThrough ? desc.slice(0) : desc);
     }
 
-    samplesCache[encId].push(chunk2MP4SampleOpts(chunk));
+    const sample = chunk2MP4SampleOpts(chunk);
+    samplesCache[encId].push(
+      opts.passThrough && encParamSets != null
+        ? toInBandSample(sample, encParamSets)
+        : sample,
+    );
   };
 
-  let curEncId: 'encoder0' | 'encoder1' = 'encoder1';
   let lastAddedSampleTime = 0;
   // 小于 10 ms 的帧判定为连续的
   const deltaTime = 10e3;
+  // 按时间连续性依次消费各队列，每次消费一个 GoP
   function checkCache() {
-    if (!audioReady) return;
-    const nextEncId = curEncId === 'encoder1' ? 'encoder0' : 'encoder1';
-    const curCache = samplesCache[curEncId];
-    const nextCache = samplesCache[nextEncId];
-    // 无数据
-    if (curCache.length === 0 && nextCache.length === 0) return;
-
-    let curFirst = curCache[0];
-    if (curFirst != null && curFirst.cts - lastAddedSampleTime < deltaTime) {
-      const lastTs = addSampleToFile(curCache);
+    if (!audioReady || trackId === -1) return;
+    while (true) {
+      const cache = Object.values(samplesCache).find(
+        (c) => c[0] != null && c[0].cts - lastAddedSampleTime < deltaTime,
+      );
+      if (cache == null) return;
+      const lastTs = addSampleToFile(cache);
       if (lastTs > lastAddedSampleTime) lastAddedSampleTime = lastTs;
     }
-
-    // 检测是否需要切换消费队列
-    const nextFirst = nextCache[0];
-    // 另一个队列跟已消费的最后一帧是连续的，则需要切换
-    if (nextFirst != null && nextFirst.cts - lastAddedSampleTime < deltaTime) {
-      curEncId = nextEncId;
-      // 说明另一个队列有数据，尽快消费
-      checkCache();
-    }
   }
 
   function addSampleToFile(
@@ -266,11 +334,33 @@ function encodeVideoTrack(
     get encodeQueueSize() {
       return encoder0.encodeQueueSize + encoder1.encodeQueueSize;
     },
+    get encodedFrames() {
+      return encodedFrames;
+    },
     encode: (vf: VideoFrame, opts: VideoEncoderEncodeOptions) => {
       if (opts.keyFrame) gopId += 1;
       const encoder = gopId % 2 === 0 ? encoder0 : encoder1;
       encoder.encode(vf, opts);
     },
+    addSamples: (samples: IPassThroughSample[], description: Uint8Array) => {
+      if (!opts.passThrough) throw Error('Video pass through is not enabled');
+      addTrack(description.slice().buffer);
+      const paramSets = parseParamSets('avc', description);
+      samplesCache.passThrough.push(
+        ...samples.map((s) =>
+          toInBandSample(
+            {
+              data: s.data.slice().buffer,
+              duration: s.duration,
+              dts: s.cts,
+              cts: s.cts,
+              is_sync: s.isKey,
+            },
+            paramSets,
+          ),
+        ),
+      );
+    },
     flush: async () => {
       await Promise.all([
         encoder0.state === 'configured' ? await encoder0.flush() : null,
@@ -328,8 +418,11 @@ function encodeAudioTrack(
   audioOpts: NonNullable<IRecodeMuxOpts['audio']>,
   mp4File: MP4File,
   avSyncEvtTool: EventTool<Record<'VideoReady' | 'AudioReady', () => void>>,
+  audioOnly: boolean,
 ): AudioEncoder {
   const audioTrackOpts = {
+    // 纯音频文件标识为 M4A
+    ...(audioOnly ? { brands: ['M4A ', 'isom', 'mp42'] } : {}),
     timescale: 1e6,
     samplerate: audioOpts.sampleRate,
     channel_count: audioOpts.channelCount,
@@ -339,14 +432,21 @@ function encodeAudioTrack(
   };
 
   let trackId = -1;
+  const { endTime = Infinity } = audioOpts;
+  const addSample = (chunk: EncodedAudioChunk) => {
+    const s = chunk2MP4SampleOpts(chunk);
+    // 时间小于 0 的音频仅用于预热编码器（如分段输出时分界前的音频）
+    if (s.cts < 0 || s.cts >= endTime) return;
+    // AAC 按 1024 帧编码，flush 时最后一帧会补齐
+    s.duration = Math.min(s.duration, endTime - s.cts);
+    mp4File.addSample(trackId, s.data, s);
+  };
+
   let cache: EncodedAudioChunk[] = [];
   let videoReady = false;
   avSyncEvtTool.once('VideoReady', () => {
     videoReady = true;
-    cache.forEach((c) => {
-      const s = chunk2MP4SampleOpts(c);
-      mp4File.addSample(trackId, s.data, s);
-    });
+    cache.forEach(addSample);
     cache = [];
   });
 
@@ -365,8 +465,7 @@ function encodeAudioTrack(
       }
 
       if (videoReady) {
-        const s = chunk2MP4SampleOpts(chunk);
-        mp4File.addSample(trackId, s.data, s);
+        addSample(chunk);
       } else {
         cache.push(chunk);
       }
@@ -655,7 +754,11 @@ function chunk2MP4SampleOpts(
  * 快速拼接多个mp4 文件流，要求所有 mp4 的属性一致，
  * 属性包括（不限于）：音视频编码格式、分辨率、采样率
  *
+ * 后一个文件的时间从前一个文件结束时开始，结束时间取所有轨道中最大的 cts + duration，
+ * 所有轨道使用相同的偏移量，保持音画同步
+ *
  * @param streams 一个包含 Uint8Array 的可读流数组。
+ * @param opts.metaDataTags 向输出的文件中写入 meta tags 数据
  * @returns 返回一个 Promise，该 Promise 在解析时返回一个包含合并后的 MP4 数据的可读流。
  * @throws 如果无法从流生成文件，将抛出错误。
  *
@@ -665,11 +768,12 @@ function chunk2MP4SampleOpts(
  */
 export async function fastConcatMP4(
   streams: ReadableStream<Uint8Array>[],
+  opts: { metaDataTags?: Record<string, string> } = {},
 ): Promise<ReadableStream<Uint8Array>> {
   const outfile = mp4box.createFile();
 
   const dumpFile = fixMP4BoxFileDuration(outfile);
-  await concatStreamsToMP4BoxFile(streams, outfile);
+  await concatStreamsToMP4BoxFile(streams, outfile, opts.metaDataTags);
   const outStream = await dumpFile();
   if (outStream == null) throw Error('Can not generate file from streams');
   return outStream;
@@ -678,17 +782,16 @@ export async function fastConcatMP4(
 async function concatStreamsToMP4BoxFile(
   streams: ReadableStream<Uint8Array>[],
   outfile: MP4File,
+  metaDataTags?: Record<string, string>,
 ) {
   let vTrackId = 0;
-  let vDTS = 0;
-  let vCTS = 0;
   let aTrackId = 0;
-  let aDTS = 0;
-  let aCTS = 0;
-  // ts bug, 不能正确识别类型
-  let lastVSamp: any = null;
-  let lastASamp: any = null;
+  // 当前文件的起始时间，秒
+  let offsetTime = 0;
+  let metaAdded = false;
   for (const stream of streams) {
+    // 当前文件所有轨道的结束时间，秒
+    let fileEndTime = 0;
     await new Promise<void>(async (resolve) => {
       autoReadStream(stream.pipeThrough(new SampleTransform()), {
         onDone: resolve,
@@ -704,40 +807,32 @@ async function concatStreamsToMP4BoxFile(
             if (aTrackId === 0 && audioTrackConf != null) {
               aTrackId = outfile.addTrack(audioTrackConf);
             }
+            if (metaDataTags != null && outfile.moov != null && !metaAdded) {
+              metaAdded = true;
+              addMetadata(outfile.moov, metaDataTags);
+            }
           } else if (chunkType === 'samples') {
             const { type, samples } = data;
             const trackId = type === 'video' ? vTrackId : aTrackId;
-            const offsetDTS = type === 'video' ? vDTS : aDTS;
-            const offsetCTS = type === 'video' ? vCTS : aCTS;
 
             samples.forEach((s) => {
+              const offset = Math.round(offsetTime * s.timescale);
               outfile.addSample(trackId, s.data, {
                 duration: s.duration,
-                dts: s.dts + offsetDTS,
-                cts: s.cts + offsetCTS,
+                dts: s.dts + offset,
+                cts: s.cts + offset,
                 is_sync: s.is_sync,
               });
+              fileEndTime = Math.max(
+                fileEndTime,
+                (s.cts + s.duration) / s.timescale,
+              );
             });
-
-            const lastSamp = samples.at(-1);
-            if (lastSamp == null) return;
-            if (type === 'video') {
-              lastVSamp = lastSamp;
-            } else if (type === 'audio') {
-              lastASamp = lastSamp;
-            }
           }
         },
       });
     });
-    if (lastVSamp != null) {
-      vDTS += lastVSamp.dts;
-      vCTS += lastVSamp.cts;
-    }
-    if (lastASamp != null) {
-      aDTS += lastASamp.dts;
-      aCTS += lastASamp.cts;
-    }
+    offsetTime += fileEndTime;
   }
 }
 
@@ -1027,7 +1122,7 @@ export function mixinMP4AndAudio(
  * @param config - 配置信息，可以是 `ArrayBuffer` 或 `ArrayBufferView` 类型
  * @return 返回一个 ESDS box
  */
-function createESDSBox(config: ArrayBuffer | ArrayBufferView) {
+export function createESDSBox(config: ArrayBuffer | ArrayBufferView) {
   const configlen = config.byteLength;
   const buf = new Uint8Array([
     0x00, // version 0
@@ -2,15 +2,29 @@ import mp4box, {
   AudioTrackOpts,
   ESDSBoxParser,
   MP4ABoxParser,
+  MP4ArrayBuffer,
   MP4File,
   MP4Info,
   TrakBoxParser,
+  VideoCodecDescBox,
   VideoTrackOpts,
 } from '@webav/mp4box.js';
 import { DEFAULT_AUDIO_CONF } from '../clips';
 
-export function extractFileConfig(file: MP4File, info: MP4Info) {
-  const vTrack = info.videoTracks[0];
+/**
+ * 提取轨道的封装、解码配置
+ * @param opts.videoTrackId 指定视频轨道，默认第一条
+ * @param opts.audioTrackId 指定音频轨道，默认第一条
+ */
+export function extractFileConfig(
+  file: MP4File,
+  info: MP4Info,
+  opts: { videoTrackId?: number; audioTrackId?: number } = {},
+) {
+  const vTrack =
+    opts.videoTrackId == null
+      ? info.videoTracks[0]
+      : info.videoTracks.find((t) => t.id === opts.videoTrackId);
   const rs: {
     videoTrackConf?: VideoTrackOpts;
     videoDecoderConf?: Parameters<VideoDecoder['configure']>[0];
@@ -18,42 +32,55 @@ export function extractFileConfig(file: MP4File, info: MP4Info) {
     audioDecoderConf?: Parameters<AudioDecoder['configure']>[0];
   } = {};
   if (vTrack != null) {
-    const videoDesc = parseVideoCodecDesc(file.getTrackById(vTrack.id)).buffer;
-    const { descKey, type } = vTrack.codec.startsWith('avc1')
-      ? { descKey: 'avcDecoderConfigRecord', type: 'avc1' }
-      : vTrack.codec.startsWith('hvc1')
-        ? { descKey: 'hevcDecoderConfigRecord', type: 'hvc1' }
-        : { descKey: '', type: '' };
-    if (descKey !== '') {
+    const { box: descBox, description: videoDesc } = parseVideoCodecDesc(
+      file.getTrackById(vTrack.id),
+    );
+    const type = vTrack.codec.slice(0, 4);
+    const trackConf = {
+      timescale: vTrack.timescale,
+      duration: vTrack.duration,
+      width: vTrack.video.width,
+      height: vTrack.video.height,
+      brands: info.brands,
+      type,
+    };
+    if (type === 'avc1' || type === 'avc3') {
+      rs.videoTrackConf = {
+        ...trackConf,
+        avcDecoderConfigRecord: videoDesc.buffer,
+      };
+    } else if (type === 'hvc1' || type === 'hev1') {
       rs.videoTrackConf = {
-        timescale: vTrack.timescale,
-        duration: vTrack.duration,
-        width: vTrack.video.width,
-        height: vTrack.video.height,
-        brands: info.brands,
-        type,
-        [descKey]: videoDesc,
+        ...trackConf,
+        hevcDecoderConfigRecord: videoDesc.buffer,
       };
+    } else if (type === 'vp08' || type === 'vp09' || type === 'av01') {
+      // vpcC、av1C 没有实现 write，但解析时保留了原始数据，可直接写入新文件
+      rs.videoTrackConf = { ...trackConf, description_boxes: [descBox] };
     }
 
     rs.videoDecoderConf = {
-      codec: vTrack.codec,
+      codec: parseVideoCodec(vTrack.codec, descBox),
       codedHeight: vTrack.video.height,
       codedWidth: vTrack.video.width,
-      description: videoDesc,
+      // VP8、VP9 不需要 description
+      ...(descBox.type === 'vpcC' ? {} : { description: videoDesc.buffer }),
     };
   }
 
-  const aTrack = info.audioTracks[0];
+  const aTrack =
+    opts.audioTrackId == null
+      ? info.audioTracks[0]
+      : info.audioTracks.find((t) => t.id === opts.audioTrackId);
   if (aTrack != null) {
-    const esdsBox = getESDSBoxFromMP4File(file);
+    const esdsBox = getESDSBox(file.getTrackById(aTrack.id));
     rs.audioTrackConf = {
       timescale: aTrack.timescale,
       samplerate: aTrack.audio.sample_rate,
       channel_count: aTrack.audio.channel_count,
       hdlr: 'soun',
       type: aTrack.codec.startsWith('mp4a') ? 'mp4a' : aTrack.codec,
-      description: getESDSBoxFromMP4File(file),
+      description: esdsBox,
     };
     rs.audioDecoderConf = {
       codec: aTrack.codec.startsWith('mp4a')
@@ -67,11 +94,22 @@ export function extractFileConfig(file: MP4File, info: MP4Info) {
   return rs;
 }
 
-// track is H.264, H.265 or VPX.
-function parseVideoCodecDesc(track: TrakBoxParser): Uint8Array {
+// track is H.264, H.265, VPX or AV1.
+function parseVideoCodecDesc(track: TrakBoxParser): {
+  box: VideoCodecDescBox;
+  description: Uint8Array;
+} {
   for (const entry of track.mdia.minf.stbl.stsd.entries) {
-    // @ts-expect-error
-    const box = entry.avcC ?? entry.hvcC ?? entry.vpcC;
+    const box =
+      'avcC' in entry
+        ? entry.avcC
+        : 'hvcC' in entry
+          ? entry.hvcC
+          : 'vpcC' in entry
+            ? entry.vpcC
+            : 'av1C' in entry
+              ? entry.av1C
+              : null;
     if (box != null) {
       const stream = new mp4box.DataStream(
         undefined,
@@ -79,17 +117,89 @@ function parseVideoCodecDesc(track: TrakBoxParser): Uint8Array {
         mp4box.DataStream.BIG_ENDIAN,
       );
       box.write(stream);
-      return new Uint8Array(stream.buffer.slice(8)); // Remove the box header.
+      // Remove the box header, vpcC is a FullBox that contains version and flags
+      const headerSize = box.type === 'vpcC' ? 12 : 8;
+      return {
+        box,
+        description: new Uint8Array(stream.buffer.slice(headerSize)),
+      };
     }
   }
-  throw Error('avcC, hvcC or VPX not found');
+  throw Error('avcC, hvcC, vpcC or av1C not found');
+}
+
+/**
+ * 解析 tkhd 显示矩阵中的旋转角度（顺时针），取最接近的 0、90、180、270
+ * @param matrix [a, b, u, c, d, v, x, y, w]
+ */
+export function parseMatrixRotation(matrix: ArrayLike<number>) {
+  const a = matrix[0];
+  const b = matrix[1];
+  if (a == null || b == null || (a === 0 && b === 0)) return 0;
+  const deg = (Math.atan2(b, a) * 180) / Math.PI;
+  return (((Math.round(deg / 90) * 90) % 360) + 360) % 360;
+}
+
+/**
+ * 是否为支持提取的字幕轨道（3GPP Timed Text、WebVTT）
+ */
+export function isTextTrackCodec(codec: string) {
+  return codec === 'tx3g' || codec === 'wvtt';
+}
+
+/**
+ * 解析 tx3g、wvtt 字幕样本中的文本，空样本（字幕间隔）返回空字符串
+ */
+export function parseTextSample(codec: string, data: Uint8Array) {
+  if (codec === 'tx3g') {
+    if (data.byteLength < 2) return '';
+    // 前 2 字节为文本长度，之后是可选的样式 box
+    const len = Math.min((data[0] << 8) | data[1], data.byteLength - 2);
+    const txt = data.subarray(2, 2 + len);
+    // 以 BOM 开头表示 UTF-16 编码
+    return txt[0] === 0xfe && txt[1] === 0xff
+      ? new TextDecoder('utf-16be').decode(txt.subarray(2))
+      : new TextDecoder().decode(txt);
+  }
+  if (codec === 'wvtt') {
+    // 每个 vttc box 为一条字幕，空字幕为 vtte box
+    return findChildBoxes(data, 'vttc')
+      .flatMap((vttc) => findChildBoxes(vttc, 'payl'))
+      .map((payl) => new TextDecoder().decode(payl).trim())
+      .join('\n');
+  }
+  return '';
 }
 
-function getESDSBoxFromMP4File(file: MP4File, codec = 'mp4a') {
-  const mp4aBox = file.moov?.traks
-    .map((t) => t.mdia.minf.stbl.stsd.entries)
-    .flat()
-    .find(({ type }) => type === codec) as MP4ABoxParser;
+// 查找指定类型的 box，返回 box 的内容（不含 header）
+function findChildBoxes(data: Uint8Array, type: string) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const rs: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 8 <= data.byteLength) {
+    const size = view.getUint32(offset);
+    if (size < 8 || offset + size > data.byteLength) break;
+    const boxType = String.fromCharCode(
+      ...data.subarray(offset + 4, offset + 8),
+    );
+    if (boxType === type) rs.push(data.subarray(offset + 8, offset + size));
+    offset += size;
+  }
+  return rs;
+}
+
+// WebCodecs 不支持 mp4box.js 生成的 VP8 codec，且 VP9 各字段需要补齐两位
+function parseVideoCodec(codec: string, box: VideoCodecDescBox) {
+  if (box.type !== 'vpcC') return codec;
+  if (codec.startsWith('vp08')) return 'vp8';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `vp09.${pad(box.profile)}.${pad(box.level)}.${pad(box.bitDepth)}`;
+}
+
+function getESDSBox(track: TrakBoxParser, codec = 'mp4a') {
+  const mp4aBox = track.mdia.minf.stbl.stsd.entries.find(
+    ({ type }) => type === codec,
+  ) as MP4ABoxParser | undefined;
 
   return mp4aBox?.esds;
 }
@@ -114,6 +224,50 @@ function parseAudioInfo4ESDSBox(esds: ESDSBoxParser) {
   };
 }
 
+/**
+ * 仅读取 moov box 解析 MP4 文件信息及样本表，跳过媒体数据（mdat）
+ *
+ * 用于远程文件等读取成本较高的场景，不支持 Fragmented MP4
+ * @param reader 随机读取文件数据
+ * @param opts.fragmented 允许 Fragmented MP4，此时仅轨道信息（如 sample entry）可用，样本表为空
+ */
+export async function parseMP4Moov(
+  reader: {
+    read: (size: number, opts: { at: number }) => Promise<ArrayBuffer>;
+  },
+  opts: { fragmented?: boolean } = {},
+) {
+  const file = mp4box.createFile();
+  let info: MP4Info | null = null;
+  let parseErr: string | null = null;
+  file.onReady = (i) => {
+    info = i;
+  };
+  file.onError = (e) => {
+    parseErr = e;
+  };
+
+  // appendBuffer 返回下一次需要的数据位置，mdat 会被直接跳过
+  let next = 0;
+  while (info == null) {
+    const buf = (await reader.read(MOOV_READ_SIZE, {
+      at: next,
+    })) as MP4ArrayBuffer;
+    if (buf.byteLength === 0) throw Error('MP4 moov box not found');
+    buf.fileStart = next;
+    const rs = file.appendBuffer(buf);
+    if (parseErr != null) throw Error(`Parse MP4 failed: ${parseErr}`);
+    next = rs ?? next + buf.byteLength;
+  }
+  const mp4Info = info as MP4Info;
+  if (mp4Info.isFragmented && opts.fragmented !== true) {
+    throw Error('Fragmented MP4 is not supported');
+  }
+  return { file, info: mp4Info };
+}
+
+const MOOV_READ_SIZE = 64 * 1024;
+
 /**
  * 强行回收 mp4boxfile 尽量降低内存占用，会破坏 file 导致无法正常使用
  * 仅用于获取二进制后，不再需要任何 file 功能的场景
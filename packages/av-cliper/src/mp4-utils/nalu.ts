@@ -0,0 +1,73 @@
+/**
+ * 解析 avcC、hvcC 中的参数集（SPS、PPS、VPS）及 NALU 长度字段的字节数
+ */
+export function parseParamSets(type: 'avc' | 'hevc', desc: Uint8Array) {
+  const dv = new DataView(desc.buffer, desc.byteOffset, desc.byteLength);
+  const nalus: Uint8Array[] = [];
+  const readNALU = (pos: number) => {
+    const len = dv.getUint16(pos);
+    nalus.push(desc.slice(pos + 2, pos + 2 + len));
+    return pos + 2 + len;
+  };
+
+  if (type === 'avc') {
+    let pos = 5;
+    const spsCnt = dv.getUint8(pos) & 0x1f;
+    pos += 1;
+    for (let i = 0; i < spsCnt; i++) pos = readNALU(pos);
+    const ppsCnt = dv.getUint8(pos);
+    pos += 1;
+    for (let i = 0; i < ppsCnt; i++) pos = readNALU(pos);
+    return { lengthSize: (dv.getUint8(4) & 0x03) + 1, nalus };
+  }
+
+  const arrCnt = dv.getUint8(22);
+  let pos = 23;
+  for (let i = 0; i < arrCnt; i++) {
+    const naluCnt = dv.getUint16(pos + 1);
+    pos += 3;
+    for (let j = 0; j < naluCnt; j++) pos = readNALU(pos);
+  }
+  return { lengthSize: (dv.getUint8(21) & 0x03) + 1, nalus };
+}
+
+/**
+ * 重新封装样本中的 NALU：转换长度字段的字节数，并在头部插入 NALU（如参数集）
+ */
+export function rewriteNALUs(
+  data: Uint8Array,
+  opts: {
+    fromLengthSize: number;
+    toLengthSize: number;
+    prepend?: Uint8Array[];
+  },
+) {
+  const { fromLengthSize, toLengthSize, prepend = [] } = opts;
+  const nalus = [...prepend];
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let pos = 0; pos + fromLengthSize <= data.byteLength; ) {
+    let len = 0;
+    for (let i = 0; i < fromLengthSize; i++) {
+      len = len * 256 + dv.getUint8(pos + i);
+    }
+    pos += fromLengthSize;
+    nalus.push(data.subarray(pos, pos + len));
+    pos += len;
+  }
+
+  const rs = new Uint8Array(
+    nalus.reduce((acc, n) => acc + toLengthSize + n.byteLength, 0),
+  );
+  let offset = 0;
+  for (const n of nalus) {
+    if (n.byteLength >= 2 ** (toLengthSize * 8)) {
+      throw Error(`NALU size exceeds ${toLengthSize} bytes length field`);
+    }
+    for (let i = toLengthSize - 1; i >= 0; i--) {
+      rs[offset + i] = (n.byteLength >> ((toLengthSize - 1 - i) * 8)) & 0xff;
+    }
+    rs.set(n, offset + toLengthSize);
+    offset += toLengthSize + n.byteLength;
+  }
+  return rs;
+}
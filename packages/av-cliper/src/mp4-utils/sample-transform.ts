@@ -4,6 +4,7 @@ import mp4box, {
   MP4Info,
   MP4Sample,
 } from '@webav/mp4box.js';
+import { isTextTrackCodec } from './mp4box-utils';
 
 /**
  * 将原始字节流转换成 MP4Sample 流
@@ -16,7 +17,11 @@ export class SampleTransform {
       }
     | {
         chunkType: 'samples';
-        data: { id: number; type: 'video' | 'audio'; samples: MP4Sample[] };
+        data: {
+          id: number;
+          type: 'video' | 'audio' | 'text';
+          samples: MP4Sample[];
+        };
       }
   >;
 
@@ -24,7 +29,11 @@ export class SampleTransform {
 
   #inputBufOffset = 0;
 
-  constructor() {
+  /**
+   * @param opts.audioTrackIds 需要提取的音频轨道，默认仅第一条音频轨道
+   * @param opts.text 是否提取字幕轨道（tx3g、wvtt），默认不提取
+   */
+  constructor(opts: { audioTrackIds?: number[]; text?: boolean } = {}) {
     const file = mp4box.createFile();
     let streamCancelled = false;
     this.readable = new ReadableStream(
@@ -35,9 +44,17 @@ export class SampleTransform {
             if (vTrackId != null)
               file.setExtractionOptions(vTrackId, 'video', { nbSamples: 100 });
 
-            const aTrackId = info.audioTracks[0]?.id;
-            if (aTrackId != null)
-              file.setExtractionOptions(aTrackId, 'audio', { nbSamples: 100 });
+            const aTrackIds = info.audioTracks.map((t) => t.id);
+            const extractIds =
+              opts.audioTrackIds?.filter((id) => aTrackIds.includes(id)) ??
+              aTrackIds.slice(0, 1);
+            for (const id of extractIds) {
+              file.setExtractionOptions(id, 'audio', { nbSamples: 100 });
+            }
+            for (const t of info.tracks) {
+              if (opts.text !== true || !isTextTrackCodec(t.codec)) continue;
+              file.setExtractionOptions(t.id, 'text', { nbSamples: 100 });
+            }
 
             ctrl.enqueue({ chunkType: 'ready', data: { info, file } });
             file.start();
@@ -0,0 +1,64 @@
+import { expect, test } from 'vitest';
+import { calcOggCRC, createOggOpusMuxer } from '../ogg-muxer';
+
+function parsePage(page: Uint8Array) {
+  const dv = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  const segCnt = page[26];
+  const segments = [...page.subarray(27, 27 + segCnt)];
+  const withoutCRC = page.slice();
+  withoutCRC.fill(0, 22, 26);
+  return {
+    magic: new TextDecoder().decode(page.subarray(0, 4)),
+    flags: page[5],
+    granule: dv.getUint32(6, true) + dv.getUint32(10, true) * 2 ** 32,
+    seq: dv.getUint32(18, true),
+    crcValid: dv.getUint32(22, true) === calcOggCRC(withoutCRC),
+    segments,
+    data: page.subarray(27 + segCnt),
+  };
+}
+
+test('calcOggCRC', () => {
+  expect(calcOggCRC(new TextEncoder().encode('OggS'))).toBe(0x5fb0a94f);
+});
+
+test('mux opus packets into ogg pages', () => {
+  const pages: Uint8Array[] = [];
+  const opusHead = new Uint8Array(19);
+  opusHead.set(new TextEncoder().encode('OpusHead'));
+  // pre-skip 312
+  opusHead[10] = 312 & 0xff;
+  opusHead[11] = 312 >> 8;
+  const muxer = createOggOpusMuxer({
+    opusHead,
+    sampleRate: 48000,
+    channelCount: 2,
+    onPage: (p) => pages.push(p),
+  });
+  expect(pages.length).toBe(2);
+
+  // 60 个 20ms 的数据包，第 50 个包时满 1s 输出一页
+  for (let i = 0; i < 60; i++) {
+    muxer.addPacket(new Uint8Array(i === 0 ? 255 : 10).fill(i), 20e3);
+  }
+  expect(pages.length).toBe(3);
+  // 实际时长 1.19s，裁剪最后一个包的填充采样
+  muxer.finalize(1.19e6);
+
+  const parsed = pages.map(parsePage);
+  expect(parsed.every((p) => p.magic === 'OggS' && p.crcValid)).toBe(true);
+  expect(parsed.map((p) => p.seq)).toEqual([0, 1, 2, 3]);
+  expect(parsed.map((p) => p.flags)).toEqual([0x02, 0, 0, 0x04]);
+  expect(parsed.map((p) => p.granule)).toEqual([
+    0,
+    0,
+    312 + 50 * 960,
+    312 + 57120,
+  ]);
+  expect(new TextDecoder().decode(parsed[1].data.subarray(0, 8))).toBe(
+    'OpusTags',
+  );
+  // 255 字节的数据包以 0 结束
+  expect(parsed[2].segments.slice(0, 3)).toEqual([255, 0, 10]);
+  expect(parsed[3].segments.length).toBe(10);
+});
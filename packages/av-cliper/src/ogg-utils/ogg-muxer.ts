@@ -0,0 +1,273 @@
+import { tmpfile } from 'opfs-tools';
+import { Log } from '../log';
+import type { IRecodeMuxOpts } from '../mp4-utils';
+
+// Opus 的 granule position 固定以 48kHz 计数
+const OPUS_GRANULE_RATE = 48000;
+// 每页最多 255 个 lacing 值
+const MAX_PAGE_SEGMENTS = 255;
+// 超过该时长（微秒）输出当前页，控制页的大小
+const MAX_PAGE_DURATION = 1e6;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Ogg 页的校验值（多项式 0x04c11db7，初始值 0，计算时校验字段为 0）
+ */
+export function calcOggCRC(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * 生成 OpusHead（RFC 7845），用于 Ogg 的首个数据包及 WebM 的 CodecPrivate
+ * @param preSkip 解码后需丢弃的采样数（48kHz）
+ */
+export function createOpusHead(
+  sampleRate: number,
+  channelCount: number,
+  preSkip = 0,
+) {
+  const buf = new Uint8Array(19);
+  const dv = new DataView(buf.buffer);
+  buf.set(new TextEncoder().encode('OpusHead'), 0);
+  // version
+  buf[8] = 1;
+  buf[9] = channelCount;
+  dv.setUint16(10, preSkip, true);
+  dv.setUint32(12, sampleRate, true);
+  // output gain
+  dv.setInt16(16, 0, true);
+  // channel mapping family
+  buf[18] = 0;
+  return buf;
+}
+
+function createOpusTags() {
+  const vendor = new TextEncoder().encode('WebAV');
+  const buf = new Uint8Array(8 + 4 + vendor.byteLength + 4);
+  const dv = new DataView(buf.buffer);
+  buf.set(new TextEncoder().encode('OpusTags'), 0);
+  dv.setUint32(8, vendor.byteLength, true);
+  buf.set(vendor, 12);
+  // user comment list length
+  dv.setUint32(12 + vendor.byteLength, 0, true);
+  return buf;
+}
+
+/**
+ * 创建 Ogg Opus 封装器，生成的页通过 onPage 按顺序输出
+ *
+ * 每页仅包含完整的数据包，页的 granule position 为页内最后一个数据包结束时的采样数（含 pre-skip）
+ */
+export function createOggOpusMuxer(opts: {
+  /**
+   * 编码器输出的 OpusHead，缺省时根据 sampleRate、channelCount 生成
+   */
+  opusHead?: Uint8Array;
+  sampleRate: number;
+  channelCount: number;
+  onPage: (page: Uint8Array) => void;
+}) {
+  const opusHead =
+    opts.opusHead ?? createOpusHead(opts.sampleRate, opts.channelCount);
+  const preSkip = new DataView(
+    opusHead.buffer,
+    opusHead.byteOffset,
+    opusHead.byteLength,
+  ).getUint16(10, true);
+  const serial = Math.floor(Math.random() * 2 ** 32);
+
+  let pageSeq = 0;
+  // 已写入数据包的采样数（48kHz），不含 pre-skip
+  let granule = 0;
+  let packets: Uint8Array[] = [];
+  let pageDuration = 0;
+  let finalized = false;
+
+  function writePage(
+    data: Uint8Array[],
+    pageGranule: number,
+    flags: { bos?: boolean; eos?: boolean } = {},
+  ) {
+    const segments: number[] = [];
+    for (const p of data) {
+      for (let len = p.byteLength; len >= 0; len -= 255) {
+        segments.push(Math.min(len, 255));
+        // 长度为 255 整数倍时以 0 结束
+        if (len < 255) break;
+      }
+    }
+    const dataSize = data.reduce((acc, p) => acc + p.byteLength, 0);
+    const page = new Uint8Array(27 + segments.length + dataSize);
+    const dv = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53], 0);
+    // version
+    page[4] = 0;
+    page[5] = (flags.bos ? 0x02 : 0) | (flags.eos ? 0x04 : 0);
+    dv.setUint32(6, pageGranule % 2 ** 32, true);
+    dv.setUint32(10, Math.floor(pageGranule / 2 ** 32), true);
+    dv.setUint32(14, serial, true);
+    dv.setUint32(18, pageSeq, true);
+    page[26] = segments.length;
+    page.set(segments, 27);
+    let offset = 27 + segments.length;
+    for (const p of data) {
+      page.set(p, offset);
+      offset += p.byteLength;
+    }
+    dv.setUint32(22, calcOggCRC(page), true);
+    pageSeq += 1;
+    opts.onPage(page);
+  }
+
+  const segmentCount = (p: Uint8Array) => Math.floor(p.byteLength / 255) + 1;
+
+  function flushPage(eos = false) {
+    if (packets.length === 0 && !eos) return;
+    writePage(packets, preSkip + granule, { eos });
+    packets = [];
+    pageDuration = 0;
+  }
+
+  // 头部两个数据包各自独占一页
+  writePage([opusHead], 0, { bos: true });
+  writePage([createOpusTags()], 0);
+
+  return {
+    /**
+     * 写入一个 Opus 数据包
+     * @param duration 数据包时长，单位 微秒
+     */
+    addPacket(data: Uint8Array, duration: number) {
+      if (finalized) throw Error('Ogg muxer finalized');
+      if (segmentCount(data) > MAX_PAGE_SEGMENTS) {
+        throw Error(`Opus packet too large: ${data.byteLength}`);
+      }
+      const curSegments = packets.reduce((acc, p) => acc + segmentCount(p), 0);
+      if (curSegments + segmentCount(data) > MAX_PAGE_SEGMENTS) flushPage();
+
+      packets.push(data);
+      granule += Math.round((duration * OPUS_GRANULE_RATE) / 1e6);
+      pageDuration += duration;
+      if (pageDuration >= MAX_PAGE_DURATION) flushPage();
+    },
+    /**
+     * 输出最后一页（EOS）
+     * @param duration 音频的实际时长（微秒），用于裁剪最后一个数据包中的填充采样
+     */
+    finalize(duration?: number) {
+      if (finalized) throw Error('Ogg muxer finalized');
+      finalized = true;
+      if (duration != null) {
+        granule = Math.min(
+          granule,
+          Math.round((duration * OPUS_GRANULE_RATE) / 1e6),
+        );
+      }
+      flushPage(true);
+    },
+  };
+}
+
+/**
+ * 编码音频数据，封装为 Ogg Opus 文件
+ *
+ * 编码过程中数据页写入临时文件，调用 output 后得到完整的文件流
+ */
+export function recodemuxOgg(audioOpts: NonNullable<IRecodeMuxOpts['audio']>): {
+  encodeAudio: (data: AudioData) => void;
+  close: () => void;
+  flush: () => Promise<void>;
+  output: () => Promise<ReadableStream<Uint8Array>>;
+  getEncodeQueueSize: () => number;
+} {
+  Log.info('recodemuxOgg opts:', audioOpts);
+  const { sampleRate, channelCount } = audioOpts;
+
+  const pagesFile = tmpfile();
+  const writerPromise = pagesFile.createWriter();
+  let writeQueue = writerPromise.then(() => {});
+  const onPage = (page: Uint8Array) => {
+    writeQueue = writeQueue.then(async () => {
+      await (await writerPromise).write(page);
+    });
+  };
+
+  let muxer: ReturnType<typeof createOggOpusMuxer> | null = null;
+  // 输入的音频时长，微秒
+  let inputDuration = 0;
+
+  const encoder = new AudioEncoder({
+    error: Log.error,
+    output: (chunk, meta) => {
+      if (muxer == null) {
+        const desc = meta?.decoderConfig?.description;
+        muxer = createOggOpusMuxer({
+          // 某些设备不会输出 description
+          opusHead: desc == null ? undefined : buf2U8(desc),
+          sampleRate,
+          channelCount,
+          onPage,
+        });
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addPacket(data, chunk.duration ?? 0);
+    },
+  });
+  encoder.configure({
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels: channelCount,
+    bitrate: 128_000,
+  });
+
+  let outputted = false;
+  return {
+    encodeAudio: (ad) => {
+      inputDuration += (ad.numberOfFrames / ad.sampleRate) * 1e6;
+      encoder.encode(ad);
+      ad.close();
+    },
+    getEncodeQueueSize: () => encoder.encodeQueueSize,
+    flush: async () => {
+      if (encoder.state === 'configured') await encoder.flush();
+    },
+    close: () => {
+      if (encoder.state === 'configured') encoder.close();
+    },
+    output: async () => {
+      if (outputted) throw Error('File exported');
+      outputted = true;
+
+      (
+        muxer ?? createOggOpusMuxer({ sampleRate, channelCount, onPage })
+      ).finalize(inputDuration);
+      await writeQueue;
+      await (await writerPromise).close();
+      return await pagesFile.stream();
+    },
+  };
+}
+
+function buf2U8(buf: AllowSharedBufferSource) {
+  return ArrayBuffer.isView(buf)
+    ? new Uint8Array(
+        buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength),
+      )
+    : new Uint8Array(buf.slice(0));
+}
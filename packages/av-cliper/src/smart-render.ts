@@ -0,0 +1,83 @@
+interface ISmartRenderSprite {
+  time: { offset: number; duration: number };
+  /**
+   * 是否绘制图像，纯音频素材不影响画面
+   */
+  visual: boolean;
+  /**
+   * 可直接复制的 GoP（素材时间），null 表示该素材需要绘制
+   */
+  gops: Array<{ start: number; end: number }> | null;
+}
+
+/**
+ * 直接复制编码数据的区间（时间轴时间）
+ */
+export interface ISmartRenderSpan {
+  // 素材在 sprites 中的索引
+  spriteIdx: number;
+  start: number;
+  end: number;
+  // 区间包含的 GoP（时间轴时间），按时间升序
+  gops: Array<{ start: number; end: number }>;
+}
+
+/**
+ * 分析时间轴，找出可以直接复制编码数据的区间（smart render）
+ *
+ * GoP 完整位于素材的时间范围内、不在转场等需要合成的区间内，且上层没有其他绘制图像的素材时可直接复制；
+ * 下层素材被全屏的素材完全遮挡，不影响画面
+ * @param sprites 按绘制顺序（层级从低到高）排列的素材
+ * @param opts.maxTime 输出的时长，微秒
+ * @param opts.blocked 必须合成的区间，如转场
+ */
+export function planSmartRender(
+  sprites: ISmartRenderSprite[],
+  opts: {
+    maxTime: number;
+    blocked?: Array<{ start: number; end: number }>;
+  },
+): ISmartRenderSpan[] {
+  const { maxTime, blocked = [] } = opts;
+  const overlaps = (
+    a: { start: number; end: number },
+    b: { start: number; end: number },
+  ) => a.start < b.end && b.start < a.end;
+
+  const spans: ISmartRenderSpan[] = [];
+  sprites.forEach((spr, idx) => {
+    if (spr.gops == null) return;
+    const { offset, duration } = spr.time;
+    const uppers = sprites
+      .slice(idx + 1)
+      .filter((it) => it.visual)
+      // Combinator 在素材结束时刻仍会绘制一帧，结束时间按闭区间处理
+      .map((it) => ({
+        start: it.time.offset,
+        end: it.time.offset + it.time.duration + 1,
+      }));
+
+    let span: ISmartRenderSpan | null = null;
+    for (const gop of spr.gops) {
+      const range = { start: offset + gop.start, end: offset + gop.end };
+      const copyable =
+        gop.start >= 0 &&
+        gop.end <= duration &&
+        range.end <= maxTime &&
+        !blocked.some((it) => overlaps(it, range)) &&
+        !uppers.some((it) => overlaps(it, range));
+      if (!copyable) {
+        span = null;
+        continue;
+      }
+      if (span != null && span.end === range.start) {
+        span.end = range.end;
+        span.gops.push(range);
+      } else {
+        span = { spriteIdx: idx, ...range, gops: [range] };
+        spans.push(span);
+      }
+    }
+  });
+  return spans.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,75 @@
+import { expect, test } from 'vitest';
+import {
+  applyAudioGain,
+  checkTransition,
+  getTransitionState,
+} from '../transition';
+
+const from = { time: { offset: 0, duration: 5e6 } };
+const to = { time: { offset: 5e6, duration: 5e6 } };
+const opts = { name: 'crossfade' as const, duration: 2e6 };
+
+test('getTransitionState', () => {
+  // 转场区间 [4s, 6s)
+  expect(getTransitionState(3.9e6, from, to, opts)).toBeNull();
+  expect(getTransitionState(6e6, from, to, opts)).toBeNull();
+  expect(getTransitionState(4e6, from, to, opts)).toEqual({
+    progress: 0,
+    fromTime: 4e6,
+    toTime: 0,
+    fromGain: 1,
+    toGain: 0,
+  });
+  expect(getTransitionState(4.5e6, from, to, opts)).toEqual({
+    progress: 0.25,
+    fromTime: 4.5e6,
+    // 停留在 to 的第一帧，没有音频
+    toTime: 0,
+    fromGain: 0.5,
+    toGain: 0,
+  });
+  expect(getTransitionState(5.5e6, from, to, opts)).toEqual({
+    progress: 0.75,
+    // 停留在 from 的最后一帧，没有音频
+    fromTime: 5e6 - 1,
+    toTime: 0.5e6,
+    fromGain: 0,
+    toGain: 0.5,
+  });
+});
+
+test('getTransitionState with overlapping sprites', () => {
+  const overlapTo = { time: { offset: 4e6, duration: 5e6 } };
+  const state = getTransitionState(4.5e6, from, overlapTo, opts);
+  expect(state?.progress).toBe(0.75);
+  expect(state?.fromTime).toBe(4.5e6);
+  expect(state?.toTime).toBe(0.5e6);
+  // 重叠部分交叉淡化
+  expect(state?.fromGain).toBe(0.25);
+  expect(state?.toGain).toBe(0.5);
+});
+
+test('checkTransition', () => {
+  expect(() => checkTransition(from, to, opts)).not.toThrow();
+  expect(() => checkTransition(to, from, opts)).toThrowError(
+    'Transition from sprite must start before to sprite',
+  );
+  expect(() => checkTransition(from, from, opts)).toThrowError(
+    'Transition sprites must be different',
+  );
+  expect(() => checkTransition(from, to, { ...opts, duration: 0 })).toThrow();
+  expect(() =>
+    checkTransition(from, to, { name: 'custom', duration: 1e6 }),
+  ).toThrowError('Custom transition requires shader');
+});
+
+test('applyAudioGain', () => {
+  const pcm = [new Float32Array([0.5, -1]), new Float32Array([1, 0])];
+  expect(applyAudioGain(pcm, 1)).toBe(pcm);
+  expect(applyAudioGain(pcm, 0.5).map((c) => [...c])).toEqual([
+    [0.25, -0.5],
+    [0.5, 0],
+  ]);
+  // 不修改原数据
+  expect([...pcm[0]]).toEqual([0.5, -1]);
+});
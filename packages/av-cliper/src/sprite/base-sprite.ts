@@ -82,6 +82,13 @@ export abstract class BaseSprite {
 
   #animatOpts: Required<IAnimationOpts> | null = null;
 
+  /**
+   * 是否已设置动画
+   */
+  get hasAnimation(): boolean {
+    return this.#animatKeyFrame != null;
+  }
+
   /**
    * @see {@link IClip.ready}
    */
@@ -19,9 +19,13 @@ import { Log } from '../log';
  */
 export class OffscreenSprite extends BaseSprite {
   #clip: IClip;
+  getClip() {
+    return this.#clip;
+  }
 
   // 保持最近一帧，若 clip 在当前帧无数据，则绘制最近一帧
   #lastVf: VideoFrame | ImageBitmap | null = null;
+  #lastTime = -1;
 
   #destroyed = false;
 
@@ -50,6 +54,14 @@ export class OffscreenSprite extends BaseSprite {
     this.animate(time);
     super._render(ctx);
     const { w, h } = this.rect;
+    // 与上次时刻相同（如转场中停留在首、尾帧），直接绘制最近一帧，避免 clip 重复解码；
+    // 该时刻的音频已输出，所以不再返回音频，转场音频的淡入淡出见 getTransitionState
+    if (time === this.#lastTime && this.#lastVf != null) {
+      ctx.drawImage(this.#lastVf, -w / 2, -h / 2, w, h);
+      return { audio: [], done: false };
+    }
+    this.#lastTime = time;
+
     const { video, audio, state } = await this.#clip.tick(time);
     if (state === 'done') {
       return {
@@ -0,0 +1,331 @@
+/**
+ * 内置转场效果；custom 使用自定义 GLSL 着色器
+ */
+export type TTransitionName =
+  | 'crossfade'
+  | 'dip-to-black'
+  | 'slide'
+  | 'wipe'
+  | 'zoom'
+  | 'custom';
+
+export interface ITransitionOpts {
+  name: TTransitionName;
+  /**
+   * 转场时长，单位 微秒；转场区间以后一个素材的开始时间为中心
+   */
+  duration: number;
+  /**
+   * slide、wipe 的运动方向，默认 left（后一个素材从右侧进入）
+   */
+  direction?: 'left' | 'right' | 'up' | 'down';
+  /**
+   * name 为 custom 时的 GLSL 片元着色器，格式同 [gl-transitions](https://gl-transitions.com)：
+   * 实现 `vec4 transition(vec2 uv)`，可使用 `getFromColor(uv)`、`getToColor(uv)`、`progress`、`ratio`
+   */
+  shader?: string;
+}
+
+interface ITransitionSprite {
+  time: { offset: number; duration: number };
+}
+
+/**
+ * 检查转场配置及两个素材的时间关系
+ */
+export function checkTransition(
+  from: ITransitionSprite,
+  to: ITransitionSprite,
+  opts: ITransitionOpts,
+) {
+  if (from === to) throw Error('Transition sprites must be different');
+  if (!(opts.duration > 0)) {
+    throw Error(`Invalid transition duration: ${opts.duration}`);
+  }
+  if (from.time.offset >= to.time.offset) {
+    throw Error('Transition from sprite must start before to sprite');
+  }
+  if (opts.name === 'custom' && opts.shader == null) {
+    throw Error('Custom transition requires shader');
+  }
+}
+
+/**
+ * 转场的时间区间 [start, end)，以 to 的开始时间为中心
+ */
+export function getTransitionRange(
+  to: ITransitionSprite,
+  opts: ITransitionOpts,
+) {
+  const start = to.time.offset - opts.duration / 2;
+  return { start, end: start + opts.duration };
+}
+
+/**
+ * 计算指定时刻的转场状态，不在转场区间内返回 null
+ *
+ * 转场区间超出素材时间范围的部分保持首、尾帧，停留在首、尾帧期间没有音频；
+ * 所以音频仅在素材实际有数据的时间内淡出、淡入：from 在转场开始至其结束时刻之间淡出至 0，
+ * to 在其开始时刻至转场结束之间从 0 淡入，两个素材时间重叠时即为交叉淡化
+ * @param time 时间轴上的时刻，微秒
+ */
+export function getTransitionState(
+  time: number,
+  from: ITransitionSprite,
+  to: ITransitionSprite,
+  opts: ITransitionOpts,
+): {
+  progress: number;
+  // 两个素材各自的时间，微秒
+  fromTime: number;
+  toTime: number;
+  fromGain: number;
+  toGain: number;
+} | null {
+  const { start, end } = getTransitionRange(to, opts);
+  if (time < start || time >= end) return null;
+
+  const progress = (time - start) / opts.duration;
+  const fromEnd = Math.min(end, from.time.offset + from.time.duration);
+  const toStart = Math.max(start, to.time.offset);
+  return {
+    progress,
+    // 停留在最后一帧
+    fromTime: Math.max(
+      0,
+      Math.min(time - from.time.offset, from.time.duration - 1),
+    ),
+    // 停留在第一帧
+    toTime: Math.max(0, time - to.time.offset),
+    fromGain: 1 - rampProgress(time, start, fromEnd),
+    toGain: rampProgress(time, toStart, end),
+  };
+}
+
+// time 在 [a, b) 内线性变化的进度，区间外取 0 或 1
+function rampProgress(time: number, a: number, b: number) {
+  if (time < a) return 0;
+  if (time >= b) return 1;
+  return (time - a) / (b - a);
+}
+
+/**
+ * 按增益调整 PCM 音量，返回新的数据
+ */
+export function applyAudioGain(pcm: Float32Array[], gain: number) {
+  if (gain === 1) return pcm;
+  return pcm.map((chan) => chan.map((v) => v * gain));
+}
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPos;
+out vec2 vUV;
+void main() {
+  vUV = aPos * 0.5 + 0.5;
+  gl_Position = vec4(aPos, 0.0, 1.0);
+}`;
+
+const createFragmentShader = (shader: string) => `#version 300 es
+precision highp float;
+uniform sampler2D uFrom;
+uniform sampler2D uTo;
+uniform float progress;
+uniform float ratio;
+in vec2 vUV;
+out vec4 fragColor;
+vec4 getFromColor(vec2 uv) { return texture(uFrom, uv); }
+vec4 getToColor(vec2 uv) { return texture(uTo, uv); }
+${shader}
+void main() { fragColor = transition(vUV); }`;
+
+/**
+ * 创建转场渲染器，{@link Combinator} 与 AVCanvas 共用，保证导出与预览效果一致
+ *
+ * 两个素材先分别绘制到 fromCtx、toCtx（与画布同尺寸的图层），再由 composite 合成到画布
+ */
+export function createTransitionRenderer(width: number, height: number) {
+  const createLayer = () => {
+    const ctx = new OffscreenCanvas(width, height).getContext('2d');
+    if (ctx == null) throw Error('Can not create 2d offscreen context');
+    return ctx;
+  };
+  const fromCtx = createLayer();
+  const toCtx = createLayer();
+
+  let glRenderer: ReturnType<typeof createGLRenderer> | null = null;
+
+  return {
+    fromCtx,
+    toCtx,
+    /**
+     * 清空两个图层，绘制素材前调用
+     */
+    clear() {
+      for (const ctx of [fromCtx, toCtx]) {
+        ctx.resetTransform();
+        ctx.clearRect(0, 0, width, height);
+      }
+    },
+    /**
+     * 将两个图层按转场进度合成到 ctx
+     */
+    composite(
+      ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+      progress: number,
+      opts: ITransitionOpts,
+    ) {
+      const from = fromCtx.canvas;
+      const to = toCtx.canvas;
+      ctx.save();
+      ctx.resetTransform();
+      ctx.globalAlpha = 1;
+      switch (opts.name) {
+        case 'crossfade':
+          ctx.drawImage(from, 0, 0);
+          ctx.globalAlpha = progress;
+          ctx.drawImage(to, 0, 0);
+          break;
+        case 'dip-to-black':
+          ctx.drawImage(progress < 0.5 ? from : to, 0, 0);
+          ctx.globalAlpha = 1 - Math.abs(progress * 2 - 1);
+          ctx.fillStyle = '#000';
+          ctx.fillRect(0, 0, width, height);
+          break;
+        case 'slide': {
+          const [dx, dy] = getDirectionVector(opts.direction, width, height);
+          ctx.drawImage(from, -dx * progress, -dy * progress);
+          ctx.drawImage(to, dx * (1 - progress), dy * (1 - progress));
+          break;
+        }
+        case 'wipe': {
+          const [dx, dy] = getDirectionVector(opts.direction, width, height);
+          ctx.drawImage(from, 0, 0);
+          // 从进入方向的边缘逐渐显示后一个素材
+          const w = dx === 0 ? width : width * progress;
+          const h = dy === 0 ? height : height * progress;
+          const x = dx > 0 ? width - w : 0;
+          const y = dy > 0 ? height - h : 0;
+          ctx.beginPath();
+          ctx.rect(x, y, w, h);
+          ctx.clip();
+          ctx.drawImage(to, 0, 0);
+          break;
+        }
+        case 'zoom': {
+          // 前一个素材放大并淡出，后一个素材从放大状态缩小并淡入
+          const drawScaled = (img: OffscreenCanvas, scale: number) =>
+            ctx.drawImage(
+              img,
+              (width * (1 - scale)) / 2,
+              (height * (1 - scale)) / 2,
+              width * scale,
+              height * scale,
+            );
+          ctx.globalAlpha = 1 - progress;
+          drawScaled(from, 1 + progress * 0.5);
+          ctx.globalAlpha = progress;
+          drawScaled(to, 1.5 - progress * 0.5);
+          break;
+        }
+        case 'custom':
+          glRenderer ??= createGLRenderer(width, height, opts.shader ?? '');
+          ctx.drawImage(glRenderer.render(from, to, progress), 0, 0);
+          break;
+        default:
+          throw Error(`Unknown transition: ${opts.name}`);
+      }
+      ctx.restore();
+    },
+    destroy() {
+      glRenderer?.destroy();
+      glRenderer = null;
+    },
+  };
+}
+
+// 后一个素材进入时的起始偏移
+function getDirectionVector(
+  direction: ITransitionOpts['direction'] = 'left',
+  width: number,
+  height: number,
+) {
+  return {
+    left: [width, 0],
+    right: [-width, 0],
+    up: [0, height],
+    down: [0, -height],
+  }[direction];
+}
+
+function createGLRenderer(width: number, height: number, shader: string) {
+  const cvs = new OffscreenCanvas(width, height);
+  const gl = cvs.getContext('webgl2', { premultipliedAlpha: false });
+  if (gl == null) throw Error('Can not create webgl2 context');
+
+  const compile = (type: number, source: string) => {
+    const s = gl.createShader(type)!;
+    gl.shaderSource(s, source);
+    gl.compileShader(s);
+    if (!gl.getShaderParameter(s, gl.COMPILE_STATUS)) {
+      throw Error(`Transition shader error: ${gl.getShaderInfoLog(s)}`);
+    }
+    return s;
+  };
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(
+    program,
+    compile(gl.FRAGMENT_SHADER, createFragmentShader(shader)),
+  );
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw Error(`Transition program error: ${gl.getProgramInfoLog(program)}`);
+  }
+  gl.useProgram(program);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+    gl.STATIC_DRAW,
+  );
+  const aPos = gl.getAttribLocation(program, 'aPos');
+  gl.enableVertexAttribArray(aPos);
+  gl.vertexAttribPointer(aPos, 2, gl.FLOAT, false, 0, 0);
+
+  const createTexture = (unit: number, name: string) => {
+    const tex = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.uniform1i(gl.getUniformLocation(program, name), unit);
+    return tex;
+  };
+  const fromTex = createTexture(0, 'uFrom');
+  const toTex = createTexture(1, 'uTo');
+  gl.uniform1f(gl.getUniformLocation(program, 'ratio'), width / height);
+  const progressLoc = gl.getUniformLocation(program, 'progress');
+  // 与 gl-transitions 一致，uv 原点位于左下角
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.viewport(0, 0, width, height);
+
+  return {
+    render(from: OffscreenCanvas, to: OffscreenCanvas, progress: number) {
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, fromTex);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, from);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, toTex);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, to);
+      gl.uniform1f(progressLoc, progress);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      return cvs;
+    },
+    destroy() {
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    },
+  };
+}
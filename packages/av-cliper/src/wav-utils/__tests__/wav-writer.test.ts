@@ -0,0 +1,40 @@
+import { expect, test } from 'vitest';
+import { createWAVHeader, pcm2WAVData } from '../wav-writer';
+
+test('createWAVHeader', () => {
+  const header = createWAVHeader({
+    sampleRate: 48000,
+    channelCount: 2,
+    dataSize: 1000,
+  });
+  const dv = new DataView(header.buffer);
+  const str = (start: number) =>
+    new TextDecoder().decode(header.subarray(start, start + 4));
+  expect(header.byteLength).toBe(44);
+  expect([str(0), str(8), str(12), str(36)]).toEqual([
+    'RIFF',
+    'WAVE',
+    'fmt ',
+    'data',
+  ]);
+  expect(dv.getUint32(4, true)).toBe(1036);
+  expect(dv.getUint16(22, true)).toBe(2);
+  expect(dv.getUint32(24, true)).toBe(48000);
+  expect(dv.getUint32(28, true)).toBe(192000);
+  expect(dv.getUint16(32, true)).toBe(4);
+  expect(dv.getUint16(34, true)).toBe(16);
+  expect(dv.getUint32(40, true)).toBe(1000);
+});
+
+test('pcm2WAVData', () => {
+  const data = pcm2WAVData(
+    [new Float32Array([0, 1, 2]), new Float32Array([-1, -0.5, -2])],
+    2,
+  );
+  expect([...new Int16Array(data.buffer)]).toEqual([
+    0, -32768, 32767, -16384, 32767, -32768,
+  ]);
+  // 单声道输入复制到两个声道
+  const mono = pcm2WAVData([new Float32Array([0.5])], 2);
+  expect([...new Int16Array(mono.buffer)]).toEqual([16383, 16383]);
+});
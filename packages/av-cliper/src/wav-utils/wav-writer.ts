@@ -0,0 +1,124 @@
+import { tmpfile, write } from 'opfs-tools';
+import { Log } from '../log';
+import { extractPCM4AudioData } from '../av-utils';
+import type { IRecodeMuxOpts } from '../mp4-utils';
+
+// 16 位整数 PCM
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * 生成 PCM WAV 文件头（44 字节）
+ * @param dataSize 音频数据的字节数
+ */
+export function createWAVHeader(opts: {
+  sampleRate: number;
+  channelCount: number;
+  dataSize: number;
+}) {
+  const { sampleRate, channelCount, dataSize } = opts;
+  // RIFF 的大小字段为 uint32
+  if (dataSize + 36 >= 2 ** 32) throw Error('WAV file exceeds 4GB');
+
+  const buf = new Uint8Array(44);
+  const dv = new DataView(buf.buffer);
+  const enc = new TextEncoder();
+  buf.set(enc.encode('RIFF'), 0);
+  dv.setUint32(4, 36 + dataSize, true);
+  buf.set(enc.encode('WAVE'), 8);
+  buf.set(enc.encode('fmt '), 12);
+  dv.setUint32(16, 16, true);
+  // PCM
+  dv.setUint16(20, 1, true);
+  dv.setUint16(22, channelCount, true);
+  dv.setUint32(24, sampleRate, true);
+  // byte rate
+  dv.setUint32(28, sampleRate * channelCount * BYTES_PER_SAMPLE, true);
+  // block align
+  dv.setUint16(32, channelCount * BYTES_PER_SAMPLE, true);
+  dv.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+  buf.set(enc.encode('data'), 36);
+  dv.setUint32(40, dataSize, true);
+  return buf;
+}
+
+/**
+ * f32-planar PCM 转换为 WAV 的数据（16 位整数，声道交错），超出 [-1, 1] 的值被截断
+ * @param channelCount 输出的声道数，输入声道不足时复制首个声道
+ */
+export function pcm2WAVData(pcm: Float32Array[], channelCount: number) {
+  const frameCnt = pcm[0]?.length ?? 0;
+  const rs = new Uint8Array(frameCnt * channelCount * BYTES_PER_SAMPLE);
+  const dv = new DataView(rs.buffer);
+  for (let i = 0; i < frameCnt; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const v = Math.max(-1, Math.min(1, (pcm[c] ?? pcm[0])[i]));
+      dv.setInt16(
+        (i * channelCount + c) * BYTES_PER_SAMPLE,
+        v < 0 ? v * 0x8000 : v * 0x7fff,
+        true,
+      );
+    }
+  }
+  return rs;
+}
+
+/**
+ * 将音频数据写入 PCM WAV 文件；音频数据需按时间顺序连续输入，忽略其时间戳
+ *
+ * 文件头中包含数据大小，所以编码过程中数据先写入临时文件，调用 output 后得到完整的文件流
+ */
+export function recodemuxWAV(
+  audioOpts: Omit<NonNullable<IRecodeMuxOpts['audio']>, 'codec'>,
+): {
+  encodeAudio: (data: AudioData) => void;
+  close: () => void;
+  flush: () => Promise<void>;
+  output: () => Promise<ReadableStream<Uint8Array>>;
+  getEncodeQueueSize: () => number;
+} {
+  Log.info('recodemuxWAV opts:', audioOpts);
+  const { sampleRate, channelCount } = audioOpts;
+
+  const dataFile = tmpfile();
+  const writerPromise = dataFile.createWriter();
+  let writeQueue = writerPromise.then(() => {});
+  let dataSize = 0;
+
+  let outputted = false;
+  return {
+    encodeAudio: (ad) => {
+      if (ad.sampleRate !== sampleRate) {
+        ad.close();
+        throw Error(
+          `AudioData sampleRate(${ad.sampleRate}) does not match WAV(${sampleRate})`,
+        );
+      }
+      const data = pcm2WAVData(extractPCM4AudioData(ad), channelCount);
+      ad.close();
+      dataSize += data.byteLength;
+      writeQueue = writeQueue.then(async () => {
+        await (await writerPromise).write(data);
+      });
+    },
+    // 数据同步转换，无编码队列
+    getEncodeQueueSize: () => 0,
+    flush: async () => {
+      await writeQueue;
+    },
+    close: () => {},
+    output: async () => {
+      if (outputted) throw Error('File exported');
+      outputted = true;
+
+      await writeQueue;
+      await (await writerPromise).close();
+      const rsFile = tmpfile();
+      await write(
+        rsFile,
+        createWAVHeader({ sampleRate, channelCount, dataSize }),
+      );
+      await write(rsFile, dataFile, { overwrite: false });
+      return await rsFile.stream();
+    },
+  };
+}
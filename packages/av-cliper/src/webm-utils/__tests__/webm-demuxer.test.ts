@@ -0,0 +1,132 @@
+import { expect, test } from 'vitest';
+import { EBML_ID } from '../ebml';
+import { extractWebMDecoderConf, parseWebMStream } from '../webm-demuxer';
+
+function idBytes(id: number) {
+  const rs: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) rs.unshift(v & 0xff);
+  return rs;
+}
+
+function el(id: number, payload: number[], unknownSize = false): number[] {
+  if (unknownSize) return [...idBytes(id), 0x01, ...Array(7).fill(0xff)];
+  // 使用 8 字节表示大小
+  const size = [0x01, 0, 0, 0, 0, 0, 0, 0];
+  let len = payload.length;
+  for (let i = 7; i > 0; i--) {
+    size[i] = len & 0xff;
+    len = Math.floor(len / 256);
+  }
+  return [...idBytes(id), ...size, ...payload];
+}
+
+const uint = (id: number, v: number) => el(id, [v]);
+const str = (id: number, v: string) => el(id, [...new TextEncoder().encode(v)]);
+
+// trackNumber 使用 1 字节 vint，相对时间戳 int16
+function block(track: number, relTime: number, flags: number, data: number[]) {
+  return [0x80 | track, (relTime >> 8) & 0xff, relTime & 0xff, flags, ...data];
+}
+
+function toStream(bytes: number[], chunkSize = 7) {
+  const u8 = new Uint8Array(bytes);
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(ctrl) {
+      if (offset >= u8.length) {
+        ctrl.close();
+        return;
+      }
+      ctrl.enqueue(u8.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+function createWebM() {
+  return [
+    ...el(EBML_ID.EBML, [...str(0x4282, 'webm')]),
+    ...el(EBML_ID.Segment, [], true),
+    ...el(EBML_ID.Info, [...el(EBML_ID.TimecodeScale, [0x0f, 0x42, 0x40])]),
+    ...el(EBML_ID.Tracks, [
+      ...el(EBML_ID.TrackEntry, [
+        ...uint(EBML_ID.TrackNumber, 1),
+        ...uint(EBML_ID.TrackType, 1),
+        ...str(EBML_ID.CodecID, 'V_VP9'),
+        ...el(EBML_ID.Video, [
+          ...el(EBML_ID.PixelWidth, [0x01, 0x40]),
+          ...el(EBML_ID.PixelHeight, [0xf0]),
+        ]),
+      ]),
+      ...el(EBML_ID.TrackEntry, [
+        ...uint(EBML_ID.TrackNumber, 2),
+        ...uint(EBML_ID.TrackType, 2),
+        ...str(EBML_ID.CodecID, 'A_OPUS'),
+        ...el(EBML_ID.Audio, [
+          // 48000.0 float32
+          ...el(EBML_ID.SamplingFrequency, [0x47, 0x3b, 0x80, 0x00]),
+          ...uint(EBML_ID.Channels, 2),
+        ]),
+      ]),
+    ]),
+    // 未知大小的 Cluster
+    ...el(EBML_ID.Cluster, [], true),
+    ...uint(EBML_ID.Timecode, 0),
+    ...el(EBML_ID.SimpleBlock, block(1, 0, 0x80, [1, 1, 1])),
+    // Xiph lacing，两帧分别为 2、1 字节
+    ...el(EBML_ID.SimpleBlock, block(2, 0, 0x82, [1, 2, 9, 9, 8])),
+    ...el(EBML_ID.BlockGroup, [
+      ...el(EBML_ID.Block, block(1, 40, 0, [2, 2])),
+      ...el(EBML_ID.ReferenceBlock, [0xd8]),
+    ]),
+    ...el(EBML_ID.Cluster, [], true),
+    ...el(EBML_ID.Timecode, [0x50]),
+    ...el(EBML_ID.SimpleBlock, block(1, 0, 0x80, [3])),
+    ...el(EBML_ID.SimpleBlock, block(2, 0, 0x80, [7])),
+  ];
+}
+
+test('parseWebMStream', async () => {
+  const bytes = createWebM();
+  const { tracks, samples } = await parseWebMStream(toStream(bytes), {
+    keepData: (t) => t.type === 'audio',
+  });
+  expect(tracks.map((t) => [t.number, t.type, t.codecId])).toEqual([
+    [1, 'video', 'V_VP9'],
+    [2, 'audio', 'A_OPUS'],
+  ]);
+  expect(tracks[0].video).toEqual({ width: 320, height: 240 });
+  expect(tracks[1].audio).toEqual({ sampleRate: 48000, channelCount: 2 });
+
+  const video = samples.filter((s) => s.trackNumber === 1);
+  expect(video.map((s) => [s.timestamp, s.duration, s.isKey])).toEqual([
+    [0, 40e3, true],
+    [40e3, 40e3, false],
+    [80e3, 40e3, true],
+  ]);
+  // 帧数据在文件中的位置
+  expect(bytes.slice(video[1].offset, video[1].offset + video[1].size)).toEqual(
+    [2, 2],
+  );
+  expect(video[0].data).toBeNull();
+
+  const audio = samples.filter((s) => s.trackNumber === 2);
+  expect(audio.map((s) => [...s.data!])).toEqual([[9, 9], [8], [7]]);
+  // 两个 lacing 帧平分 80ms
+  expect(audio.map((s) => s.timestamp)).toEqual([0, 40e3, 80e3]);
+});
+
+test('extractWebMDecoderConf', async () => {
+  const { tracks } = await parseWebMStream(toStream(createWebM()));
+  const conf = extractWebMDecoderConf(tracks);
+  expect(conf.video).toEqual({
+    codec: 'vp09.00.10.08',
+    codedWidth: 320,
+    codedHeight: 240,
+  });
+  expect(conf.audio).toEqual({
+    codec: 'opus',
+    sampleRate: 48000,
+    numberOfChannels: 2,
+  });
+});
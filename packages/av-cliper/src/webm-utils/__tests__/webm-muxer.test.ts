@@ -0,0 +1,178 @@
+import { expect, test } from 'vitest';
+import {
+  EBML_ID,
+  encodeVint,
+  readElementId,
+  readFloat,
+  readVint,
+} from '../ebml';
+import { createWebMMuxer } from '../webm-muxer';
+import { parseWebMStream } from '../webm-demuxer';
+
+function toStream(u8: Uint8Array) {
+  return new ReadableStream<Uint8Array>({
+    start(ctrl) {
+      ctrl.enqueue(u8);
+      ctrl.close();
+    },
+  });
+}
+
+function concat(parts: Uint8Array[]) {
+  const rs = new Uint8Array(parts.reduce((acc, p) => acc + p.byteLength, 0));
+  let offset = 0;
+  for (const p of parts) {
+    rs.set(p, offset);
+    offset += p.byteLength;
+  }
+  return rs;
+}
+
+// 查找顶层（Segment 内）元素的位置，返回相对 Segment 数据起始位置的偏移
+function findSegmentChildren(file: Uint8Array) {
+  let pos = 0;
+  const children: Array<{ id: number; pos: number; dataPos: number }> = [];
+  let segmentStart = -1;
+  while (pos < file.length) {
+    const id = readElementId(file, pos)!;
+    const size = readVint(file, pos + id.length)!;
+    const dataPos = pos + id.length + size.length;
+    if (id.value === EBML_ID.Segment) {
+      segmentStart = dataPos;
+      pos = dataPos;
+      continue;
+    }
+    if (segmentStart !== -1) {
+      children.push({ id: id.value, pos: pos - segmentStart, dataPos });
+    }
+    pos = dataPos + size.value;
+  }
+  return children;
+}
+
+test('encodeVint', () => {
+  expect([...encodeVint(1)]).toEqual([0x81]);
+  // 0x7f 表示未知大小，需要使用 2 字节
+  expect([...encodeVint(127)]).toEqual([0x40, 0x7f]);
+  expect([...encodeVint(5, 8)]).toEqual([1, 0, 0, 0, 0, 0, 0, 5]);
+  expect(readVint(encodeVint(2 ** 40), 0)?.value).toBe(2 ** 40);
+});
+
+test('mux video and audio samples', async () => {
+  const clusters: Uint8Array[] = [];
+  const muxer = createWebMMuxer({
+    video: { codec: 'vp09.00.10.08', width: 320, height: 240 },
+    audio: { codec: 'opus', sampleRate: 48000, channelCount: 2 },
+    onCluster: (data) => clusters.push(data),
+  });
+  const sample = (timestamp: number, isKey: boolean, byte: number) => ({
+    data: new Uint8Array([byte]),
+    timestamp,
+    duration: 20e3,
+    isKey,
+  });
+  muxer.addVideoSample(sample(0, true, 1));
+  muxer.addVideoSample(sample(20e3, false, 2));
+  muxer.addAudioSample(sample(0, true, 11));
+  muxer.addAudioSample(sample(20e3, true, 12));
+  muxer.addVideoSample(sample(40e3, true, 3));
+  // 关键帧等待同一时刻的音频数据，尚未开始新的 Cluster
+  expect(clusters.length).toBe(0);
+  muxer.addAudioSample(sample(40e3, true, 13));
+  expect(clusters.length).toBe(1);
+  const header = muxer.finalize();
+  expect(clusters.length).toBe(2);
+
+  const file = concat([header, ...clusters]);
+  const { tracks, samples, duration } = await parseWebMStream(toStream(file), {
+    keepData: () => true,
+  });
+  expect(duration).toBe(60e3);
+  expect(tracks.map((t) => [t.number, t.codecId])).toEqual([
+    [1, 'V_VP9'],
+    [2, 'A_OPUS'],
+  ]);
+  expect(tracks[0].video).toEqual({ width: 320, height: 240 });
+  expect(tracks[1].audio).toEqual({ sampleRate: 48000, channelCount: 2 });
+  // 未设置 CodecPrivate 时生成 OpusHead
+  expect(new TextDecoder().decode(tracks[1].codecPrivate?.slice(0, 8))).toBe(
+    'OpusHead',
+  );
+  expect(
+    samples.map((s) => [s.trackNumber, s.timestamp, s.isKey, s.data![0]]),
+  ).toEqual([
+    [1, 0, true, 1],
+    [2, 0, true, 11],
+    [1, 20e3, false, 2],
+    [2, 20e3, true, 12],
+    [1, 40e3, true, 3],
+    [2, 40e3, true, 13],
+  ]);
+
+  // SeekHead 指向的位置与元素实际位置一致
+  const children = findSegmentChildren(file);
+  expect(children.map((c) => c.id)).toEqual([
+    EBML_ID.SeekHead,
+    EBML_ID.Info,
+    EBML_ID.Tracks,
+    EBML_ID.Cues,
+    EBML_ID.Cluster,
+    EBML_ID.Cluster,
+  ]);
+  const clusterPos = children
+    .filter((c) => c.id === EBML_ID.Cluster)
+    .map((c) => c.pos);
+  const cues = children.find((c) => c.id === EBML_ID.Cues)!;
+  const cuePositions: number[] = [];
+  // CueClusterPosition 使用 8 字节
+  for (let i = cues.dataPos; i < file.length - 10; i++) {
+    if (file[i] === 0xf1 && file[i + 1] === 0x88) {
+      cuePositions.push(
+        new DataView(file.buffer, i + 2, 8).getUint32(4, false),
+      );
+    }
+    if (file[i] === 0x1f && file[i + 1] === 0x43) break;
+  }
+  expect(cuePositions).toEqual(clusterPos);
+
+  const info = children.find((c) => c.id === EBML_ID.Info)!;
+  const durationPos = file.indexOf(0x44, info.dataPos);
+  expect(file[durationPos + 1]).toBe(0x89);
+  expect(readFloat(file.subarray(durationPos + 3, durationPos + 11))).toBe(60);
+});
+
+test('split cluster for audio only file', async () => {
+  const clusters: Uint8Array[] = [];
+  const muxer = createWebMMuxer({
+    video: null,
+    audio: { codec: 'opus', sampleRate: 48000, channelCount: 1 },
+    onCluster: (data) => clusters.push(data),
+  });
+  for (let i = 0; i < 600; i++) {
+    muxer.addAudioSample({
+      data: new Uint8Array([i % 256]),
+      timestamp: i * 20e3,
+      duration: 20e3,
+      isKey: true,
+    });
+  }
+  const header = muxer.finalize();
+  // 每 5s 一个 Cluster
+  expect(clusters.length).toBe(3);
+  const { samples, duration } = await parseWebMStream(
+    toStream(concat([header, ...clusters])),
+  );
+  expect(duration).toBe(12e6);
+  expect(samples.length).toBe(600);
+  expect(samples.at(-1)?.timestamp).toBe(599 * 20e3);
+});
+
+test('unsupported codec', () => {
+  expect(() =>
+    createWebMMuxer({
+      video: { codec: 'avc1.42E032', width: 1, height: 1 },
+      audio: null,
+      onCluster: () => {},
+    }),
+  ).toThrowError('Unsupported codec in WebM: avc1.42E032');
+});
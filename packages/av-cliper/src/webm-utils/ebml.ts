@@ -0,0 +1,221 @@
+// EBML（Matroska/WebM 的底层格式）读写相关的工具函数
+
+/**
+ * 用到的 EBML 元素 ID
+ */
+export const EBML_ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+/**
+ * 未知大小的元素（如 MediaRecorder 生成的 Segment、Cluster）
+ */
+export const UNKNOWN_SIZE = -1;
+
+/**
+ * 读取元素 ID，ID 保留长度标记位
+ * @returns 数据不足时返回 null
+ */
+export function readElementId(
+  buf: Uint8Array,
+  offset: number,
+): { value: number; length: number } | null {
+  if (offset >= buf.length) return null;
+  const length = vintLength(buf[offset]);
+  if (length > 4) throw Error(`Invalid EBML element id at ${offset}`);
+  if (offset + length > buf.length) return null;
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + buf[offset + i];
+  return { value, length };
+}
+
+/**
+ * 读取变长整数（元素大小、Block 中的轨道编号），去除长度标记位
+ * @returns 数据不足时返回 null；所有数据位均为 1 时 value 为 {@link UNKNOWN_SIZE}
+ */
+export function readVint(
+  buf: Uint8Array,
+  offset: number,
+): { value: number; length: number } | null {
+  if (offset >= buf.length) return null;
+  const length = vintLength(buf[offset]);
+  if (length > 8) throw Error(`Invalid EBML vint at ${offset}`);
+  if (offset + length > buf.length) return null;
+
+  let value = buf[offset] & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    const byte = buf[offset + i];
+    if (byte !== 0xff) allOnes = false;
+    value = value * 256 + byte;
+  }
+  return { value: allOnes ? UNKNOWN_SIZE : value, length };
+}
+
+function vintLength(firstByte: number) {
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && (firstByte & mask) === 0) {
+    length += 1;
+    mask >>= 1;
+  }
+  return length;
+}
+
+export function readUint(data: Uint8Array): number {
+  let value = 0;
+  for (const byte of data) value = value * 256 + byte;
+  return value;
+}
+
+export function readInt(data: Uint8Array): number {
+  if (data.length === 0) return 0;
+  const value = readUint(data);
+  const max = 2 ** (data.length * 8);
+  return value >= max / 2 ? value - max : value;
+}
+
+export function readFloat(data: Uint8Array): number {
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length === 4) return dv.getFloat32(0);
+  if (data.length === 8) return dv.getFloat64(0);
+  return 0;
+}
+
+export function readString(data: Uint8Array): string {
+  // 字符串可能以 \0 填充
+  const end = data.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? data : data.subarray(0, end));
+}
+
+/**
+ * 编码变长整数，未指定 length 时使用最短长度
+ */
+export function encodeVint(value: number, length?: number): Uint8Array {
+  let len = length ?? 1;
+  // 数据位全为 1 表示未知大小，不能用于普通数值
+  if (length == null) while (value >= 2 ** (7 * len) - 1) len += 1;
+  if (len > 8 || value >= 2 ** (7 * len) - 1) {
+    throw Error(`Value ${value} can not be encoded as ${len} bytes vint`);
+  }
+  const rs = new Uint8Array(len);
+  let v = value;
+  for (let i = len - 1; i >= 0; i--) {
+    rs[i] = v % 256;
+    v = Math.floor(v / 256);
+  }
+  rs[0] |= 0x80 >> (len - 1);
+  return rs;
+}
+
+/**
+ * 生成 EBML 元素，payload 为多个片段时依次拼接
+ */
+export function ebmlElement(
+  id: number,
+  payload: Uint8Array | Uint8Array[],
+): Uint8Array {
+  const parts = payload instanceof Uint8Array ? [payload] : payload;
+  const size = parts.reduce((acc, p) => acc + p.byteLength, 0);
+  return concatU8([ebmlElementHead(id, size), ...parts]);
+}
+
+/**
+ * 生成元素的 ID 及大小，用于数据单独写入的元素（如 Segment）
+ * @param sizeLength 大小字段的固定字节数
+ */
+export function ebmlElementHead(
+  id: number,
+  size: number,
+  sizeLength?: number,
+): Uint8Array {
+  return concatU8([encodeUint(id), encodeVint(size, sizeLength)]);
+}
+
+/**
+ * 生成无符号整数元素
+ * @param byteLength 固定字节数，用于在写入前预留位置（如 SeekPosition）
+ */
+export function ebmlUint(id: number, value: number, byteLength?: number) {
+  return ebmlElement(id, encodeUint(value, byteLength));
+}
+
+export function ebmlFloat(id: number, value: number) {
+  const buf = new Uint8Array(8);
+  new DataView(buf.buffer).setFloat64(0, value);
+  return ebmlElement(id, buf);
+}
+
+export function ebmlString(id: number, value: string) {
+  return ebmlElement(id, new TextEncoder().encode(value));
+}
+
+function encodeUint(value: number, byteLength?: number): Uint8Array {
+  let len = byteLength ?? 1;
+  if (byteLength == null) while (value >= 2 ** (8 * len)) len += 1;
+  const rs = new Uint8Array(len);
+  let v = value;
+  for (let i = len - 1; i >= 0; i--) {
+    rs[i] = v % 256;
+    v = Math.floor(v / 256);
+  }
+  if (v > 0) throw Error(`Value ${value} exceeds ${len} bytes`);
+  return rs;
+}
+
+export function concatU8(parts: Uint8Array[]): Uint8Array {
+  const rs = new Uint8Array(parts.reduce((acc, p) => acc + p.byteLength, 0));
+  let offset = 0;
+  for (const p of parts) {
+    rs.set(p, offset);
+    offset += p.byteLength;
+  }
+  return rs;
+}
@@ -0,0 +1,482 @@
+import {
+  EBML_ID,
+  UNKNOWN_SIZE,
+  readElementId,
+  readFloat,
+  readInt,
+  readString,
+  readUint,
+  readVint,
+} from './ebml';
+
+export interface WebMTrack {
+  number: number;
+  type: 'video' | 'audio';
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  // 单帧时长，单位 纳秒
+  defaultDuration?: number;
+  video?: { width: number; height: number };
+  audio?: { sampleRate: number; channelCount: number };
+}
+
+export interface WebMSample {
+  trackNumber: number;
+  // 微秒
+  timestamp: number;
+  // 微秒
+  duration: number;
+  isKey: boolean;
+  // 帧数据在文件中的位置
+  offset: number;
+  size: number;
+  // 仅在 keepData 返回 true 的轨道中保存帧数据
+  data: Uint8Array | null;
+}
+
+// 需要进入解析子元素的容器元素
+const MASTER_IDS = new Set<number>([
+  EBML_ID.Segment,
+  EBML_ID.Info,
+  EBML_ID.Tracks,
+  EBML_ID.TrackEntry,
+  EBML_ID.Video,
+  EBML_ID.Audio,
+  EBML_ID.Cluster,
+  EBML_ID.BlockGroup,
+]);
+
+// 需要读取数据的元素，其它元素直接跳过
+const LEAF_IDS = new Set<number>([
+  EBML_ID.TimecodeScale,
+  EBML_ID.Duration,
+  EBML_ID.TrackNumber,
+  EBML_ID.TrackType,
+  EBML_ID.CodecID,
+  EBML_ID.CodecPrivate,
+  EBML_ID.DefaultDuration,
+  EBML_ID.PixelWidth,
+  EBML_ID.PixelHeight,
+  EBML_ID.SamplingFrequency,
+  EBML_ID.Channels,
+  EBML_ID.Timecode,
+  EBML_ID.SimpleBlock,
+  EBML_ID.Block,
+  EBML_ID.BlockDuration,
+  EBML_ID.ReferenceBlock,
+]);
+
+/**
+ * 解析 WebM（Matroska）字节流，返回轨道信息及所有帧的时间、位置
+ *
+ * 支持未知大小的 Segment、Cluster（MediaRecorder 生成的文件），支持 Xiph、EBML、固定大小三种 lacing
+ *
+ * @param stream WebM 字节流
+ * @param opts.keepData 是否在内存中保存该轨道的帧数据，默认不保存
+ */
+export async function parseWebMStream(
+  stream: ReadableStream<Uint8Array>,
+  opts: { keepData?: (track: WebMTrack) => boolean } = {},
+) {
+  const tracks: Array<Partial<WebMTrack>> = [];
+  const samples: WebMSample[] = [];
+  // 纳秒
+  let timecodeScale = 1e6;
+  // 单位 timecodeScale
+  let segmentDuration = 0;
+  let clusterTimecode = 0;
+
+  let curTrack: Partial<WebMTrack> | null = null;
+  let curGroup: {
+    block: { data: Uint8Array; offset: number } | null;
+    duration: number | null;
+    isKey: boolean;
+  } | null = null;
+
+  // 同一轨道中，上一个 Block 的帧等到下一个 Block 出现才能确定时长
+  const pending = new Map<
+    number,
+    { frames: WebMSample[]; start: number; span: number | null }
+  >();
+  const lastSpan = new Map<number, number>();
+
+  const findTrack = (num: number) => tracks.find((t) => t.number === num);
+
+  const flushPending = (trackNumber: number, end?: number) => {
+    const p = pending.get(trackNumber);
+    if (p == null) return;
+    pending.delete(trackNumber);
+    const track = findTrack(trackNumber);
+    const n = p.frames.length;
+    const span =
+      p.span ??
+      (end != null
+        ? end - p.start
+        : track?.defaultDuration != null
+          ? (track.defaultDuration / 1e3) * n
+          : lastSpan.get(trackNumber) ?? 0);
+    lastSpan.set(trackNumber, span);
+    p.frames.forEach((s, i) => {
+      s.timestamp = p.start + (span * i) / n;
+      s.duration = span / n;
+    });
+  };
+
+  const onBlock = (
+    data: Uint8Array,
+    offset: number,
+    isSimple: boolean,
+    group: { duration: number | null; isKey: boolean } | null,
+  ) => {
+    const trackNum = readVint(data, 0);
+    if (trackNum == null || data.length < trackNum.length + 3) return;
+    const track = findTrack(trackNum.value);
+    if (track == null) return;
+
+    let pos = trackNum.length;
+    const relTimecode = readInt(data.subarray(pos, pos + 2));
+    const flags = data[pos + 2];
+    pos += 3;
+    const isKey = isSimple ? (flags & 0x80) !== 0 : group?.isKey === true;
+    const frameSizes = parseLacing(data, pos, (flags >> 1) & 0x03);
+    pos = frameSizes.headerEnd;
+
+    const start = ((clusterTimecode + relTimecode) * timecodeScale) / 1e3;
+    flushPending(trackNum.value, start);
+
+    const keepData = opts.keepData?.(track as WebMTrack) === true;
+    const frames: WebMSample[] = [];
+    for (const size of frameSizes.sizes) {
+      frames.push({
+        trackNumber: trackNum.value,
+        timestamp: start,
+        duration: 0,
+        isKey,
+        offset: offset + pos,
+        size,
+        data: keepData ? data.slice(pos, pos + size) : null,
+      });
+      pos += size;
+    }
+    samples.push(...frames);
+    pending.set(trackNum.value, {
+      frames,
+      start,
+      span:
+        group?.duration == null ? null : (group.duration * timecodeScale) / 1e3,
+    });
+  };
+
+  const onMasterStart = (id: number) => {
+    if (id === EBML_ID.TrackEntry) {
+      curTrack = {};
+      tracks.push(curTrack);
+    } else if (id === EBML_ID.BlockGroup) {
+      curGroup = { block: null, duration: null, isKey: true };
+    }
+  };
+
+  const onMasterEnd = (id: number) => {
+    if (id === EBML_ID.BlockGroup && curGroup?.block != null) {
+      onBlock(curGroup.block.data, curGroup.block.offset, false, curGroup);
+      curGroup = null;
+    }
+  };
+
+  const onLeaf = (id: number, data: Uint8Array, offset: number) => {
+    switch (id) {
+      case EBML_ID.TimecodeScale:
+        timecodeScale = readUint(data);
+        break;
+      case EBML_ID.Duration:
+        segmentDuration = readFloat(data);
+        break;
+      case EBML_ID.TrackNumber:
+        if (curTrack != null) curTrack.number = readUint(data);
+        break;
+      case EBML_ID.TrackType: {
+        const type = readUint(data);
+        if (curTrack != null && (type === 1 || type === 2)) {
+          curTrack.type = type === 1 ? 'video' : 'audio';
+        }
+        break;
+      }
+      case EBML_ID.CodecID:
+        if (curTrack != null) curTrack.codecId = readString(data);
+        break;
+      case EBML_ID.CodecPrivate:
+        if (curTrack != null) curTrack.codecPrivate = data.slice();
+        break;
+      case EBML_ID.DefaultDuration:
+        if (curTrack != null) curTrack.defaultDuration = readUint(data);
+        break;
+      case EBML_ID.PixelWidth:
+      case EBML_ID.PixelHeight:
+        if (curTrack != null) {
+          curTrack.video ??= { width: 0, height: 0 };
+          curTrack.video[id === EBML_ID.PixelWidth ? 'width' : 'height'] =
+            readUint(data);
+        }
+        break;
+      case EBML_ID.SamplingFrequency:
+      case EBML_ID.Channels:
+        if (curTrack != null) {
+          curTrack.audio ??= { sampleRate: 8000, channelCount: 1 };
+          if (id === EBML_ID.SamplingFrequency) {
+            curTrack.audio.sampleRate = readFloat(data);
+          } else {
+            curTrack.audio.channelCount = readUint(data);
+          }
+        }
+        break;
+      case EBML_ID.Timecode:
+        clusterTimecode = readUint(data);
+        break;
+      case EBML_ID.SimpleBlock:
+        onBlock(data, offset, true, null);
+        break;
+      case EBML_ID.Block:
+        if (curGroup != null) curGroup.block = { data: data.slice(), offset };
+        break;
+      case EBML_ID.BlockDuration:
+        if (curGroup != null) curGroup.duration = readUint(data);
+        break;
+      case EBML_ID.ReferenceBlock:
+        // 引用了其它帧，非关键帧
+        if (curGroup != null) curGroup.isKey = false;
+        break;
+    }
+  };
+
+  // 已知大小的容器元素，用于判断何时结束
+  const masterStack: Array<{ id: number; end: number }> = [];
+  const closeMasters = (pos: number) => {
+    while (masterStack.length > 0 && masterStack.at(-1)!.end <= pos) {
+      onMasterEnd(masterStack.pop()!.id);
+    }
+  };
+
+  let buf = new Uint8Array(0);
+  // buf[0] 在文件中的位置
+  let bufStart = 0;
+  let skipSize = 0;
+
+  const parseBuf = () => {
+    while (true) {
+      if (skipSize > 0) {
+        const n = Math.min(skipSize, buf.length);
+        buf = buf.subarray(n);
+        bufStart += n;
+        skipSize -= n;
+        if (skipSize > 0) return;
+      }
+      closeMasters(bufStart);
+
+      const id = readElementId(buf, 0);
+      if (id == null) return;
+      const size = readVint(buf, id.length);
+      if (size == null) return;
+      const headerSize = id.length + size.length;
+      const elStart = bufStart;
+
+      if (MASTER_IDS.has(id.value)) {
+        buf = buf.subarray(headerSize);
+        bufStart += headerSize;
+        if (size.value !== UNKNOWN_SIZE) {
+          masterStack.push({
+            id: id.value,
+            end: elStart + headerSize + size.value,
+          });
+        }
+        onMasterStart(id.value);
+        continue;
+      }
+      if (size.value === UNKNOWN_SIZE) {
+        throw Error(
+          `Unsupported unknown-size EBML element: 0x${id.value.toString(16)}`,
+        );
+      }
+      if (!LEAF_IDS.has(id.value)) {
+        buf = buf.subarray(headerSize);
+        bufStart += headerSize;
+        skipSize = size.value;
+        continue;
+      }
+      // 等待更多数据
+      if (buf.length < headerSize + size.value) return;
+
+      onLeaf(
+        id.value,
+        buf.subarray(headerSize, headerSize + size.value),
+        elStart + headerSize,
+      );
+      buf = buf.subarray(headerSize + size.value);
+      bufStart += headerSize + size.value;
+    }
+  };
+
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (buf.length === 0) {
+      buf = value;
+    } else {
+      const newBuf = new Uint8Array(buf.length + value.length);
+      newBuf.set(buf);
+      newBuf.set(value, buf.length);
+      buf = newBuf;
+    }
+    parseBuf();
+  }
+  closeMasters(Infinity);
+  for (const trackNumber of [...pending.keys()]) flushPending(trackNumber);
+
+  const validTracks = tracks.filter(
+    (t): t is WebMTrack =>
+      t.number != null && t.type != null && t.codecId != null,
+  );
+  if (validTracks.length === 0)
+    throw Error('WebM stream not contain any track');
+
+  return {
+    tracks: validTracks,
+    samples,
+    // 微秒
+    duration: (segmentDuration * timecodeScale) / 1e3,
+  };
+}
+
+function parseLacing(data: Uint8Array, offset: number, lacing: number) {
+  if (lacing === 0) {
+    return { sizes: [data.length - offset], headerEnd: offset };
+  }
+
+  const frameCnt = data[offset] + 1;
+  let pos = offset + 1;
+  const sizes: number[] = [];
+  if (lacing === 1) {
+    // Xiph lacing
+    for (let i = 0; i < frameCnt - 1; i++) {
+      let size = 0;
+      while (data[pos] === 0xff) {
+        size += 0xff;
+        pos += 1;
+      }
+      size += data[pos];
+      pos += 1;
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    // EBML lacing，后续帧大小为与前一帧的差值
+    const first = readVint(data, pos);
+    if (first == null) throw Error('Invalid EBML lacing');
+    sizes.push(first.value);
+    pos += first.length;
+    for (let i = 1; i < frameCnt - 1; i++) {
+      const diff = readVint(data, pos);
+      if (diff == null) throw Error('Invalid EBML lacing');
+      const bias = 2 ** (7 * diff.length - 1) - 1;
+      sizes.push(sizes[i - 1] + diff.value - bias);
+      pos += diff.length;
+    }
+  } else {
+    // 固定大小
+    const size = (data.length - pos) / frameCnt;
+    return { sizes: Array(frameCnt).fill(size), headerEnd: pos };
+  }
+  const rest = data.length - pos - sizes.reduce((a, b) => a + b, 0);
+  sizes.push(rest);
+  return { sizes, headerEnd: pos };
+}
+
+/**
+ * 根据 WebM 轨道信息生成 WebCodecs 解码器配置
+ */
+export function extractWebMDecoderConf(tracks: WebMTrack[]) {
+  const vTrack = tracks.find((t) => t.type === 'video');
+  const aTrack = tracks.find((t) => t.type === 'audio');
+  return {
+    videoTrack: vTrack,
+    audioTrack: aTrack,
+    video: vTrack == null ? null : parseVideoDecoderConf(vTrack),
+    audio: aTrack == null ? null : parseAudioDecoderConf(aTrack),
+  };
+}
+
+function parseVideoDecoderConf(track: WebMTrack): VideoDecoderConfig | null {
+  const { codecId, codecPrivate, video } = track;
+  const base = {
+    codedWidth: video?.width ?? 0,
+    codedHeight: video?.height ?? 0,
+  };
+  if (codecId === 'V_VP8') return { ...base, codec: 'vp8' };
+  if (codecId === 'V_VP9') {
+    return { ...base, codec: parseVP9Codec(codecPrivate) };
+  }
+  if (codecId === 'V_AV1') {
+    return {
+      ...base,
+      codec: parseAV1Codec(codecPrivate),
+      ...(codecPrivate == null ? {} : { description: codecPrivate }),
+    };
+  }
+  return null;
+}
+
+function parseAudioDecoderConf(track: WebMTrack): AudioDecoderConfig | null {
+  const { codecId, codecPrivate, audio } = track;
+  const base = {
+    sampleRate: audio?.sampleRate ?? 48000,
+    numberOfChannels: audio?.channelCount ?? 1,
+  };
+  if (codecId === 'A_OPUS') {
+    return {
+      ...base,
+      codec: 'opus',
+      // OpusHead
+      ...(codecPrivate == null ? {} : { description: codecPrivate }),
+    };
+  }
+  if (codecId === 'A_VORBIS' && codecPrivate != null) {
+    // Xiph lacing 格式的 identification、comment、setup 三个头
+    return { ...base, codec: 'vorbis', description: codecPrivate };
+  }
+  return null;
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// CodecPrivate 中的 profile(1)、level(2)、bitDepth(3)，缺失时使用默认值
+function parseVP9Codec(codecPrivate?: Uint8Array) {
+  const features: Record<number, number> = { 1: 0, 2: 10, 3: 8 };
+  if (codecPrivate != null) {
+    let pos = 0;
+    while (pos + 2 <= codecPrivate.length) {
+      const id = codecPrivate[pos];
+      const len = codecPrivate[pos + 1];
+      if (len === 1) features[id] = codecPrivate[pos + 2];
+      pos += 2 + len;
+    }
+  }
+  return `vp09.${pad2(features[1])}.${pad2(features[2])}.${pad2(features[3])}`;
+}
+
+// CodecPrivate 即 av1C 的内容
+function parseAV1Codec(codecPrivate?: Uint8Array) {
+  if (codecPrivate == null || codecPrivate.length < 4) return 'av01.0.08M.08';
+  const profile = codecPrivate[1] >> 5;
+  const level = codecPrivate[1] & 0x1f;
+  const tier = codecPrivate[2] >> 7 === 1 ? 'H' : 'M';
+  const highBitdepth = (codecPrivate[2] >> 6) & 0x01;
+  const twelveBit = (codecPrivate[2] >> 5) & 0x01;
+  const bitDepth =
+    profile === 2 && highBitdepth === 1
+      ? twelveBit === 1
+        ? 12
+        : 10
+      : highBitdepth === 1
+        ? 10
+        : 8;
+  return `av01.${profile}.${pad2(level)}${tier}.${pad2(bitDepth)}`;
+}
@@ -0,0 +1,302 @@
+import {
+  EBML_ID,
+  concatU8,
+  ebmlElement,
+  ebmlElementHead,
+  ebmlFloat,
+  ebmlString,
+  ebmlUint,
+  encodeVint,
+} from './ebml';
+import { createOpusHead } from '../ogg-utils/ogg-muxer';
+
+export interface IWebMMuxerOpts {
+  video: { codec: string; width: number; height: number } | null;
+  audio: { codec: string; sampleRate: number; channelCount: number } | null;
+  /**
+   * 输出已完成的 Cluster，按顺序拼接在 finalize 返回的头部之后即为完整文件
+   */
+  onCluster: (data: Uint8Array) => void;
+}
+
+export interface WebMMuxerSample {
+  data: Uint8Array;
+  // 微秒
+  timestamp: number;
+  // 微秒
+  duration: number;
+  isKey: boolean;
+}
+
+// 超过该时长（微秒）强制创建新的 Cluster，Block 的相对时间为 int16 毫秒
+const MAX_CLUSTER_DURATION = 5e6;
+// Seek、Cues 中的位置使用固定字节数，使头部大小与位置的值无关
+const POSITION_BYTES = 8;
+
+const CODEC_IDS: Array<[string, string]> = [
+  ['vp8', 'V_VP8'],
+  ['vp09', 'V_VP9'],
+  ['vp9', 'V_VP9'],
+  ['av01', 'V_AV1'],
+  ['opus', 'A_OPUS'],
+];
+
+/**
+ * WebCodecs 编码格式转换为 Matroska CodecID
+ */
+export function getWebMCodecId(codec: string) {
+  const id = CODEC_IDS.find(([prefix]) => codec.startsWith(prefix))?.[1];
+  if (id == null) throw Error(`Unsupported codec in WebM: ${codec}`);
+  return id;
+}
+
+/**
+ * 创建 WebM 封装器
+ *
+ * 帧数据按时间交错写入 Cluster，通过 onCluster 输出；
+ * 写入结束后调用 finalize 生成包含 Duration、Cues 的文件头部，
+ * 头部大小在写入 Cluster 前无法确定，所以 Cluster 需要暂存（如写入临时文件）
+ */
+export function createWebMMuxer(opts: IWebMMuxerOpts) {
+  const videoCodecId =
+    opts.video == null ? null : getWebMCodecId(opts.video.codec);
+  const audioCodecId =
+    opts.audio == null ? null : getWebMCodecId(opts.audio.codec);
+  const videoTrackNum = opts.video == null ? -1 : 1;
+  const audioTrackNum = opts.audio == null ? -1 : videoTrackNum === 1 ? 2 : 1;
+  const codecPrivate: { video?: Uint8Array; audio?: Uint8Array } = {};
+
+  // 等待另一轨道的数据，保证写入的帧时间单调递增
+  const videoQueue: WebMMuxerSample[] = [];
+  const audioQueue: WebMMuxerSample[] = [];
+
+  let cluster: {
+    // 毫秒
+    timecode: number;
+    blocks: Uint8Array[];
+    hasVideo: boolean;
+  } | null = null;
+  // 已输出的 Cluster 总字节数
+  let clustersSize = 0;
+  const cuePoints: Array<{ time: number; clusterOffset: number }> = [];
+  // 微秒
+  let duration = 0;
+  let finalized = false;
+
+  function closeCluster() {
+    if (cluster == null) return;
+    const data = ebmlElement(EBML_ID.Cluster, [
+      ebmlUint(EBML_ID.Timecode, cluster.timecode),
+      ...cluster.blocks,
+    ]);
+    cluster = null;
+    clustersSize += data.byteLength;
+    opts.onCluster(data);
+  }
+
+  function writeSample(trackNum: number, s: WebMMuxerSample) {
+    const timecode = Math.round(s.timestamp / 1e3);
+    const isVideoKey = trackNum === videoTrackNum && s.isKey;
+    if (
+      cluster == null ||
+      (isVideoKey && cluster.hasVideo) ||
+      timecode - cluster.timecode >= MAX_CLUSTER_DURATION / 1e3
+    ) {
+      closeCluster();
+      cluster = { timecode, blocks: [], hasVideo: false };
+      // 纯音频文件每个 Cluster 均可作为 seek 的位置
+      if (videoTrackNum === -1) {
+        cuePoints.push({ time: timecode, clusterOffset: clustersSize });
+      }
+    }
+    if (isVideoKey) {
+      cuePoints.push({ time: timecode, clusterOffset: clustersSize });
+    }
+    if (trackNum === videoTrackNum) cluster.hasVideo = true;
+
+    const relTimecode = timecode - cluster.timecode;
+    cluster.blocks.push(
+      ebmlElement(EBML_ID.SimpleBlock, [
+        encodeVint(trackNum),
+        new Uint8Array([
+          (relTimecode >> 8) & 0xff,
+          relTimecode & 0xff,
+          s.isKey ? 0x80 : 0,
+        ]),
+        s.data,
+      ]),
+    );
+    duration = Math.max(duration, s.timestamp + s.duration);
+  }
+
+  function drain(force: boolean) {
+    while (videoQueue.length > 0 || audioQueue.length > 0) {
+      const v = videoQueue[0];
+      const a = audioQueue[0];
+      // 两个轨道都有数据时才能确定下一帧
+      if (!force && videoTrackNum !== -1 && audioTrackNum !== -1) {
+        if (v == null || a == null) return;
+      }
+      if (v != null && (a == null || v.timestamp <= a.timestamp)) {
+        writeSample(videoTrackNum, videoQueue.shift()!);
+      } else {
+        writeSample(audioTrackNum, audioQueue.shift()!);
+      }
+    }
+  }
+
+  function createTrackEntries() {
+    const entries: Uint8Array[] = [];
+    if (opts.video != null && videoCodecId != null) {
+      const { width, height } = opts.video;
+      entries.push(
+        ebmlElement(EBML_ID.TrackEntry, [
+          ebmlUint(EBML_ID.TrackNumber, videoTrackNum),
+          ebmlUint(EBML_ID.TrackUID, videoTrackNum),
+          ebmlUint(EBML_ID.TrackType, 1),
+          ebmlUint(EBML_ID.FlagLacing, 0),
+          ebmlString(EBML_ID.CodecID, videoCodecId),
+          ...(codecPrivate.video == null
+            ? []
+            : [ebmlElement(EBML_ID.CodecPrivate, codecPrivate.video)]),
+          ebmlElement(EBML_ID.Video, [
+            ebmlUint(EBML_ID.PixelWidth, width),
+            ebmlUint(EBML_ID.PixelHeight, height),
+          ]),
+        ]),
+      );
+    }
+    if (opts.audio != null && audioCodecId != null) {
+      const { sampleRate, channelCount } = opts.audio;
+      const cp =
+        codecPrivate.audio ??
+        // 编码器未输出 description 时生成 OpusHead
+        (audioCodecId === 'A_OPUS'
+          ? createOpusHead(sampleRate, channelCount)
+          : null);
+      entries.push(
+        ebmlElement(EBML_ID.TrackEntry, [
+          ebmlUint(EBML_ID.TrackNumber, audioTrackNum),
+          ebmlUint(EBML_ID.TrackUID, audioTrackNum),
+          ebmlUint(EBML_ID.TrackType, 2),
+          ebmlUint(EBML_ID.FlagLacing, 0),
+          ebmlString(EBML_ID.CodecID, audioCodecId),
+          ...(cp == null ? [] : [ebmlElement(EBML_ID.CodecPrivate, cp)]),
+          // Opus 建议 seek 时预解码 80ms
+          ...(audioCodecId === 'A_OPUS'
+            ? [ebmlUint(EBML_ID.SeekPreRoll, 80e6)]
+            : []),
+          ebmlElement(EBML_ID.Audio, [
+            ebmlFloat(EBML_ID.SamplingFrequency, sampleRate),
+            ebmlUint(EBML_ID.Channels, channelCount),
+          ]),
+        ]),
+      );
+    }
+    return entries;
+  }
+
+  function createSeekHead(entries: Array<[number, number]>) {
+    return ebmlElement(
+      EBML_ID.SeekHead,
+      entries.map(([id, pos]) =>
+        ebmlElement(EBML_ID.Seek, [
+          ebmlUint(EBML_ID.SeekID, id),
+          ebmlUint(EBML_ID.SeekPosition, pos, POSITION_BYTES),
+        ]),
+      ),
+    );
+  }
+
+  return {
+    /**
+     * 设置编码器输出的 CodecPrivate（如 AV1 的 av1C、Opus 的 OpusHead），需在 finalize 前调用
+     */
+    setCodecPrivate(type: 'video' | 'audio', data: Uint8Array) {
+      codecPrivate[type] = data;
+    },
+    addVideoSample(s: WebMMuxerSample) {
+      if (finalized) throw Error('WebM muxer finalized');
+      if (videoTrackNum === -1) throw Error('WebM muxer has no video track');
+      videoQueue.push(s);
+      drain(false);
+    },
+    addAudioSample(s: WebMMuxerSample) {
+      if (finalized) throw Error('WebM muxer finalized');
+      if (audioTrackNum === -1) throw Error('WebM muxer has no audio track');
+      audioQueue.push(s);
+      drain(false);
+    },
+    /**
+     * 写入剩余的帧，返回文件头部（EBML Header、Segment 头、SeekHead、Info、Tracks、Cues）
+     */
+    finalize(): Uint8Array {
+      if (finalized) throw Error('WebM muxer finalized');
+      finalized = true;
+      drain(true);
+      closeCluster();
+
+      const ebmlHeader = ebmlElement(EBML_ID.EBML, [
+        ebmlUint(EBML_ID.EBMLVersion, 1),
+        ebmlUint(EBML_ID.EBMLReadVersion, 1),
+        ebmlUint(EBML_ID.EBMLMaxIDLength, 4),
+        ebmlUint(EBML_ID.EBMLMaxSizeLength, 8),
+        ebmlString(EBML_ID.DocType, 'webm'),
+        ebmlUint(EBML_ID.DocTypeVersion, 4),
+        ebmlUint(EBML_ID.DocTypeReadVersion, 2),
+      ]);
+      const info = ebmlElement(EBML_ID.Info, [
+        // 时间单位 1ms
+        ebmlUint(EBML_ID.TimecodeScale, 1e6),
+        ebmlString(EBML_ID.MuxingApp, 'WebAV'),
+        ebmlString(EBML_ID.WritingApp, 'WebAV'),
+        ebmlFloat(EBML_ID.Duration, duration / 1e3),
+      ]);
+      const tracks = ebmlElement(EBML_ID.Tracks, createTrackEntries());
+      const cueTrack = videoTrackNum === -1 ? audioTrackNum : videoTrackNum;
+      const createCues = (clustersStart: number) =>
+        ebmlElement(
+          EBML_ID.Cues,
+          cuePoints.map(({ time, clusterOffset }) =>
+            ebmlElement(EBML_ID.CuePoint, [
+              ebmlUint(EBML_ID.CueTime, time),
+              ebmlElement(EBML_ID.CueTrackPositions, [
+                ebmlUint(EBML_ID.CueTrack, cueTrack),
+                ebmlUint(
+                  EBML_ID.CueClusterPosition,
+                  clustersStart + clusterOffset,
+                  POSITION_BYTES,
+                ),
+              ]),
+            ]),
+          ),
+        );
+
+      // 位置均相对于 Segment 数据的起始位置，且使用固定字节数，先按 0 计算各元素大小
+      const seekHeadSize = createSeekHead([
+        [EBML_ID.Info, 0],
+        [EBML_ID.Tracks, 0],
+        [EBML_ID.Cues, 0],
+      ]).byteLength;
+      const infoPos = seekHeadSize;
+      const tracksPos = infoPos + info.byteLength;
+      const cuesPos = tracksPos + tracks.byteLength;
+      const cues = createCues(cuesPos + createCues(0).byteLength);
+      const seekHead = createSeekHead([
+        [EBML_ID.Info, infoPos],
+        [EBML_ID.Tracks, tracksPos],
+        [EBML_ID.Cues, cuesPos],
+      ]);
+
+      const segmentSize = cuesPos + cues.byteLength + clustersSize;
+      return concatU8([
+        ebmlHeader,
+        ebmlElementHead(EBML_ID.Segment, segmentSize, 8),
+        seekHead,
+        info,
+        tracks,
+        cues,
+      ]);
+    },
+  };
+}
@@ -0,0 +1,227 @@
+import { tmpfile, write } from 'opfs-tools';
+import { Log } from '../log';
+import type { IRecodeMuxOpts } from '../mp4-utils';
+import { createWebMMuxer } from './webm-muxer';
+
+/**
+ * 编码音视频数据，封装为 WebM 文件；视频支持 VP8、VP9、AV1，音频仅支持 Opus
+ *
+ * Duration、Cues 位于文件头部，所以编码过程中 Cluster 先写入临时文件，
+ * 调用 output 后才能得到完整的文件流
+ * @param opts - 编码音视频数据的配置，WebM 不支持 metaDataTags
+ */
+export function recodemuxWebM(opts: IRecodeMuxOpts): {
+  /**
+   * 编码视频帧
+   */
+  encodeVideo: (frame: VideoFrame, options: VideoEncoderEncodeOptions) => void;
+  /**
+   * 编码音频数据
+   */
+  encodeAudio: (data: AudioData) => void;
+  /**
+   * close 编码器，停止任务
+   */
+  close: () => void;
+  /**
+   * 清空编码器队列
+   */
+  flush: () => Promise<void>;
+  /**
+   * 结束写入，返回包含 Duration、Cues 的 WebM 文件流
+   */
+  output: () => Promise<ReadableStream<Uint8Array>>;
+  /**
+   * 返回队列长度（背压），用于控制生产视频的进度，队列过大会会占用大量显存
+   */
+  getEncodeQueueSize: () => number;
+  /**
+   * 返回视频编码器已输出的帧数
+   */
+  getEncodedVideoFrames: () => number;
+} {
+  Log.info('recodemuxWebM opts:', opts);
+  if (opts.audio?.codec === 'aac') {
+    throw Error('WebM container does not support AAC, use opus instead');
+  }
+
+  const clustersFile = tmpfile();
+  const writerPromise = clustersFile.createWriter();
+  // 按顺序写入临时文件
+  let writeQueue = writerPromise.then(() => {});
+  const muxer = createWebMMuxer({
+    video: opts.video,
+    audio: opts.audio,
+    onCluster: (data) => {
+      writeQueue = writeQueue.then(async () => {
+        await (await writerPromise).write(data);
+      });
+    },
+  });
+
+  let encodedVideoFrames = 0;
+  const vEncoder =
+    opts.video == null
+      ? null
+      : createVideoEncoder(opts.video, (chunk, meta) => {
+          encodedVideoFrames += 1;
+          const desc = meta?.decoderConfig?.description;
+          // AV1 的 av1C，VP8、VP9 不需要 CodecPrivate
+          if (desc != null) muxer.setCodecPrivate('video', buf2U8(desc));
+          muxer.addVideoSample(chunk2WebMSample(chunk));
+        });
+
+  const aEncoder =
+    opts.audio == null
+      ? null
+      : createAudioEncoder(opts.audio, (chunk, meta) => {
+          const desc = meta?.decoderConfig?.description;
+          // OpusHead，某些设备不会输出
+          if (desc != null) muxer.setCodecPrivate('audio', buf2U8(desc));
+          muxer.addAudioSample(chunk2WebMSample(chunk));
+        });
+
+  let outputted = false;
+  return {
+    encodeVideo: (vf, opts) => {
+      vEncoder?.encode(vf, opts);
+      vf.close();
+    },
+    encodeAudio: (ad) => {
+      if (aEncoder == null) return;
+      aEncoder.encode(ad);
+      ad.close();
+    },
+    getEncodeQueueSize: () =>
+      vEncoder?.encodeQueueSize ?? aEncoder?.encodeQueueSize ?? 0,
+    getEncodedVideoFrames: () => encodedVideoFrames,
+    flush: async () => {
+      await Promise.all([
+        vEncoder?.state === 'configured' ? vEncoder.flush() : null,
+        aEncoder?.state === 'configured' ? aEncoder.flush() : null,
+      ]);
+    },
+    close: () => {
+      if (vEncoder?.state === 'configured') vEncoder.close();
+      if (aEncoder?.state === 'configured') aEncoder.close();
+    },
+    output: async () => {
+      if (outputted) throw Error('File exported');
+      outputted = true;
+
+      const header = muxer.finalize();
+      await writeQueue;
+      await (await writerPromise).close();
+
+      const rsFile = tmpfile();
+      await write(rsFile, header);
+      await write(rsFile, clustersFile, { overwrite: false });
+      return await rsFile.stream();
+    },
+  };
+}
+
+/**
+ * 将 {@link recodemuxWebM} 的输出转换为文件流，调用 stop 后开始输出数据
+ * @param output - recodemuxWebM 返回的 output 函数
+ * @param onCancel - 当返回的流被取消时触发该回调函数
+ */
+export function webm2stream(
+  output: () => Promise<ReadableStream<Uint8Array>>,
+  onCancel?: () => void,
+): {
+  /**
+   * 可读流，流的数据是 `Uint8Array`
+   */
+  stream: ReadableStream<Uint8Array>;
+  /**
+   * 生产者停止写入，可向消费者传递错误信息
+   */
+  stop: (err?: Error) => void;
+} {
+  let stoped = false;
+  let onStop: (err?: Error) => void = () => {};
+  const stopPromise = new Promise<Error | undefined>((resolve) => {
+    onStop = resolve;
+  });
+
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(ctrl) {
+      if (reader == null) {
+        const err = await stopPromise;
+        if (err != null) {
+          ctrl.error(err);
+          return;
+        }
+        reader = (await output()).getReader();
+      }
+      const { done, value } = await reader.read();
+      if (done) ctrl.close();
+      else ctrl.enqueue(value);
+    },
+    cancel() {
+      reader?.cancel();
+      onCancel?.();
+    },
+  });
+
+  return {
+    stream,
+    stop: (err) => {
+      if (stoped) return;
+      stoped = true;
+      onStop(err);
+    },
+  };
+}
+
+function createVideoEncoder(
+  videoOpts: NonNullable<IRecodeMuxOpts['video']>,
+  outHandler: EncodedVideoChunkOutputCallback,
+) {
+  const encoder = new VideoEncoder({ error: Log.error, output: outHandler });
+  encoder.configure({
+    codec: videoOpts.codec,
+    framerate: videoOpts.expectFPS,
+    hardwareAcceleration: videoOpts.__unsafe_hardwareAcceleration__,
+    bitrate: videoOpts.bitrate,
+    width: videoOpts.width,
+    height: videoOpts.height,
+    alpha: 'discard',
+  });
+  return encoder;
+}
+
+function createAudioEncoder(
+  audioOpts: NonNullable<IRecodeMuxOpts['audio']>,
+  outHandler: EncodedAudioChunkOutputCallback,
+) {
+  const encoder = new AudioEncoder({ error: Log.error, output: outHandler });
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: audioOpts.sampleRate,
+    numberOfChannels: audioOpts.channelCount,
+    bitrate: 128_000,
+  });
+  return encoder;
+}
+
+function chunk2WebMSample(chunk: EncodedVideoChunk | EncodedAudioChunk) {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return {
+    data,
+    timestamp: chunk.timestamp,
+    duration: chunk.duration ?? 0,
+    isKey: chunk.type === 'key',
+  };
+}
+
+function buf2U8(buf: AllowSharedBufferSource) {
+  return ArrayBuffer.isView(buf)
+    ? new Uint8Array(
+        buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength),
+      )
+    : new Uint8Array(buf.slice(0));
+}
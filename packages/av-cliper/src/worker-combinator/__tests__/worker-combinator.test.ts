@@ -0,0 +1,115 @@
+import { expect, test, vi } from 'vitest';
+import { file, write } from 'opfs-tools';
+import { MP4Clip } from '../../clips';
+import { WorkerCombinator } from '..';
+
+const png_bunny = `//${location.host}/img/bunny.png`;
+const mp4_bunny_1 = `//${location.host}/video/bunny_1.mp4`;
+
+test('WorkerCombinator output', async () => {
+  const com = new WorkerCombinator({ width: 900, height: 500, audio: false });
+  await com.addSprite({
+    clip: { type: 'img', source: (await fetch(png_bunny)).body! },
+    time: { offset: 0, duration: 1e6 },
+  });
+  const onEnded = vi.fn();
+  com.on('OutputEnded', onEnded);
+
+  const clip = new MP4Clip(await com.output());
+  await clip.ready;
+  expect(clip.meta.duration).toBe(1033333);
+  expect(onEnded).toBeCalledTimes(1);
+  clip.destroy();
+  com.destroy();
+});
+
+test('WorkerCombinator add MP4Clip by OPFS file path', async () => {
+  const path = '/unit-test/worker-combinator.mp4';
+  await write(path, (await fetch(mp4_bunny_1)).body!);
+
+  const com = new WorkerCombinator({ width: 900, height: 500 });
+  const id1 = await com.addSprite({
+    clip: { type: 'mp4', source: path },
+    time: { offset: 0, duration: 1e6 },
+    main: true,
+  });
+  const id2 = await com.addSprite({
+    clip: { type: 'img', source: (await fetch(png_bunny)).body! },
+    time: { offset: 0.5e6, duration: 1e6 },
+  });
+  await com.addTransition(id1, id2, { name: 'crossfade', duration: 0.2e6 });
+  await expect(
+    com.addTransition(id1, 100, { name: 'crossfade', duration: 0.2e6 }),
+  ).rejects.toThrowError('Transition sprites must be added by addSprite first');
+
+  const clip = new MP4Clip(await com.output());
+  await clip.ready;
+  expect(Math.abs(clip.meta.duration - 1e6)).toBeLessThan(0.1e6);
+  clip.destroy();
+  com.destroy();
+  await file(path).remove();
+});
+
+test('WorkerCombinator invalid opts', async () => {
+  const com = new WorkerCombinator({ fps: 0 });
+  await expect(
+    com.addSprite({
+      clip: { type: 'img', source: (await fetch(png_bunny)).body! },
+    }),
+  ).rejects.toThrowError('Invalid fps: 0');
+  com.destroy();
+});
+
+test('WorkerCombinator rejects with the error thrown in worker', async () => {
+  const com = new WorkerCombinator();
+  const err = await com.output().catch((e) => e);
+  expect(err).toBeInstanceOf(Error);
+  expect(err).toMatchObject({ name: 'Error', message: 'No sprite added' });
+  com.destroy();
+});
+
+test('WorkerCombinator parallel output', async () => {
+  const path = '/unit-test/worker-combinator.png';
+  await write(path, (await fetch(png_bunny)).body!);
+
+  const com = new WorkerCombinator({
+    width: 900,
+    height: 500,
+    audio: false,
+    keyFrameInterval: '0.5s',
+  });
+  await com.addSprite({
+    clip: { type: 'img', source: path },
+    time: { offset: 0, duration: 2e6 },
+  });
+  const onProgress = vi.fn();
+  const onEnded = vi.fn();
+  com.on('OutputProgress', onProgress);
+  com.on('OutputEnded', onEnded);
+
+  const clip = new MP4Clip(await com.output({ parallel: 3 }));
+  await clip.ready;
+  // 与顺序输出一致，0 ~ 2s 共 61 帧
+  expect(clip.meta.duration).toBe(2033333);
+  expect(onProgress.mock.lastCall![0]).toBe(1);
+  expect(onEnded).toBeCalledTimes(1);
+  expect(onEnded.mock.lastCall![0].framesRendered).toBe(61);
+  clip.destroy();
+  com.destroy();
+  await file(path).remove();
+});
+
+test('WorkerCombinator parallel output requires shareable clip sources', async () => {
+  const com = new WorkerCombinator({ width: 900, height: 500 });
+  await com.addSprite({
+    clip: { type: 'img', source: (await fetch(png_bunny)).body! },
+    time: { offset: 0, duration: 1e6 },
+  });
+  await expect(com.output({ parallel: 2 })).rejects.toThrowError(
+    'Parallel output does not support ReadableStream or ImageBitmap clip source',
+  );
+  await expect(com.output({ parallel: 0 })).rejects.toThrowError(
+    'Invalid parallel: 0',
+  );
+  com.destroy();
+});
@@ -0,0 +1,191 @@
+import { file } from 'opfs-tools';
+import { AudioClip, IClip, ImgClip, MP4Clip } from '../clips';
+import { Combinator } from '../combinator';
+import { Log } from '../log';
+import { fastConcatMP4 } from '../mp4-utils';
+import { OffscreenSprite } from '../sprite/offscreen-sprite';
+import type {
+  ISpriteDescriptor,
+  TClipDescriptor,
+  TWorkerRequest,
+  TWorkerRequestMsg,
+  TWorkerResponseMsg,
+} from './protocol';
+
+// WorkerCombinator 在 Worker 中创建的 Combinator 实例
+
+let com: Combinator | null = null;
+// 主线程分配的 id 与添加的 Sprite 的映射，用于添加转场
+const sprites = new Map<number, OffscreenSprite>();
+let outputCtrl: AbortController | null = null;
+
+const post = (msg: TWorkerResponseMsg, transfer: Transferable[] = []) => {
+  self.postMessage(msg, { transfer });
+};
+
+// 将 Combinator 的事件转发到主线程，逐个监听以保证事件名与参数的类型对应
+function forwardEvents(target: Combinator) {
+  target.on('OutputProgress', (...args) =>
+    post({ type: 'event', name: 'OutputProgress', args }),
+  );
+  target.on('OutputEnded', (...args) =>
+    post({ type: 'event', name: 'OutputEnded', args }),
+  );
+  target.on('error', (...args) => post({ type: 'event', name: 'error', args }));
+  target.on('paused', (...args) =>
+    post({ type: 'event', name: 'paused', args }),
+  );
+  target.on('resumed', (...args) =>
+    post({ type: 'event', name: 'resumed', args }),
+  );
+  target.on('aborted', (...args) =>
+    post({ type: 'event', name: 'aborted', args }),
+  );
+}
+
+async function openFile(path: string, clipName: string) {
+  const localFile = file(path);
+  if (!(await localFile.exists())) {
+    throw Error(`${clipName} file not found: ${path}`);
+  }
+  return localFile;
+}
+
+async function createClip(desc: TClipDescriptor): Promise<IClip> {
+  switch (desc.type) {
+    case 'mp4': {
+      const { source, opts } = desc;
+      if (source instanceof ReadableStream) return new MP4Clip(source, opts);
+      if (typeof source !== 'string') return await MP4Clip.fromJSON(source);
+      return new MP4Clip(await openFile(source, 'MP4Clip'), opts);
+    }
+    case 'img': {
+      const { source, opts } = desc;
+      return new ImgClip(
+        typeof source === 'string'
+          ? await (await openFile(source, 'ImgClip')).stream()
+          : source,
+        opts,
+      );
+    }
+    case 'audio': {
+      const { source, opts } = desc;
+      return new AudioClip(
+        typeof source === 'string'
+          ? await (await openFile(source, 'AudioClip')).stream()
+          : source,
+        opts,
+      );
+    }
+    default:
+      throw Error(`Unknown clip type: ${(desc as TClipDescriptor).type}`);
+  }
+}
+
+async function createSprite(desc: ISpriteDescriptor) {
+  const spr = new OffscreenSprite(await createClip(desc.clip));
+  await spr.ready;
+  Object.assign(spr.rect, desc.rect);
+  Object.assign(spr.time, desc.time);
+  if (desc.zIndex != null) spr.zIndex = desc.zIndex;
+  if (desc.opacity != null) spr.opacity = desc.opacity;
+  if (desc.flip !== undefined) spr.flip = desc.flip;
+  if (desc.animation != null) {
+    spr.setAnimation(desc.animation.keyFrame, desc.animation.opts);
+  }
+  return spr;
+}
+
+function getCombinator() {
+  if (com == null) throw Error('Combinator is not created');
+  return com;
+}
+
+function destroy() {
+  outputCtrl = null;
+  com?.destroy();
+  com = null;
+  sprites.forEach((it) => it.destroy());
+  sprites.clear();
+}
+
+async function handle(
+  req: TWorkerRequest,
+): Promise<{ result?: unknown; transfer?: Transferable[] }> {
+  switch (req.type) {
+    case 'create': {
+      destroy();
+      com = new Combinator(req.opts);
+      forwardEvents(com);
+      return {};
+    }
+    case 'addSprite': {
+      const spr = await createSprite(req.sprite);
+      await getCombinator().addSprite(spr, { main: req.sprite.main });
+      sprites.set(req.spriteId, spr);
+      return {};
+    }
+    case 'addTransition': {
+      const from = sprites.get(req.from);
+      const to = sprites.get(req.to);
+      if (from == null || to == null) {
+        throw Error('Transition sprites must be added by addSprite first');
+      }
+      getCombinator().addTransition(from, to, req.opts);
+      return {};
+    }
+    case 'output': {
+      outputCtrl = new AbortController();
+      const stream = getCombinator().output({
+        signal: outputCtrl.signal,
+        segment: req.segment,
+      });
+      return { result: stream, transfer: [stream] };
+    }
+    case 'splitSegments':
+      return { result: getCombinator().splitSegments(req.count) };
+    case 'concat': {
+      // 各段由其他 Worker 输出到 OPFS 临时文件
+      const stream = await fastConcatMP4(
+        await Promise.all(req.files.map((path) => file(path).stream())),
+        { metaDataTags: req.metaDataTags },
+      );
+      return { result: stream, transfer: [stream] };
+    }
+    case 'pause':
+      getCombinator().pause();
+      return {};
+    case 'resume':
+      getCombinator().resume();
+      return {};
+    case 'abort':
+      outputCtrl?.abort(req.reason);
+      return {};
+    case 'destroy':
+      destroy();
+      return {};
+  }
+}
+
+// 按顺序处理请求，保证 Sprite 的添加顺序与主线程调用顺序一致
+let queue = Promise.resolve();
+self.onmessage = (evt: MessageEvent<TWorkerRequestMsg>) => {
+  const { reqId } = evt.data;
+  queue = queue.then(async () => {
+    try {
+      const { result, transfer } = await handle(evt.data);
+      post({ type: 'response', reqId, result }, transfer);
+    } catch (err) {
+      Log.error(err);
+      // 抛出的值可能无法被结构化克隆，仅传递错误名称与信息，避免主线程的调用无法结束
+      post({
+        type: 'response',
+        reqId,
+        error:
+          err instanceof Error
+            ? { name: err.name, message: err.message }
+            : { name: 'Error', message: String(err) },
+      });
+    }
+  });
+};
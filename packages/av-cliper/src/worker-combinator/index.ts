@@ -0,0 +1,496 @@
+import { tmpfile, write } from 'opfs-tools';
+import type {
+  ICombinatorOpts,
+  ICombinatorProgress,
+  ICombinatorReport,
+  ICombinatorSegment,
+  TCombinatorEvents,
+} from '../combinator';
+import { EventTool } from '../event-tool';
+import { Log } from '../log';
+import type { ITransitionOpts } from '../sprite/transition';
+import {
+  ISpriteDescriptor,
+  TWorkerRequest,
+  TWorkerResponseMsg,
+  getTransferables,
+} from './protocol';
+
+export type { ISpriteDescriptor, TClipDescriptor } from './protocol';
+
+// 并行输出时的一个分段，由独立的 WorkerCombinator（Worker）输出
+interface IParallelSegment {
+  com: WorkerCombinator;
+  // 已开始输出，可以暂停
+  outputting: boolean;
+  detail: ICombinatorProgress | null;
+  report: ICombinatorReport | null;
+}
+
+interface IParallelState {
+  segments: IParallelSegment[];
+  paused: boolean;
+  pauseStartAt: number;
+  // 暂停的总时长，毫秒
+  pausedTime: number;
+  // 结束输出流
+  close: () => void;
+}
+
+/**
+ * 在 Web Worker 中运行的 {@link Combinator}，合成过程不占用主线程
+ *
+ * 素材以可序列化的描述添加（{@link ISpriteDescriptor}），输出流、进度等事件通过 postMessage 从 Worker 传回；
+ * 使用 OPFS 文件创建的 {@link MP4Clip} 可传入文件路径或 {@link MP4Clip.toJSON} 的数据，无需复制文件
+ *
+ * @example
+ * const com = new WorkerCombinator({ width: 1280, height: 720 });
+ * const id1 = await com.addSprite({
+ *   clip: { type: 'mp4', source: '/videos/1.mp4' },
+ * });
+ * const id2 = await com.addSprite({
+ *   clip: { type: 'img', source: (await fetch('<img url>')).body },
+ *   rect: { x: 100, y: 100 },
+ *   time: { offset: 0, duration: 5e6 },
+ * });
+ * com.on('OutputProgress', (progress) => {});
+ * const stream = await com.output();
+ *
+ * @example
+ * // 拆分为 4 段，分别在 4 个 Worker 中合成，素材需使用 OPFS 文件路径
+ * await com.addSprite({
+ *   clip: { type: 'mp4', source: '/videos/1.mp4' },
+ *   main: true,
+ * });
+ * const stream = await com.output({ parallel: 4 });
+ */
+export class WorkerCombinator {
+  // 构建时 Worker 输出为独立的文件，按相对当前模块的路径加载
+  #worker = new Worker(new URL('./combinator.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+
+  #reqId = 0;
+
+  #pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (err: Error) => void }
+  >();
+
+  #spriteId = 0;
+
+  // Worker 中创建 Combinator 的结果，配置错误时后续调用均会失败
+  #created: Promise<unknown>;
+
+  #destroyed = false;
+
+  #opts: ICombinatorOpts;
+
+  // 已添加的 Sprite 描述、转场，并行输出时在各段的 Worker 中重新添加
+  #sprites = new Map<number, ISpriteDescriptor>();
+  #transitions: Array<{ from: number; to: number; opts: ITransitionOpts }> = [];
+
+  #parallel: IParallelState | null = null;
+
+  #evtTool = new EventTool<TCombinatorEvents>();
+  on = this.#evtTool.on;
+
+  /**
+   * @param opts 同 {@link Combinator} 的配置
+   */
+  constructor(opts: ICombinatorOpts = {}) {
+    this.#opts = opts;
+    this.#worker.onmessage = (evt: MessageEvent<TWorkerResponseMsg>) => {
+      const msg = evt.data;
+      if (msg.type === 'event') {
+        this.#evtTool.emit(msg.name, ...msg.args);
+        return;
+      }
+      const handler = this.#pending.get(msg.reqId);
+      if (handler == null) return;
+      this.#pending.delete(msg.reqId);
+      if (msg.error != null) {
+        handler.reject(Object.assign(Error(msg.error.message), msg.error));
+      } else handler.resolve(msg.result);
+    };
+    this.#created = this.#request({ type: 'create', opts });
+    // 错误通过后续调用抛出
+    this.#created.catch(() => {});
+  }
+
+  #request(req: TWorkerRequest, transfer: Transferable[] = []) {
+    if (this.#destroyed) {
+      return Promise.reject(Error('WorkerCombinator destroyed'));
+    }
+    const reqId = this.#reqId++;
+    return new Promise<unknown>((resolve, reject) => {
+      this.#pending.set(reqId, { resolve, reject });
+      this.#worker.postMessage({ ...req, reqId }, transfer);
+    });
+  }
+
+  async #call(req: TWorkerRequest, transfer: Transferable[] = []) {
+    // 请求按顺序发送，Worker 中按顺序处理
+    const [, result] = await Promise.all([
+      this.#created,
+      this.#request(req, transfer),
+    ]);
+    return result;
+  }
+
+  /**
+   * 添加用于合成视频的 Sprite，描述中的 ReadableStream、ImageBitmap 会被转移到 Worker
+   * @returns Sprite id，用于 {@link WorkerCombinator.addTransition}
+   */
+  async addSprite(sprite: ISpriteDescriptor): Promise<number> {
+    const spriteId = this.#spriteId++;
+    await this.#call(
+      { type: 'addSprite', spriteId, sprite },
+      getTransferables(sprite),
+    );
+    this.#sprites.set(spriteId, sprite);
+    return spriteId;
+  }
+
+  /**
+   * 在两个已添加的 Sprite 之间添加转场效果，参数同 {@link Combinator.addTransition}
+   * @param from 前一个 Sprite 的 id
+   * @param to 后一个 Sprite 的 id
+   */
+  async addTransition(
+    from: number,
+    to: number,
+    opts: ITransitionOpts,
+  ): Promise<void> {
+    await this.#call({ type: 'addTransition', from, to, opts });
+    this.#transitions.push({ from, to, opts });
+  }
+
+  /**
+   * 输出视频文件二进制流，输出流由 Worker 转移到当前线程
+   * @param opts.signal 同 {@link Combinator.output}
+   * @param opts.parallel 并行输出的段数，默认 1；大于 1 时在关键帧处拆分时间轴（{@link Combinator.splitSegments}），
+   * 每段在独立的 Worker 中合成、编码，再拼接为一个文件。仅支持 mp4、m4a，素材的 source 不能为 ReadableStream、ImageBitmap
+   */
+  async output(
+    opts: { signal?: AbortSignal; parallel?: number } = {},
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { signal, parallel = 1 } = opts;
+    if (!Number.isInteger(parallel) || parallel < 1) {
+      throw Error(`Invalid parallel: ${parallel}`);
+    }
+    return parallel > 1
+      ? await this.#outputParallel(parallel, signal)
+      : await this.#outputStream({ type: 'output' }, signal);
+  }
+
+  async #outputStream(
+    req: Extract<TWorkerRequest, { type: 'output' }>,
+    signal?: AbortSignal,
+  ) {
+    if (signal?.aborted) throw createAbortError();
+    const onAbort = () => {
+      // reason 需能被结构化克隆
+      const reason =
+        signal?.reason instanceof DOMException ||
+        typeof signal?.reason !== 'object'
+          ? signal?.reason
+          : String(signal.reason);
+      this.#request({ type: 'abort', reason }).catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const removeAbortListener = () =>
+      signal?.removeEventListener('abort', onAbort);
+    try {
+      const stream = (await this.#call(req)) as ReadableStream<Uint8Array>;
+      return onStreamFinish(stream, removeAbortListener);
+    } catch (err) {
+      removeAbortListener();
+      throw err;
+    }
+  }
+
+  async #outputParallel(
+    count: number,
+    signal?: AbortSignal,
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (signal?.aborted) throw createAbortError();
+    const sprites = [...this.#sprites];
+    if (sprites.some(([, it]) => getTransferables(it).length > 0)) {
+      throw Error(
+        'Parallel output does not support ReadableStream or ImageBitmap clip source',
+      );
+    }
+    const ranges = (await this.#call({
+      type: 'splitSegments',
+      count,
+    })) as ICombinatorSegment[];
+    if (signal?.aborted) throw createAbortError();
+
+    const segments: IParallelSegment[] = ranges.map(() => ({
+      com: new WorkerCombinator(this.#opts),
+      outputting: false,
+      detail: null,
+      report: null,
+    }));
+    // 各段输出到临时文件，再由当前实例的 Worker 拼接
+    const files = segments.map(() => tmpfile());
+    const maxTime = ranges[ranges.length - 1].end;
+
+    const starTime = performance.now();
+    let bytesWritten = 0;
+    const getElapsed = () =>
+      performance.now() -
+      starTime -
+      state.pausedTime -
+      (state.paused ? performance.now() - state.pauseStartAt : 0);
+    const sum = <T>(list: T[], getter: (it: T) => number) =>
+      list.reduce((acc, it) => acc + getter(it), 0);
+    const createProgress = (): ICombinatorProgress => {
+      const details = segments.flatMap((it) => it.detail ?? []);
+      const currentTime = sum(details, (it) => it.currentTime);
+      const elapsed = getElapsed();
+      const realtimeFactor = elapsed > 0 ? currentTime / 1e3 / elapsed : 0;
+      return {
+        progress: Math.min(1, currentTime / maxTime),
+        currentTime,
+        framesRendered: sum(details, (it) => it.framesRendered),
+        framesEncoded: sum(details, (it) => it.framesEncoded),
+        encodeQueueSize: sum(details, (it) => it.encodeQueueSize),
+        bytesWritten,
+        elapsed,
+        realtimeFactor,
+        eta:
+          realtimeFactor > 0
+            ? Math.max(0, maxTime - currentTime) / 1e3 / realtimeFactor
+            : -1,
+        activeSprites: sum(details, (it) => it.activeSprites),
+        avgRenderCost:
+          details.length > 0
+            ? sum(details, (it) => it.avgRenderCost) / details.length
+            : 0,
+      };
+    };
+    const emitProgress = () => {
+      const detail = createProgress();
+      this.#evtTool.emit('OutputProgress', detail.progress, detail);
+    };
+    const progTimer = setInterval(emitProgress, 500);
+
+    // 任一分段失败或取消输出时终止所有分段
+    const segmentCtrl = new AbortController();
+    // ReadableStream 构造时同步调用 start 赋值
+    let outCtrl!: ReadableStreamDefaultController<Uint8Array>;
+    let stoped = false;
+    const stop = () => {
+      if (stoped) return false;
+      stoped = true;
+      clearInterval(progTimer);
+      signal?.removeEventListener('abort', onAbort);
+      segmentCtrl.abort();
+      segments.forEach((it) => it.com.destroy());
+      if (this.#parallel === state) this.#parallel = null;
+      files.forEach((it) => {
+        it.remove().catch(Log.warn);
+      });
+      return true;
+    };
+    const closeOutStream = (err?: unknown) => {
+      if (!stop()) return;
+      if (err == null) outCtrl.close();
+      else outCtrl.error(err);
+    };
+    const state: IParallelState = {
+      segments,
+      paused: false,
+      pauseStartAt: 0,
+      pausedTime: 0,
+      close: () => closeOutStream(),
+    };
+    this.#parallel = state;
+
+    const onAbort = () => {
+      closeOutStream(createAbortError());
+      this.#evtTool.emit('aborted', signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (ctrl) => {
+        outCtrl = ctrl;
+      },
+      cancel: () => {
+        stop();
+      },
+    });
+
+    const renderSegment = async (seg: IParallelSegment, idx: number) => {
+      const { com } = seg;
+      com.on('OutputProgress', (_, detail) => {
+        seg.detail = detail;
+      });
+      com.on('OutputEnded', (report) => {
+        seg.report = report;
+      });
+      for (const [spriteId, sprite] of sprites) {
+        await com.#call({ type: 'addSprite', spriteId, sprite });
+      }
+      for (const { from, to, opts } of this.#transitions) {
+        await com.#call({ type: 'addTransition', from, to, opts });
+      }
+      const segStream = await com.#outputStream(
+        { type: 'output', segment: ranges[idx] },
+        segmentCtrl.signal,
+      );
+      seg.outputting = true;
+      // 开始输出前已暂停
+      if (state.paused) await com.pause();
+      await write(files[idx], segStream);
+      seg.outputting = false;
+    };
+
+    (async () => {
+      await Promise.all(segments.map(renderSegment));
+      if (stoped) return;
+      const reader = (
+        (await this.#call({
+          type: 'concat',
+          files: files.map((it) => it.path),
+          metaDataTags: this.#opts.metaDataTags,
+        })) as ReadableStream<Uint8Array>
+      ).getReader();
+      while (!stoped) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytesWritten += value.byteLength;
+        outCtrl.enqueue(value);
+      }
+      if (stoped) {
+        await reader.cancel();
+        return;
+      }
+
+      emitProgress();
+      const reports = segments.flatMap((it) => it.report ?? []);
+      const duration = sum(reports, (it) => it.duration);
+      const framesRendered = sum(reports, (it) => it.framesRendered);
+      const elapsed = getElapsed();
+      this.#evtTool.emit('OutputEnded', {
+        duration,
+        framesRendered,
+        elapsed,
+        pausedTime: state.pausedTime,
+        realtimeFactor: elapsed > 0 ? duration / 1e3 / elapsed : 0,
+        avgRenderCost:
+          framesRendered > 0
+            ? sum(reports, (it) => it.avgRenderCost * it.framesRendered) /
+              framesRendered
+            : 0,
+        maxEncodeQueueSize: Math.max(
+          0,
+          ...reports.map((it) => it.maxEncodeQueueSize),
+        ),
+      });
+      closeOutStream();
+    })().catch((err) => {
+      if (stoped) return;
+      Log.error(err);
+      const error = err instanceof Error ? err : Error(String(err));
+      this.#evtTool.emit('error', error);
+      closeOutStream(error);
+    });
+
+    return stream;
+  }
+
+  /**
+   * 暂停正在进行的输出，同 {@link Combinator.pause}
+   */
+  async pause(): Promise<void> {
+    const state = this.#parallel;
+    if (state == null) {
+      await this.#call({ type: 'pause' });
+      return;
+    }
+    if (state.paused) return;
+    state.paused = true;
+    state.pauseStartAt = performance.now();
+    // 尚未开始输出的分段在开始输出时暂停
+    await Promise.all(
+      state.segments.filter((it) => it.outputting).map((it) => it.com.pause()),
+    );
+    this.#evtTool.emit('paused');
+  }
+
+  /**
+   * 恢复已暂停的输出，同 {@link Combinator.resume}
+   */
+  async resume(): Promise<void> {
+    const state = this.#parallel;
+    if (state == null) {
+      await this.#call({ type: 'resume' });
+      return;
+    }
+    if (!state.paused) return;
+    state.paused = false;
+    state.pausedTime += performance.now() - state.pauseStartAt;
+    await Promise.all(
+      state.segments.filter((it) => it.outputting).map((it) => it.com.resume()),
+    );
+    this.#evtTool.emit('resumed');
+  }
+
+  /**
+   * 销毁 Worker 中的实例并终止 Worker
+   */
+  destroy() {
+    if (this.#destroyed) return;
+    this.#parallel?.close();
+    const destroyed = this.#request({ type: 'destroy' });
+    this.#destroyed = true;
+    this.#evtTool.destroy();
+    destroyed
+      .catch(() => {})
+      .finally(() => {
+        this.#worker.terminate();
+        this.#pending.forEach(({ reject }) =>
+          reject(Error('WorkerCombinator destroyed')),
+        );
+        this.#pending.clear();
+      });
+  }
+}
+
+function createAbortError() {
+  return new DOMException('Combinator output aborted', 'AbortError');
+}
+
+/**
+ * 包装输出流，流读取完毕、出错或被取消时调用 onFinish
+ */
+function onStreamFinish(
+  stream: ReadableStream<Uint8Array>,
+  onFinish: () => void,
+) {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    pull: async (ctrl) => {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          onFinish();
+          ctrl.close();
+        } else {
+          ctrl.enqueue(value);
+        }
+      } catch (err) {
+        onFinish();
+        throw err;
+      }
+    },
+    cancel: async (reason) => {
+      onFinish();
+      await reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,102 @@
+import type { AudioClip, IMP4ClipJSON, ImgClip, MP4Clip } from '../clips';
+import type {
+  ICombinatorOpts,
+  ICombinatorSegment,
+  TCombinatorEvents,
+} from '../combinator';
+import type { BaseSprite } from '../sprite/base-sprite';
+import type { ITransitionOpts } from '../sprite/transition';
+
+/**
+ * 可传递给 Worker 的素材描述
+ *
+ * source 为字符串时表示 OPFS 文件路径，Worker 中直接读取该文件；
+ * mp4 传入 {@link MP4Clip.toJSON} 的数据可保留 split 等编辑结果，无需重新解析文件；
+ * 并行输出时素材需在多个 Worker 中创建，source 不能为需要转移的 ReadableStream、ImageBitmap
+ */
+export type TClipDescriptor =
+  | {
+      type: 'mp4';
+      source: string | IMP4ClipJSON | ReadableStream<Uint8Array>;
+      opts?: ConstructorParameters<typeof MP4Clip>[1];
+    }
+  | {
+      type: 'img';
+      source: string | ReadableStream | ImageBitmap;
+      opts?: ConstructorParameters<typeof ImgClip>[1];
+    }
+  | {
+      type: 'audio';
+      source: string | ReadableStream<Uint8Array>;
+      opts?: ConstructorParameters<typeof AudioClip>[1];
+    };
+
+/**
+ * 可传递给 Worker 的 Sprite 描述，字段与 {@link OffscreenSprite} 的属性对应
+ */
+export interface ISpriteDescriptor {
+  clip: TClipDescriptor;
+  rect?: Partial<{ x: number; y: number; w: number; h: number; angle: number }>;
+  time?: Partial<{ offset: number; duration: number }>;
+  zIndex?: number;
+  opacity?: number;
+  flip?: 'horizontal' | 'vertical' | null;
+  /**
+   * 参数同 {@link OffscreenSprite.setAnimation}
+   */
+  animation?: {
+    keyFrame: Parameters<BaseSprite['setAnimation']>[0];
+    opts: Parameters<BaseSprite['setAnimation']>[1];
+  };
+  /**
+   * 同 {@link Combinator.addSprite} 的 opts.main
+   */
+  main?: boolean;
+}
+
+export type TWorkerRequest =
+  | { type: 'create'; opts: ICombinatorOpts }
+  | { type: 'addSprite'; spriteId: number; sprite: ISpriteDescriptor }
+  | { type: 'addTransition'; from: number; to: number; opts: ITransitionOpts }
+  | { type: 'splitSegments'; count: number }
+  | { type: 'output'; segment?: ICombinatorSegment }
+  | { type: 'concat'; files: string[]; metaDataTags?: Record<string, string> }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'abort'; reason: unknown }
+  | { type: 'destroy' };
+
+// 主线程 -> Worker，reqId 用于匹配响应
+export type TWorkerRequestMsg = TWorkerRequest & { reqId: number };
+
+/**
+ * Worker 中 Combinator 触发的事件，args 与事件名对应的回调参数一致
+ */
+type TWorkerEventMsg = {
+  [K in keyof TCombinatorEvents]: {
+    type: 'event';
+    name: K;
+    args: Parameters<TCombinatorEvents[K]>;
+  };
+}[keyof TCombinatorEvents];
+
+// Worker -> 主线程，error 为可结构化克隆的错误信息
+export type TWorkerResponseMsg =
+  | {
+      type: 'response';
+      reqId: number;
+      result?: unknown;
+      error?: { name: string; message: string };
+    }
+  | TWorkerEventMsg;
+
+/**
+ * 描述中需要转移（而非复制）给 Worker 的对象
+ */
+export function getTransferables(sprite: ISpriteDescriptor): Transferable[] {
+  const { source } = sprite.clip;
+  return source instanceof ReadableStream ||
+    (typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap)
+    ? [source]
+    : [];
+}
@@ -1,6 +1,11 @@
 import { resolve } from 'path';
 import { defineConfig } from 'vite';
 export default defineConfig({
+  // Worker 等资源以相对路径引用，发布后相对 dist 中的模块加载
+  base: './',
+  worker: {
+    format: 'es',
+  },
   build: {
     sourcemap: true,
     lib: {
@@ -4,6 +4,8 @@ import {
   autoReadStream,
   file2stream,
   recodemux,
+  recodemuxWebM,
+  webm2stream,
 } from '@webav/av-cliper';
 import {
   AVRecorderConf,
@@ -15,9 +17,9 @@ import {
 type TState = 'inactive' | 'recording' | 'paused' | 'stopped';
 
 /**
- * 录制媒体流 MediaStream，生成 MP4 文件流
+ * 录制媒体流 MediaStream，生成 MP4 或 WebM 文件流
  *
- * 如果你期望录制为 WebM 格式，请使用 [MediaRecorder](https://developer.mozilla.org/en-US/docs/Web/API/MediaRecorder)
+ * WebM 的 Duration、Cues 位于文件头部，设置 `container: 'webm'` 时停止录制后才会输出数据
  *
  * @example
  * const recorder = new AVRecorder(
@@ -50,13 +52,15 @@ export class AVRecorder {
 
   constructor(inputMediaStream: MediaStream, conf: AVRecorderConf = {}) {
     this.#conf = createRecoderConf(inputMediaStream, conf);
-    this.#recoderPauseCtrl = new RecoderPauseCtrl(this.#conf.video.expectFPS);
+    this.#recoderPauseCtrl = new RecoderPauseCtrl(
+      this.#conf.video?.expectFPS ?? 30,
+    );
   }
 
   #stopStream = () => {};
   /**
-   * 开始录制，返回 MP4 文件流
-   * @param timeSlice 控制流输出数据的时间间隔，单位毫秒
+   * 开始录制，返回 MP4（或 WebM）文件流
+   * @param timeSlice 控制流输出数据的时间间隔，单位毫秒；WebM 停止录制后才输出数据，该参数无效
    *
    */
   start(timeSlice: number = 500): ReadableStream<Uint8Array> {
@@ -114,25 +118,35 @@ function createRecoderConf(inputMS: MediaStream, userConf: AVRecorderConf) {
   const conf = {
     bitrate: 3e6,
     expectFPS: 30,
-    videoCodec: 'avc1.42E032',
+    container: 'mp4' as const,
+    videoCodec: userConf.container === 'webm' ? 'vp09.00.10.08' : 'avc1.42E032',
     ...userConf,
   };
   const { streams, width, height, sampleRate, channelCount } =
     extractMSSettings(inputMS);
 
+  // MediaStream 中不存在的轨道不写入文件，避免生成空轨道，
+  // 也避免 WebM 封装时等待另一轨道的数据而缓存全部帧
   const opts: Omit<IRecordOpts, 'timeSlice'> = {
-    video: {
-      width: width ?? 1280,
-      height: height ?? 720,
-      expectFPS: conf.expectFPS,
-      codec: conf.videoCodec,
-    },
-    audio: {
-      codec: 'aac',
-      sampleRate: sampleRate ?? 44100,
-      channelCount: channelCount ?? 2,
-    },
+    video:
+      streams.video == null
+        ? null
+        : {
+            width: width ?? 1280,
+            height: height ?? 720,
+            expectFPS: conf.expectFPS,
+            codec: conf.videoCodec,
+          },
+    audio:
+      streams.audio == null
+        ? null
+        : {
+            codec: conf.container === 'webm' ? 'opus' : 'aac',
+            sampleRate: sampleRate ?? 44100,
+            channelCount: channelCount ?? 2,
+          },
     bitrate: conf.bitrate,
+    container: conf.container,
     streams,
   };
   return opts;
@@ -242,13 +256,18 @@ function startRecord(
   let stopEncodeVideo: TClearFn | null = null;
   let stopEncodeAudio: TClearFn | null = null;
 
-  const recoder = recodemux({
-    video: { ...opts.video, bitrate: opts.bitrate ?? 3_000_000 },
+  const muxOpts = {
+    video:
+      opts.video == null
+        ? null
+        : { ...opts.video, bitrate: opts.bitrate ?? 3_000_000 },
     audio: opts.audio,
-  });
+  };
+  const recoder =
+    opts.container === 'webm' ? recodemuxWebM(muxOpts) : recodemux(muxOpts);
 
   let stoped = false;
-  if (opts.streams.video != null) {
+  if (opts.video != null && opts.streams.video != null) {
     let lastVf: VideoFrame | null = null;
     let autoInsertVFTimer = 0;
     const emitVf = (vf: VideoFrame) => {
@@ -304,14 +323,14 @@ function startRecord(
     });
   }
 
-  const { stream, stop: stopStream } = file2stream(
-    recoder.mp4file,
-    opts.timeSlice,
-    () => {
-      exit();
-      onEnded();
-    },
-  );
+  const onCancel = () => {
+    exit();
+    onEnded();
+  };
+  const { stream, stop: stopStream } =
+    'mp4file' in recoder
+      ? file2stream(recoder.mp4file, opts.timeSlice, onCancel)
+      : webm2stream(recoder.output, onCancel);
 
   function exit() {
     stoped = true;
@@ -1,5 +1,12 @@
 export interface AVRecorderConf {
   expectFPS?: number;
+  /**
+   * 输出文件的封装格式，默认 mp4；webm 的视频编码默认为 vp09.00.10.08，音频编码为 Opus
+   *
+   * 注意：WebM 的 Duration、Cues 位于文件头部，录制过程中数据暂存在 OPFS 临时文件中，
+   * 调用 stop 后 start 返回的流才开始输出数据，start 的 timeSlice 参数无效，不适用于边录制边上传的场景
+   */
+  container?: 'mp4' | 'webm';
   videoCodec?: string;
   /* 码率 */
   bitrate?: number;
@@ -11,13 +18,14 @@ export interface IRecordeOpts {
     height: number;
     expectFPS: number;
     codec: string;
-  };
+  } | null;
   audio: {
     codec: 'opus' | 'aac';
     sampleRate: number;
     channelCount: number;
   } | null;
   bitrate: number;
+  container: 'mp4' | 'webm';
   streams: IStream;
   timeSlice: number;
 }
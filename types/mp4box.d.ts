@@ -73,8 +73,9 @@ declare module '@webav/mp4box.js' {
     width: number;
     height: number;
     brands: string[];
-    description_boxes?: AVCCBox[];
+    description_boxes?: VideoCodecDescBox[];
     avcDecoderConfigRecord?: AllowSharedBufferSource | undefined | null;
+    hevcDecoderConfigRecord?: AllowSharedBufferSource | undefined | null;
   }
 
   export interface AudioTrackOpts {
@@ -84,6 +85,7 @@ declare module '@webav/mp4box.js' {
     samplerate: number;
     channel_count: number;
     samplesize?: number;
+    brands?: string[];
     description?: ESDSBoxParser;
     hdlr: string;
     type: string;
@@ -95,12 +97,17 @@ declare module '@webav/mp4box.js' {
     cts: number;
     sample_description_index?: number;
     is_sync: boolean;
-    description?: MP4ABoxParser | AVC1BoxParser | HVCBoxParser;
+    description?: MP4Sample['description'];
   }
 
   export interface MP4Sample {
     track_id: number;
-    description: MP4ABoxParser | AVC1BoxParser | HVCBoxParser;
+    description:
+      | MP4ABoxParser
+      | AVC1BoxParser
+      | HVCBoxParser
+      | VPXBoxParser
+      | AV1BoxParser;
     is_rap: boolean;
     is_sync: boolean;
     timescale: number;
@@ -197,18 +204,26 @@ declare module '@webav/mp4box.js' {
   interface TKHDBoxParser extends BoxParser {
     type: 'tkhd';
     track_id: number;
+    // 3x3 显示矩阵，a、b、c、d 为 16.16 定点数
+    matrix: Int32Array;
   }
 
   type STSDBoxParser = Omit<
     BoxParser & {
       type: 'stsd';
-      entries: Array<AVC1BoxParser | HVCBoxParser | MP4ABoxParser>;
+      entries: Array<
+        | AVC1BoxParser
+        | HVCBoxParser
+        | VPXBoxParser
+        | AV1BoxParser
+        | MP4ABoxParser
+      >;
     },
     'boxes'
   >;
 
   export interface AVC1BoxParser extends BoxParser {
-    type: 'avc1';
+    type: 'avc1' | 'avc3';
     boxes: AVCCBox[];
     avcC: AVCCBox;
     compressorname: string;
@@ -220,7 +235,7 @@ declare module '@webav/mp4box.js' {
   }
 
   export interface HVCBoxParser extends BoxParser {
-    type: 'hvc1';
+    type: 'hvc1' | 'hev1';
     boxes: HVCCBox[];
     hvcC: HVCCBox;
     compressorname: string;
@@ -231,6 +246,30 @@ declare module '@webav/mp4box.js' {
     width: number;
   }
 
+  export interface VPXBoxParser extends BoxParser {
+    type: 'vp08' | 'vp09';
+    boxes: VPCCBox[];
+    vpcC: VPCCBox;
+    compressorname: string;
+    frame_count: number;
+    height: number;
+    size: number;
+    start: number;
+    width: number;
+  }
+
+  export interface AV1BoxParser extends BoxParser {
+    type: 'av01';
+    boxes: AV1CBox[];
+    av1C: AV1CBox;
+    compressorname: string;
+    frame_count: number;
+    height: number;
+    size: number;
+    start: number;
+    width: number;
+  }
+
   interface AVCCBox extends BoxParser {
     PPS: Array<{ length: number; nalu: Uint8Array }>;
     SPS: Array<{ length: number; nalu: Uint8Array }>;
@@ -243,6 +282,28 @@ declare module '@webav/mp4box.js' {
     type: 'hvcC';
   }
 
+  interface VPCCBox extends BoxParser {
+    type: 'vpcC';
+    version: number;
+    profile: number;
+    level: number;
+    bitDepth: number;
+    chromaSubsampling: number;
+    videoFullRangeFlag: number;
+  }
+
+  interface AV1CBox extends BoxParser {
+    type: 'av1C';
+    seq_profile: number;
+    seq_level_idx_0: number;
+    seq_tier_0: number;
+    high_bitdepth: number;
+    twelve_bit: number;
+    configOBUs: Uint8Array;
+  }
+
+  export type VideoCodecDescBox = AVCCBox | HVCCBox | VPCCBox | AV1CBox;
+
   export interface MP4ABoxParser extends BoxParser {
     type: 'mp4a';
     channel_count: number;